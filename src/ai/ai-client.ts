@@ -1,4 +1,5 @@
 import type { WorkatoRecipe } from "../api/workato-client.js";
+import type { RecipeDiff } from "../rules/recipe-diff.js";
 
 export interface SemanticChangeResult {
   hasMeaningfulChange: boolean;
@@ -9,6 +10,10 @@ export interface SemanticChangeResult {
 export interface DocumentationResult {
   markdown: string;
   html?: string;
+  /** Model that produced the doc, recorded with each stored version. */
+  model?: string;
+  /** Version of the generation prompt, recorded with each stored version. */
+  promptVersion?: string;
 }
 
 export interface QualityResult {
@@ -22,9 +27,31 @@ export interface RunSummaryInput {
   recipesFetched: number;
   recipesChanged: number;
   recipesDocumented: number; // projects documented when using project-level docs
+  docsHeldForReview?: number;
+  /** Projects skipped because an AI budget was reached. */
+  projectsDeferred?: number;
+  /** Projects queued for regeneration because they changed in Workato. */
+  projectsChangedInWorkato?: number;
+  /** Estimated AI cost of the run so far, in USD; null when some calls used an unpriced model. */
+  estimatedCostUsd?: number | null;
+  /** Projects and recipes found removed or renamed in Workato, one line each. */
+  entityChanges?: string[];
+  /** Docs of removed projects and recipes archived by the publishers. */
+  docsArchived?: number;
   errors: string[];
 }
 
+/** Token usage of one model call, reported by the client after each call. */
+export interface AIUsage {
+  method: keyof AIClient;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  durationMs: number;
+}
+
 /** Schema and sample data for a lookup table referenced by recipe code. */
 export interface LookupTableContext {
   id: number;
@@ -34,21 +61,29 @@ export interface LookupTableContext {
 }
 
 export interface AIClient {
+  /** `diff` is the structural diff of the two versions (see diffRecipes). */
   analyzeSemanticChange(
     oldRecipe: WorkatoRecipe,
-    newRecipe: WorkatoRecipe
+    newRecipe: WorkatoRecipe,
+    diff: RecipeDiff
   ): Promise<SemanticChangeResult>;
 
+  /**
+   * `feedback` is the quality assessment of a previous draft; when present the
+   * model is asked to address its issues and suggested improvements.
+   */
   generateDocumentation(
     recipe: WorkatoRecipe,
-    lookupTables?: LookupTableContext[]
+    lookupTables?: LookupTableContext[],
+    feedback?: QualityResult
   ): Promise<DocumentationResult>;
 
   generateProjectDocumentation(
     projectName: string,
     projectDescription: string | undefined,
     recipes: WorkatoRecipe[],
-    lookupTables?: LookupTableContext[]
+    lookupTables?: LookupTableContext[],
+    feedback?: QualityResult
   ): Promise<DocumentationResult>;
 
   assessQuality(
@@ -56,5 +91,11 @@ export interface AIClient {
     recipe: WorkatoRecipe
   ): Promise<QualityResult>;
 
+  assessProjectQuality(
+    doc: DocumentationResult,
+    projectName: string,
+    recipes: WorkatoRecipe[]
+  ): Promise<QualityResult>;
+
   generateRunSummary(input: RunSummaryInput): Promise<string>;
 }
@@ -1,8 +1,14 @@
 import Anthropic from "@anthropic-ai/sdk";
+import type { MessageCreateParamsNonStreaming } from "@anthropic-ai/sdk/resources/messages";
 import { marked } from "marked";
+import { aiRequestDuration, aiTokens } from "../metrics.js";
+import type { Limiter } from "../concurrency.js";
 import type { WorkatoRecipe } from "../api/workato-client.js";
+import { formatRecipeDiff, stripRecipeCodeNoise } from "../rules/recipe-diff.js";
+import type { RecipeDiff } from "../rules/recipe-diff.js";
 import type {
   AIClient,
+  AIUsage,
   DocumentationResult,
   LookupTableContext,
   QualityResult,
@@ -41,24 +47,16 @@ ${STYLE_GUIDELINES}`;
 
 const PROJECT_DOC_GEN_SYSTEM = DOC_GEN_SYSTEM;
 
+/**
+ * Stored with every generated doc version. Bump whenever the doc-generation
+ * prompts above or below change so stored docs can be traced to their prompt.
+ */
+export const DOC_PROMPT_VERSION = "1";
+
 // ---------------------------------------------------------------------------
 // Helpers – strip noise from recipe JSON, deduplicate apps, format lookups
 // ---------------------------------------------------------------------------
 
-/**
- * Workato recipe-code keys that are UI / framework metadata and carry no
- * information relevant to documentation (field mappings, logic, providers).
- */
-const RECIPE_CODE_STRIP_KEYS = new Set([
-  "uuid",                           // internal step identifier
-  "number",                         // step sequence (implicit from order)
-  "as",                             // internal variable binding name
-  "description",                    // auto-generated HTML step label – redundant with provider+name+input
-  "visible_config_fields",          // UI visibility metadata
-  "visible_config_fields_for_action",
-  "toggleCfg",                      // UI toggle state
-]);
-
 /**
  * Strip noise fields from Workato recipe code and return compact JSON.
  * Preserves all documentation-relevant data: providers, action names, inputs,
@@ -75,21 +73,7 @@ function compactRecipeCode(code: string | object | undefined): string {
     return typeof code === "string" ? code : JSON.stringify(code);
   }
 
-  function strip(obj: unknown): unknown {
-    if (Array.isArray(obj)) return obj.map(strip);
-    if (obj !== null && typeof obj === "object") {
-      const out: Record<string, unknown> = {};
-      for (const [k, v] of Object.entries(obj as Record<string, unknown>)) {
-        if (RECIPE_CODE_STRIP_KEYS.has(k)) continue;
-        if (v === null || v === undefined) continue;
-        out[k] = strip(v);
-      }
-      return out;
-    }
-    return obj;
-  }
-
-  return JSON.stringify(strip(parsed));
+  return JSON.stringify(stripRecipeCodeNoise(parsed));
 }
 
 /**
@@ -148,13 +132,33 @@ function formatLookupTablesForPrompt(
   return `\nLookup tables:\n${sections.join("\n\n")}\n`;
 }
 
+/**
+ * Format a quality assessment of a previous draft so the regeneration prompt
+ * can address it. Returns an empty string when there is no feedback.
+ */
+function formatFeedbackForPrompt(feedback: QualityResult | undefined): string {
+  if (!feedback) return "";
+
+  const lines = [
+    `A previous draft scored ${feedback.score}/5. Address this reviewer feedback:`,
+  ];
+  for (const issue of feedback.issues) {
+    lines.push(`- Issue: ${sanitizeForPrompt(issue)}`);
+  }
+  for (const improvement of feedback.suggestedImprovements ?? []) {
+    lines.push(`- Improve: ${sanitizeForPrompt(improvement)}`);
+  }
+  return lines.join("\n");
+}
+
 // ---------------------------------------------------------------------------
 // User prompts – kept lean; static instructions live in the system prompt.
 // ---------------------------------------------------------------------------
 
 const DOC_GEN_USER = (
   recipe: WorkatoRecipe,
-  lookupTables?: LookupTableContext[]
+  lookupTables?: LookupTableContext[],
+  feedback?: QualityResult
 ) => {
   const lines: string[] = [
     "Create a data mapping document for this integration workflow. Be concise, business-focused, well-organized (tables/bullets), and include practical examples.",
@@ -176,6 +180,9 @@ const DOC_GEN_USER = (
   const lut = formatLookupTablesForPrompt(lookupTables);
   if (lut) lines.push(lut);
 
+  const fb = formatFeedbackForPrompt(feedback);
+  if (fb) lines.push("", fb);
+
   lines.push("", 'Output valid JSON: {"markdown": "..."}');
   return lines.join("\n");
 };
@@ -184,7 +191,8 @@ const PROJECT_DOC_GEN_USER = (
   projectName: string,
   projectDescription: string | undefined,
   recipes: WorkatoRecipe[],
-  lookupTables?: LookupTableContext[]
+  lookupTables?: LookupTableContext[],
+  feedback?: QualityResult
 ) => {
   const lines: string[] = [
     `Create a data mapping document for this integration project (${recipes.length} workflows). Be concise, business-focused, well-organized (tables/bullets), and include practical examples.`,
@@ -212,6 +220,9 @@ const PROJECT_DOC_GEN_USER = (
   const lut = formatLookupTablesForPrompt(lookupTables);
   if (lut) lines.push(lut);
 
+  const fb = formatFeedbackForPrompt(feedback);
+  if (fb) lines.push("", fb);
+
   lines.push(
     "",
     "Structure: overview of all workflows → combined or per-workflow field mappings → per-workflow scenarios and sync rules → unified important notes.",
@@ -222,14 +233,23 @@ const PROJECT_DOC_GEN_USER = (
   return lines.join("\n");
 };
 
+/** Removed or renamed entities listed in the run summary prompt. */
+const MAX_SUMMARY_CHANGES = 20;
+
 const SEMANTIC_SYSTEM = `You analyze changes between two versions of a Workato recipe. Determine if the change is semantically meaningful (affects behavior or documentation).`;
 
-const SEMANTIC_USER = (oldRecipe: WorkatoRecipe, newRecipe: WorkatoRecipe) => `
-Compare these two recipe versions. Output valid JSON:
+const SEMANTIC_USER = (
+  oldRecipe: WorkatoRecipe,
+  newRecipe: WorkatoRecipe,
+  diff: RecipeDiff
+) => `
+Judge whether these changes between two recipe versions are meaningful. Output valid JSON:
 {"hasMeaningfulChange": boolean, "changeSummary": string, "changeType": "logic" | "config" | "metadata" | null}
 
-Old recipe: ${JSON.stringify({ name: oldRecipe.name, description: oldRecipe.description, code: oldRecipe.code?.slice(0, 2000) })}
-New recipe: ${JSON.stringify({ name: newRecipe.name, description: newRecipe.description, code: newRecipe.code?.slice(0, 2000) })}
+Old recipe: ${JSON.stringify({ name: sanitizeForPrompt(oldRecipe.name), description: oldRecipe.description })}
+New recipe: ${JSON.stringify({ name: sanitizeForPrompt(newRecipe.name), description: newRecipe.description })}
+Step changes (steps numbered from the trigger; UI metadata omitted):
+${sanitizeForPrompt(formatRecipeDiff(diff))}
 `;
 
 const QUALITY_SYSTEM = `You assess documentation quality for Workato recipes. Score 1-5 (5=excellent).`;
@@ -245,10 +265,122 @@ ${doc.markdown.slice(0, 3000)}
 Output valid JSON: {"score": number, "issues": string[], "suggestedImprovements": string[]}
 `;
 
+const PROJECT_QUALITY_USER = (
+  doc: DocumentationResult,
+  projectName: string,
+  recipes: WorkatoRecipe[]
+) => `
+Project: ${sanitizeForPrompt(projectName)}
+Workflows: ${recipes.map((r) => sanitizeForPrompt(r.name)).join("; ")}
+Documentation:
+${doc.markdown.slice(0, 8000)}
+
+Check that every workflow listed above is covered.
+Output valid JSON: {"score": number, "issues": string[], "suggestedImprovements": string[]}
+`;
+
+const DEFAULT_DOC_MODEL = "claude-haiku-4-5-20251001";
+const DEFAULT_QUALITY_MODEL = "claude-sonnet-4-5-20250929";
+
+/** Rough characters per token for planning estimates; real counts vary. */
+const CHARS_PER_TOKEN = 4;
+/** Assumed length of a generated doc, in tokens, for planning estimates. */
+const ESTIMATED_DOC_TOKENS = 3000;
+/** Assumed length of a quality assessment, in tokens. */
+const ESTIMATED_QUALITY_TOKENS = 300;
+
+/** Estimated size of one model call. */
+export interface CallEstimate {
+  method: keyof AIClient;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+function estimateTokens(...texts: string[]): number {
+  return Math.ceil(texts.reduce((sum, t) => sum + t.length, 0) / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the calls documenting a project makes, from the prompts that
+ * would be sent. Lookup tables and quality-gate regenerations are not
+ * included.
+ */
+export function estimateDocumentationCalls(input: {
+  projectName: string;
+  projectDescription?: string;
+  /** Every recipe in the project; set to generate the project doc. */
+  projectRecipes?: WorkatoRecipe[];
+  /** Recipes that get their own doc. */
+  recipeDocs: WorkatoRecipe[];
+  qualityGate: boolean;
+  docModel?: string;
+  qualityModel?: string;
+}): CallEstimate[] {
+  const docModel = input.docModel ?? DEFAULT_DOC_MODEL;
+  const qualityModel = input.qualityModel ?? DEFAULT_QUALITY_MODEL;
+  const doc: DocumentationResult = {
+    markdown: "x".repeat(ESTIMATED_DOC_TOKENS * CHARS_PER_TOKEN),
+    html: "",
+    model: docModel,
+    promptVersion: DOC_PROMPT_VERSION,
+  };
+  const calls: CallEstimate[] = [];
+  for (const recipe of input.recipeDocs) {
+    calls.push({
+      method: "generateDocumentation",
+      model: docModel,
+      inputTokens: estimateTokens(DOC_GEN_SYSTEM, DOC_GEN_USER(recipe)),
+      outputTokens: ESTIMATED_DOC_TOKENS,
+    });
+    if (input.qualityGate) {
+      calls.push({
+        method: "assessQuality",
+        model: qualityModel,
+        inputTokens: estimateTokens(QUALITY_SYSTEM, QUALITY_USER(doc, recipe)),
+        outputTokens: ESTIMATED_QUALITY_TOKENS,
+      });
+    }
+  }
+  if (input.projectRecipes) {
+    calls.push({
+      method: "generateProjectDocumentation",
+      model: docModel,
+      inputTokens: estimateTokens(
+        PROJECT_DOC_GEN_SYSTEM,
+        PROJECT_DOC_GEN_USER(
+          input.projectName,
+          input.projectDescription,
+          input.projectRecipes
+        )
+      ),
+      outputTokens: ESTIMATED_DOC_TOKENS,
+    });
+    if (input.qualityGate) {
+      calls.push({
+        method: "assessProjectQuality",
+        model: qualityModel,
+        inputTokens: estimateTokens(
+          QUALITY_SYSTEM,
+          PROJECT_QUALITY_USER(doc, input.projectName, input.projectRecipes)
+        ),
+        outputTokens: ESTIMATED_QUALITY_TOKENS,
+      });
+    }
+  }
+  return calls;
+}
+
 export interface AnthropicClientConfig {
   apiKey: string;
   docModel?: string;
   qualityModel?: string;
+  /** Called with the token usage of every successful API call. */
+  onUsage?: (usage: AIUsage) => void;
+  /** Called before every API call; throwing stops the call (e.g. budget limits). */
+  beforeCall?: (method: keyof AIClient) => void;
+  /** Shared limit on concurrent API calls across clients. */
+  limiter?: Limiter;
 }
 
 /**
@@ -313,14 +445,16 @@ async function withRetry<T>(
       return await fn();
     } catch (err) {
       lastErr = err instanceof Error ? err : new Error(String(err));
+      // Errors can opt out of retries, e.g. budget stops from beforeCall.
       const isRetryable =
-        lastErr.message.includes("429") ||
+        (lastErr as { retryable?: boolean }).retryable !== false &&
+        (lastErr.message.includes("429") ||
         lastErr.message.includes("500") ||
         lastErr.message.includes("529") ||
         lastErr.message.includes("overloaded") ||
         lastErr.message.includes("ECONNRESET") ||
         lastErr.message.includes("ETIMEDOUT") ||
-        lastErr.message.includes("rate_limit");
+        lastErr.message.includes("rate_limit"));
 
       if (!isRetryable || attempt >= maxRetries) {
         throw lastErr;
@@ -341,20 +475,63 @@ export function createAnthropicClient(config: AnthropicClientConfig): AIClient {
   }
 
   const client = new Anthropic({ apiKey: config.apiKey });
-  const docModel = config.docModel ?? "claude-haiku-4-5-20251001";
-  const qualityModel = config.qualityModel ?? "claude-sonnet-4-5-20250929";
+  const docModel = config.docModel ?? DEFAULT_DOC_MODEL;
+  const qualityModel = config.qualityModel ?? DEFAULT_QUALITY_MODEL;
+
+  /** messages.create, recording latency and token usage for the calling method. */
+  async function createMessage(
+    method: keyof AIClient,
+    body: MessageCreateParamsNonStreaming
+  ) {
+    config.beforeCall?.(method);
+    const limit = config.limiter ?? ((task) => task());
+    let started = 0;
+    const response = await limit(async () => {
+      started = Date.now();
+      const endTimer = aiRequestDuration.startTimer({ method });
+      try {
+        const result = await client.messages.create(body);
+        endTimer({ outcome: "success" });
+        return result;
+      } catch (err) {
+        endTimer({ outcome: "error" });
+        throw err;
+      }
+    });
+
+    const raw = response.usage as typeof response.usage & {
+      cache_creation_input_tokens?: number | null;
+      cache_read_input_tokens?: number | null;
+    };
+    const usage: AIUsage = {
+      method,
+      model: response.model,
+      inputTokens: raw.input_tokens,
+      outputTokens: raw.output_tokens,
+      cacheWriteTokens: raw.cache_creation_input_tokens ?? 0,
+      cacheReadTokens: raw.cache_read_input_tokens ?? 0,
+      durationMs: Date.now() - started,
+    };
+    const labels = { method, model: usage.model };
+    aiTokens.inc({ ...labels, type: "input" }, usage.inputTokens);
+    aiTokens.inc({ ...labels, type: "output" }, usage.outputTokens);
+    aiTokens.inc({ ...labels, type: "cache_write" }, usage.cacheWriteTokens);
+    aiTokens.inc({ ...labels, type: "cache_read" }, usage.cacheReadTokens);
+    config.onUsage?.(usage);
+    return response;
+  }
 
   return {
-    async analyzeSemanticChange(oldRecipe, newRecipe) {
+    async analyzeSemanticChange(oldRecipe, newRecipe, diff) {
       return withRetry(async () => {
-        const response = await client.messages.create({
+        const response = await createMessage("analyzeSemanticChange", {
           model: docModel,
           max_tokens: 1024,
           system: SEMANTIC_SYSTEM,
           messages: [
             {
               role: "user",
-              content: SEMANTIC_USER(oldRecipe, newRecipe),
+              content: SEMANTIC_USER(oldRecipe, newRecipe, diff),
             },
           ],
           temperature: 0.2,
@@ -373,16 +550,20 @@ export function createAnthropicClient(config: AnthropicClientConfig): AIClient {
       }, { context: "analyzeSemanticChange" });
     },
 
-    async generateDocumentation(recipe, lookupTables): Promise<DocumentationResult> {
+    async generateDocumentation(
+      recipe,
+      lookupTables,
+      feedback
+    ): Promise<DocumentationResult> {
       return withRetry(async () => {
-        const response = await client.messages.create({
+        const response = await createMessage("generateDocumentation", {
           model: docModel,
           max_tokens: 8192,
           system: DOC_GEN_SYSTEM,
           messages: [
             {
               role: "user",
-              content: DOC_GEN_USER(recipe, lookupTables),
+              content: DOC_GEN_USER(recipe, lookupTables, feedback),
             },
           ],
           temperature: 0.3,
@@ -400,7 +581,12 @@ export function createAnthropicClient(config: AnthropicClientConfig): AIClient {
           );
         }
         const html = marked.parse(parsed.markdown, { async: false }) as string;
-        return { markdown: parsed.markdown, html };
+        return {
+          markdown: parsed.markdown,
+          html,
+          model: response.model,
+          promptVersion: DOC_PROMPT_VERSION,
+        };
       }, { context: "generateDocumentation" });
     },
 
@@ -408,10 +594,11 @@ export function createAnthropicClient(config: AnthropicClientConfig): AIClient {
       projectName,
       projectDescription,
       recipes,
-      lookupTables
+      lookupTables,
+      feedback
     ): Promise<DocumentationResult> {
       return withRetry(async () => {
-        const response = await client.messages.create({
+        const response = await createMessage("generateProjectDocumentation", {
           model: docModel,
           max_tokens: 8192,
           system: PROJECT_DOC_GEN_SYSTEM,
@@ -422,7 +609,8 @@ export function createAnthropicClient(config: AnthropicClientConfig): AIClient {
                 projectName,
                 projectDescription,
                 recipes,
-                lookupTables
+                lookupTables,
+                feedback
               ),
             },
           ],
@@ -441,13 +629,18 @@ export function createAnthropicClient(config: AnthropicClientConfig): AIClient {
           );
         }
         const html = marked.parse(parsed.markdown, { async: false }) as string;
-        return { markdown: parsed.markdown, html };
+        return {
+          markdown: parsed.markdown,
+          html,
+          model: response.model,
+          promptVersion: DOC_PROMPT_VERSION,
+        };
       }, { context: "generateProjectDocumentation" });
     },
 
     async assessQuality(doc, recipe): Promise<QualityResult> {
       return withRetry(async () => {
-        const response = await client.messages.create({
+        const response = await createMessage("assessQuality", {
           model: qualityModel,
           max_tokens: 1024,
           system: QUALITY_SYSTEM,
@@ -470,17 +663,56 @@ export function createAnthropicClient(config: AnthropicClientConfig): AIClient {
       }, { context: "assessQuality" });
     },
 
+    async assessProjectQuality(doc, projectName, recipes): Promise<QualityResult> {
+      return withRetry(async () => {
+        const response = await createMessage("assessProjectQuality", {
+          model: qualityModel,
+          max_tokens: 1024,
+          system: QUALITY_SYSTEM,
+          messages: [
+            {
+              role: "user",
+              content: PROJECT_QUALITY_USER(doc, projectName, recipes),
+            },
+          ],
+          temperature: 0.2,
+        });
+        const text = getTextFromResponse(response.content);
+        if (!text) throw new Error("Empty project quality response");
+        const parsed = safeJsonParse<QualityResult>(
+          text,
+          "project quality assessment"
+        );
+        return {
+          score: parsed.score ?? 3,
+          issues: parsed.issues ?? [],
+          suggestedImprovements: parsed.suggestedImprovements,
+        };
+      }, { context: "assessProjectQuality" });
+    },
+
     async generateRunSummary(input): Promise<string> {
+      const changes = input.entityChanges ?? [];
+      const changesText = changes.length
+        ? `\n\nRemoved or renamed in Workato (${input.docsArchived ?? 0} docs archived):\n${changes
+            .slice(0, MAX_SUMMARY_CHANGES)
+            .map((c) => `- ${sanitizeForPrompt(c)}`)
+            .join("\n")}${
+            changes.length > MAX_SUMMARY_CHANGES
+              ? `\n- …and ${changes.length - MAX_SUMMARY_CHANGES} more`
+              : ""
+          }`
+        : "";
       return withRetry(async () => {
-        const response = await client.messages.create({
+        const response = await createMessage("generateRunSummary", {
           model: docModel,
           max_tokens: 512,
           system:
-            "Generate a brief, human-readable run summary for a Workato recipe documentation sync. 2-4 sentences.",
+            "Generate a brief, human-readable run summary for a Workato recipe documentation sync. 2-4 sentences. If projects or recipes were removed or renamed, say which.",
           messages: [
             {
               role: "user",
-              content: `Sync stats: ${input.customersProcessed} customers, ${input.recipesFetched} recipes fetched, ${input.recipesChanged} changed, ${input.recipesDocumented} documented. Errors: ${input.errors.length}`,
+              content: `Sync stats: ${input.customersProcessed} customers, ${input.recipesFetched} recipes fetched, ${input.recipesChanged} changed, ${input.recipesDocumented} documented, ${input.docsHeldForReview ?? 0} held for review (low quality score), ${input.projectsDeferred ?? 0} projects deferred (AI budget reached), ${input.projectsChangedInWorkato ?? 0} projects regenerated because they changed in Workato. Errors: ${input.errors.length}.${input.estimatedCostUsd === null ? " Estimated AI cost: unknown (unpriced model)." : input.estimatedCostUsd !== undefined ? ` Estimated AI cost: $${input.estimatedCostUsd.toFixed(2)}.` : ""}${changesText}`,
             },
           ],
           temperature: 0.2,
@@ -0,0 +1,81 @@
+import type { AIUsage } from "./ai-client.js";
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/** Keyed by model ID or ID prefix; the longest matching key wins. */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+const PRICE_FIELDS: Array<keyof ModelPrice> = [
+  "input",
+  "output",
+  "cacheWrite",
+  "cacheRead",
+];
+
+/**
+ * Parse a JSON price table (e.g. from AI_PRICES) and merge it over the
+ * defaults. Entries must give all four prices.
+ */
+export function parsePriceTable(json: string | undefined): PriceTable {
+  if (!json) return DEFAULT_PRICE_TABLE;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    const wrapped = new Error("AI_PRICES must be valid JSON");
+    wrapped.cause = err;
+    throw wrapped;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("AI_PRICES must be a JSON object keyed by model");
+  }
+  const table: PriceTable = { ...DEFAULT_PRICE_TABLE };
+  for (const [model, price] of Object.entries(parsed)) {
+    const p = price as Record<string, unknown>;
+    if (!p || PRICE_FIELDS.some((f) => typeof p[f] !== "number")) {
+      throw new Error(
+        `AI_PRICES entry "${model}" must have numeric ${PRICE_FIELDS.join(", ")}`
+      );
+    }
+    table[model] = p as unknown as ModelPrice;
+  }
+  return table;
+}
+
+export function findModelPrice(
+  model: string,
+  table: PriceTable
+): ModelPrice | null {
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    if (model.startsWith(key) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? table[best] : null;
+}
+
+/** Estimated USD cost of one call, or null when the model has no price. */
+export function estimateCostUsd(usage: AIUsage, table: PriceTable): number | null {
+  const price = findModelPrice(usage.model, table);
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.input +
+      usage.outputTokens * price.output +
+      usage.cacheWriteTokens * price.cacheWrite +
+      usage.cacheReadTokens * price.cacheRead) /
+    1_000_000
+  );
+}
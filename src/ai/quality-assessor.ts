@@ -8,3 +8,12 @@ export async function assessQuality(
 ): Promise<QualityResult> {
   return client.assessQuality(doc, recipe);
 }
+
+export async function assessProjectQuality(
+  client: AIClient,
+  doc: DocumentationResult,
+  projectName: string,
+  recipes: WorkatoRecipe[]
+): Promise<QualityResult> {
+  return client.assessProjectQuality(doc, projectName, recipes);
+}
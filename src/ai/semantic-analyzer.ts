@@ -1,10 +1,24 @@
 import type { WorkatoRecipe } from "../api/workato-client.js";
+import { diffRecipes } from "../rules/recipe-diff.js";
 import type { AIClient, SemanticChangeResult } from "./ai-client.js";
 
+/**
+ * Diff the two versions structurally and ask the model only when something
+ * beyond UI metadata changed, passing it the diff.
+ */
 export async function analyzeSemanticChange(
-  client: AIClient,
+  client: Pick<AIClient, "analyzeSemanticChange">,
   oldRecipe: WorkatoRecipe,
   newRecipe: WorkatoRecipe
 ): Promise<SemanticChangeResult> {
-  return client.analyzeSemanticChange(oldRecipe, newRecipe);
+  const diff = diffRecipes(oldRecipe, newRecipe);
+  if (diff.trivial) {
+    return {
+      hasMeaningfulChange: false,
+      changeSummary:
+        diff.changes.length > 0 ? "Only UI metadata changed" : "No structural changes",
+      changeType: "metadata",
+    };
+  }
+  return client.analyzeSemanticChange(oldRecipe, newRecipe, diff);
 }
@@ -0,0 +1,158 @@
+import { workatoRateLimitWait } from "../metrics.js";
+
+/** Workato endpoint groups with separate rate limits. */
+export type EndpointClass = "managed_users" | "recipes" | "lookup_tables";
+
+export const ENDPOINT_CLASSES: readonly EndpointClass[] = [
+  "managed_users",
+  "recipes",
+  "lookup_tables",
+];
+
+export interface BucketConfig {
+  /** Sustained rate. */
+  requestsPerMinute: number;
+  /** Requests allowed back to back before the sustained rate applies. */
+  burst: number;
+}
+
+export type RateLimitTable = Record<EndpointClass, BucketConfig>;
+
+/**
+ * Overrides keyed by "default" or a datacenter ("us", "eu", ...), then by
+ * endpoint class. Datacenter entries win over "default".
+ */
+export type RateLimitOverrides = Record<
+  string,
+  Partial<Record<EndpointClass, Partial<BucketConfig>>>
+>;
+
+/** Kept well under Workato's OEM limits so other API users keep headroom. */
+export const DEFAULT_RATE_LIMITS: RateLimitTable = {
+  managed_users: { requestsPerMinute: 300, burst: 10 },
+  recipes: { requestsPerMinute: 300, burst: 10 },
+  lookup_tables: { requestsPerMinute: 120, burst: 5 },
+};
+
+/** Map a request path to its endpoint class. */
+export function classifyEndpoint(url: string): EndpointClass {
+  if (/\/lookup_tables(\/|$|\?)/.test(url)) return "lookup_tables";
+  if (/\/recipes(\/|$|\?)/.test(url)) return "recipes";
+  return "managed_users";
+}
+
+export function resolveRateLimits(
+  datacenter: string,
+  overrides: RateLimitOverrides = {}
+): RateLimitTable {
+  const dc = datacenter.toLowerCase();
+  const table = {} as RateLimitTable;
+  for (const cls of ENDPOINT_CLASSES) {
+    const merged = {
+      ...DEFAULT_RATE_LIMITS[cls],
+      ...overrides.default?.[cls],
+      ...overrides[dc]?.[cls],
+    };
+    if (!(merged.requestsPerMinute > 0) || !(merged.burst >= 1)) {
+      throw new Error(
+        `Invalid Workato rate limit for ${dc}/${cls}: requestsPerMinute must be > 0 and burst >= 1`
+      );
+    }
+    table[cls] = merged;
+  }
+  return table;
+}
+
+/** Parse WORKATO_RATE_LIMITS (JSON); unset means no overrides. */
+export function parseRateLimitOverrides(json: string | undefined): RateLimitOverrides {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("expected an object");
+    }
+    return parsed as RateLimitOverrides;
+  } catch (err) {
+    const wrapped = new Error("WORKATO_RATE_LIMITS must be a JSON object");
+    wrapped.cause = err;
+    throw wrapped;
+  }
+}
+
+export interface TokenBucket {
+  /** Take one token, waiting until it is available. Resolves to the ms waited. */
+  acquire(): Promise<number>;
+}
+
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((r) => setTimeout(r, ms)),
+};
+
+/**
+ * Token bucket where callers reserve tokens in arrival order: a caller that
+ * finds the bucket empty takes a token "on credit" and sleeps until it would
+ * have refilled, so concurrent callers queue fairly without a lock.
+ */
+export function createTokenBucket(
+  config: BucketConfig,
+  clock: Clock = systemClock
+): TokenBucket {
+  const perMs = config.requestsPerMinute / 60_000;
+  let tokens = config.burst;
+  let last = clock.now();
+
+  return {
+    async acquire() {
+      const now = clock.now();
+      tokens = Math.min(config.burst, tokens + (now - last) * perMs);
+      last = now;
+      tokens -= 1;
+      if (tokens >= 0) return 0;
+      const waitMs = Math.ceil(-tokens / perMs);
+      await clock.sleep(waitMs);
+      return waitMs;
+    },
+  };
+}
+
+export interface WorkatoRateLimiter {
+  /** Wait for a token for this request path. Resolves to the ms waited. */
+  acquire(url: string): Promise<number>;
+  /** Total ms callers have waited, per endpoint class, since creation. */
+  blockedMs(): Record<EndpointClass, number>;
+}
+
+/** One bucket per endpoint class, shared by every request through it. */
+export function createWorkatoRateLimiter(
+  limits: RateLimitTable,
+  clock: Clock = systemClock
+): WorkatoRateLimiter {
+  const buckets = Object.fromEntries(
+    ENDPOINT_CLASSES.map((cls) => [cls, createTokenBucket(limits[cls], clock)])
+  ) as Record<EndpointClass, TokenBucket>;
+  const blocked = Object.fromEntries(
+    ENDPOINT_CLASSES.map((cls) => [cls, 0])
+  ) as Record<EndpointClass, number>;
+
+  return {
+    async acquire(url) {
+      const cls = classifyEndpoint(url);
+      const waited = await buckets[cls].acquire();
+      if (waited > 0) {
+        blocked[cls] += waited;
+        workatoRateLimitWait.inc({ endpoint: cls }, waited / 1000);
+      }
+      return waited;
+    },
+
+    blockedMs() {
+      return { ...blocked };
+    },
+  };
+}
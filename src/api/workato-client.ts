@@ -1,5 +1,12 @@
 import axios, { AxiosInstance, AxiosError } from "axios";
 import { v4 as uuidv4 } from "uuid";
+import {
+  workatoRateLimited,
+  workatoRequests,
+  workatoRetries,
+} from "../metrics.js";
+import type { Limiter } from "../concurrency.js";
+import type { WorkatoRateLimiter } from "./rate-limiter.js";
 
 export interface WorkatoCustomer {
   id: number;
@@ -17,6 +24,12 @@ export interface WorkatoProject {
   description?: string;
 }
 
+export interface WorkatoFolder {
+  id: number;
+  name: string;
+  parent_id: number | null;
+}
+
 export interface WorkatoRecipe {
   id: number;
   user_id: number;
@@ -86,10 +99,16 @@ export interface WorkatoClientConfig {
   apiToken: string;
   baseUrl?: string;
   datacenter?: string;
+  /** Limits concurrent requests; shared by everything using this client. */
+  limiter?: Limiter;
+  /** Client-side rate limits, applied before every attempt. */
+  rateLimiter?: WorkatoRateLimiter;
 }
 
 export class WorkatoClient {
   private readonly client: AxiosInstance;
+  private readonly limit: Limiter;
+  private readonly rateLimiter?: WorkatoRateLimiter;
 
   constructor(config: WorkatoClientConfig) {
     if (!config.apiToken) {
@@ -113,6 +132,9 @@ export class WorkatoClient {
       timeout: 40000,
     });
 
+    this.limit = config.limiter ?? ((task) => task());
+    this.rateLimiter = config.rateLimiter;
+
     this.client.interceptors.request.use((req) => {
       req.headers["x-correlation-id"] =
         (req.headers["x-correlation-id"] as string) ?? uuidv4();
@@ -196,6 +218,41 @@ export class WorkatoClient {
     return all;
   }
 
+  async listFolders(
+    managedUserId: string | number,
+    params?: { parent_id?: number; page?: number; per_page?: number }
+  ): Promise<{ result: WorkatoFolder[] }> {
+    const id = this.formatManagedUserId(managedUserId);
+    return this.request<{ result: WorkatoFolder[] }>(
+      "GET",
+      `/managed_users/${id}/folders`,
+      { params }
+    );
+  }
+
+  /** Direct subfolders of a folder; the endpoint reports no total, so page until short. */
+  async listAllFolders(
+    managedUserId: string | number,
+    parentId: number
+  ): Promise<WorkatoFolder[]> {
+    const all: WorkatoFolder[] = [];
+    let page = 1;
+    const perPage = 100;
+    const maxPages = 200;
+
+    while (page <= maxPages) {
+      const { result } = await this.listFolders(managedUserId, {
+        parent_id: parentId,
+        page,
+        per_page: perPage,
+      });
+      all.push(...result);
+      if (result.length < perPage) break;
+      page++;
+    }
+    return all;
+  }
+
   async listRecipes(
     managedUserId: string | number,
     params?: {
@@ -295,11 +352,17 @@ export class WorkatoClient {
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        const response = await this.client.request<T>({
-          method,
-          url,
-          params: options?.params,
-        });
+        // Wait for a token before taking a concurrency slot, so a throttled
+        // endpoint class does not hold slots the others could use.
+        await this.rateLimiter?.acquire(url);
+        const response = await this.limit(() =>
+          this.client.request<T>({
+            method,
+            url,
+            params: options?.params,
+          })
+        );
+        workatoRequests.inc({ method, status: String(response.status) });
         return response.data;
       } catch (err) {
         lastErr = err instanceof Error ? err : new Error(String(err));
@@ -310,6 +373,8 @@ export class WorkatoClient {
         }>;
         const status = axiosErr.response?.status;
         const isNetworkError = !axiosErr.response; // ECONNRESET, ETIMEDOUT, DNS, etc.
+        workatoRequests.inc({ method, status: String(status ?? "network") });
+        if (status === 429) workatoRateLimited.inc();
         const isRetryable =
           isNetworkError ||
           (status != null && status >= 500) ||
@@ -338,6 +403,13 @@ export class WorkatoClient {
           }
         }
 
+        workatoRetries.inc({
+          reason: isNetworkError
+            ? "network"
+            : status === 429
+              ? "rate_limited"
+              : "server_error",
+        });
         await new Promise((r) => setTimeout(r, delay));
       }
     }
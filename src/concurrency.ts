@@ -0,0 +1,54 @@
+/** Runs tasks with at most `concurrency` in flight; the rest wait in FIFO order. */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(concurrency: number): Limiter {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+  }
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      // The finishing task hands its slot straight to us.
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/**
+ * Map over `items` with at most `concurrency` calls in flight. Results keep
+ * the order of `items` regardless of completion order. A rejection rejects
+ * the whole map, as with Promise.all.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const limit = createLimiter(concurrency);
+  return Promise.all(items.map((item, i) => limit(() => fn(item, i))));
+}
+
+/** Parse a concurrency setting from env, falling back to `fallback`. */
+export function parseConcurrency(
+  value: string | undefined,
+  name: string,
+  fallback: number
+): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
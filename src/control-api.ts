@@ -0,0 +1,275 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { timingSafeEqual } from "crypto";
+import type { Storage } from "./storage/storage.js";
+import type { SyncRun } from "./storage/schema.js";
+import {
+  cancelActiveRun,
+  getActiveRun,
+  startPipelineRun,
+} from "./pipeline/run-manager.js";
+import type { ActiveRun } from "./pipeline/run-manager.js";
+import { parseDocMode } from "./pipeline/orchestrator.js";
+import { logger } from "./logger.js";
+
+/** What the API reads; opened once by the server, not per request. */
+export type ControlApiStorage = Pick<
+  Storage,
+  | "findCustomer"
+  | "listSyncRuns"
+  | "getSyncRun"
+  | "getPublishedDocumentation"
+  | "listAiUsageByCustomer"
+>;
+
+export interface ControlApiConfig {
+  /** Bearer token required on every request; the API is disabled without one. */
+  token?: string;
+  /** Required with a token; the server opens it once at startup. */
+  storage?: ControlApiStorage;
+  /** Run control; defaults to this process's run manager. */
+  runs?: {
+    start: typeof startPipelineRun;
+    cancel: typeof cancelActiveRun;
+    active: typeof getActiveRun;
+  };
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const presented = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return (
+    presented.length === expected.length && timingSafeEqual(presented, expected)
+  );
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error();
+    }
+    return parsed as Record<string, unknown>;
+  } catch {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+}
+
+function formatRun(run: SyncRun) {
+  return {
+    id: run.id,
+    startedAt: run.started_at,
+    finishedAt: run.finished_at ?? null,
+    status: run.status ?? null,
+    customersProcessed: run.customers_processed,
+    recipesFetched: run.recipes_fetched,
+    recipesChanged: run.recipes_changed,
+    recipesDocumented: run.recipes_documented,
+    errors: run.errors ? run.errors.split("; ") : [],
+    summary: run.summary ?? null,
+    estimatedCostUsd: run.estimated_cost_usd ?? null,
+  };
+}
+
+function formatActiveRun(run: ActiveRun | null) {
+  if (!run) return null;
+  return {
+    runId: run.runId,
+    trigger: run.trigger,
+    customerId: run.customerId ?? null,
+    force: run.force,
+    startedAt: run.startedAt,
+    cancelRequested: run.controller.signal.aborted,
+  };
+}
+
+/**
+ * Handler for the authenticated `/api/*` control endpoints:
+ *
+ *   POST /api/sync                                  start a run ({customerId?, force?, mode?})
+ *   GET  /api/runs?limit=N                          recent sync_runs plus the active run
+ *   GET  /api/runs/:id                              one sync_runs row
+ *   POST /api/runs/:id/cancel                       cancel the active run
+ *   GET  /api/customers/:id/projects/:id/doc        current published project doc
+ *   GET  /api/costs?from=ISO&to=ISO                 AI tokens and estimated cost per customer
+ *
+ * Resolves to false for paths outside `/api/` so the caller can handle them.
+ */
+export function createControlApiHandler(config: ControlApiConfig) {
+  const runs = config.runs ?? {
+    start: startPipelineRun,
+    cancel: cancelActiveRun,
+    active: getActiveRun,
+  };
+
+  async function route(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    storage: ControlApiStorage
+  ): Promise<void> {
+    const method = req.method ?? "GET";
+    const path = url.pathname;
+    let m: RegExpMatchArray | null;
+
+    if (path === "/api/sync" && method === "POST") {
+      const body = await readJsonBody(req);
+      if (body.customerId !== undefined && typeof body.customerId !== "string") {
+        throw new HttpError(400, "customerId must be a string");
+      }
+      let mode;
+      try {
+        mode = parseDocMode(body.mode as string | undefined);
+      } catch (err) {
+        throw new HttpError(400, (err as Error).message);
+      }
+      if (body.customerId !== undefined && !storage.findCustomer(body.customerId)) {
+        throw new HttpError(400, `Unknown customer ${body.customerId}`);
+      }
+      const run = runs.start({
+        trigger: "api",
+        customerId: body.customerId as string | undefined,
+        force: body.force === true,
+        mode,
+      });
+      if (!run) {
+        return sendJson(res, 409, {
+          error: "A run is already in progress",
+          active: formatActiveRun(runs.active()),
+        });
+      }
+      return sendJson(res, 202, { status: "started", active: formatActiveRun(run) });
+    }
+
+    if (path === "/api/runs" && method === "GET") {
+      const limit = Math.min(
+        Math.max(parseInt(url.searchParams.get("limit") ?? "20", 10) || 20, 1),
+        200
+      );
+      return sendJson(res, 200, {
+        active: formatActiveRun(runs.active()),
+        runs: storage.listSyncRuns(limit).map(formatRun),
+      });
+    }
+
+    if ((m = path.match(/^\/api\/runs\/(\d+)$/)) && method === "GET") {
+      const run = storage.getSyncRun(Number(m[1]));
+      if (!run) throw new HttpError(404, "Run not found");
+      return sendJson(res, 200, formatRun(run));
+    }
+
+    if ((m = path.match(/^\/api\/runs\/(\d+)\/cancel$/)) && method === "POST") {
+      const runId = Number(m[1]);
+      if (!runs.cancel(runId)) {
+        throw new HttpError(409, `Run ${runId} is not in progress`);
+      }
+      logger.info({ runId }, "Run cancellation requested via control API");
+      return sendJson(res, 202, { status: "cancelling", runId });
+    }
+
+    if (
+      (m = path.match(/^\/api\/customers\/([^/]+)\/projects\/(\d+)\/doc$/)) &&
+      method === "GET"
+    ) {
+      const managedUserId = decodeURIComponent(m[1]);
+      const projectId = Number(m[2]);
+      const doc = storage.getPublishedDocumentation(managedUserId, "project", projectId);
+      if (!doc) throw new HttpError(404, "No published doc for this project");
+      return sendJson(res, 200, {
+        managedUserId,
+        projectId,
+        version: doc.version,
+        generatedAt: doc.generated_at,
+        publishedAt: doc.published_at ?? null,
+        qualityScore: doc.quality_score ?? null,
+        model: doc.model ?? null,
+        promptVersion: doc.prompt_version ?? null,
+        contentMd: doc.content_md,
+        contentHtml: doc.content_html,
+      });
+    }
+
+    if (path === "/api/costs" && method === "GET") {
+      const range = {
+        from: url.searchParams.get("from") ?? undefined,
+        to: url.searchParams.get("to") ?? undefined,
+      };
+      for (const value of [range.from, range.to]) {
+        if (value !== undefined && Number.isNaN(Date.parse(value))) {
+          throw new HttpError(400, "from and to must be ISO dates");
+        }
+      }
+      const rows = storage.listAiUsageByCustomer(range);
+      return sendJson(res, 200, {
+        from: range.from ?? null,
+        to: range.to ?? null,
+        customers: rows.map((r) => ({
+          managedUserId: r.managed_user_id,
+          calls: r.calls,
+          inputTokens: r.input_tokens,
+          outputTokens: r.output_tokens,
+          cacheWriteTokens: r.cache_write_tokens,
+          cacheReadTokens: r.cache_read_tokens,
+          estimatedCostUsd: r.cost_usd,
+          unpricedCalls: r.unpriced_calls,
+        })),
+      });
+    }
+
+    throw new HttpError(404, "Not found");
+  }
+
+  return async function handleControlApiRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<boolean> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!url.pathname.startsWith("/api/")) return false;
+
+    if (!config.token || !config.storage) {
+      sendJson(res, 404, { error: "Control API is disabled (CONTROL_API_TOKEN not set)" });
+      return true;
+    }
+    if (!isAuthorized(req, config.token)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJson(res, 401, { error: "Unauthorized" });
+      return true;
+    }
+
+    try {
+      await route(req, res, url, config.storage);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        sendJson(res, err.statusCode, { error: err.message });
+      } else {
+        logger.error({ err, path: url.pathname }, "Control API request failed");
+        sendJson(res, 500, { error: "Internal error" });
+      }
+    }
+    return true;
+  };
+}
@@ -0,0 +1,73 @@
+/** Minute-level fields of a cron expression: minute, hour, day, month, weekday. */
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/** Expand one cron field ("*", "*\/15", "1-5", "0,30", "8-18/2") into its values. */
+function parseField(field: string, [min, max]: [number, number]): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const m = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!m) return null;
+    const step = m[2] ? Number(m[2]) : 1;
+    let [from, to] = m[1] === "*" ? [min, max] : m[1].split("-").map(Number);
+    if (to === undefined) to = m[2] ? max : from;
+    if (step < 1 || from < min || to > max || from > to) return null;
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Estimate the longest gap between consecutive runs of a cron schedule by
+ * walking the next eight days minute by minute (in UTC, like the scheduler).
+ * Returns null for expressions this parser does not understand (e.g. month
+ * or weekday names), so callers can fall back to a fixed value.
+ */
+export function estimateScheduleIntervalMs(
+  expression: string,
+  from: Date = new Date()
+): number | null {
+  let fields = expression.trim().split(/\s+/);
+  if (fields.length === 6) fields = fields.slice(1); // drop seconds
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((f, i) => parseField(f, FIELD_RANGES[i]));
+  if (parsed.some((p) => p === null)) return null;
+  const [minutes, hours, days, months, weekdays] = parsed as Set<number>[];
+  if (weekdays.has(7)) weekdays.add(0);
+
+  // Standard cron: when both day fields are restricted, either may match.
+  const dayRestricted = fields[2] !== "*";
+  const weekdayRestricted = fields[4] !== "*";
+
+  const start = Math.floor(from.getTime() / 60000) * 60000;
+  const horizon = 8 * 24 * 60;
+  let previous: number | null = null;
+  let maxGap = 0;
+
+  for (let i = 0; i < horizon; i++) {
+    const t = new Date(start + i * 60000);
+    const dayMatch = days.has(t.getUTCDate());
+    const weekdayMatch = weekdays.has(t.getUTCDay());
+    const matchesDay =
+      dayRestricted && weekdayRestricted
+        ? dayMatch || weekdayMatch
+        : dayMatch && weekdayMatch;
+    if (
+      minutes.has(t.getUTCMinutes()) &&
+      hours.has(t.getUTCHours()) &&
+      months.has(t.getUTCMonth() + 1) &&
+      matchesDay
+    ) {
+      if (previous !== null) maxGap = Math.max(maxGap, t.getTime() - previous);
+      previous = t.getTime();
+    }
+  }
+
+  return maxGap > 0 ? maxGap : null;
+}
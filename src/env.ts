@@ -0,0 +1,21 @@
+/**
+ * Parse a numeric env setting, falling back when unset and throwing on
+ * values `valid` rejects, so typos fail at startup instead of silently
+ * turning a feature off.
+ */
+export function parseEnvNumber(
+  value: string | undefined,
+  name: string,
+  fallback: number,
+  valid: (n: number) => boolean,
+  expected: string
+): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!valid(parsed)) throw new Error(`${name} must be ${expected}, got "${value}"`);
+  return parsed;
+}
+
+export const isPositiveNumber = (n: number) => Number.isFinite(n) && n > 0;
+export const isPositiveInteger = (n: number) => Number.isInteger(n) && n >= 1;
+export const isNonNegativeInteger = (n: number) => Number.isInteger(n) && n >= 0;
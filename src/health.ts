@@ -1,12 +1,77 @@
 import { createServer, Server } from "http";
 import { logger } from "./logger.js";
+import { createControlApiHandler } from "./control-api.js";
+import {
+  createSqliteStorage,
+  openSqliteStorageReadOnly,
+} from "./storage/sqlite-storage.js";
+import { checkReadiness } from "./readiness.js";
+import { estimateScheduleIntervalMs } from "./cron-interval.js";
+import { CRON_SCHEDULE } from "./scheduler.js";
+import { getActiveRun } from "./pipeline/run-manager.js";
+import { metricsRegistry } from "./metrics.js";
 
 const PORT = parseInt(process.env.HEALTH_PORT ?? "3000", 10);
+const OUTPUT_DIR = process.env.OUTPUT_DIR ?? "output";
+const READY_MAX_MISSED_RUNS = parseFloat(
+  process.env.READY_MAX_MISSED_RUNS ?? "2"
+);
 
 export function startHealthServer(): Server {
-  const server = createServer((req, res) => {
+  const token = process.env.CONTROL_API_TOKEN;
+  // Opened once for the server's lifetime; runs use their own handle.
+  const apiStorage = token ? createSqliteStorage() : undefined;
+  const handleControlApi = createControlApiHandler({ token, storage: apiStorage });
+
+  const scheduleIntervalMs = estimateScheduleIntervalMs(CRON_SCHEDULE);
+
+  const server = createServer(async (req, res) => {
     const url = req.url?.split("?")[0]; // strip query params
-    if (url === "/health" || url === "/") {
+    if (await handleControlApi(req, res)) return;
+    if (url === "/metrics") {
+      try {
+        const metrics = await metricsRegistry.metrics();
+        res.writeHead(200, { "Content-Type": metricsRegistry.contentType });
+        res.end(metrics);
+      } catch (err) {
+        logger.error({ err }, "Collecting metrics failed");
+        res.writeHead(500, { "Content-Type": "text/plain" });
+        res.end("Collecting metrics failed\n");
+      }
+    } else if (url === "/ready") {
+      try {
+        const report = await checkReadiness({
+          openStorage: () => openSqliteStorageReadOnly(),
+          outputDir: OUTPUT_DIR,
+          scheduleIntervalMs,
+          maxMissedRuns: READY_MAX_MISSED_RUNS,
+          activeRunId: () => getActiveRun()?.runId ?? null,
+        });
+        res.writeHead(report.ready ? 200 : 503, {
+          "Content-Type": "application/json",
+        });
+        res.end(
+          JSON.stringify({
+            status: report.ready ? "ready" : "not_ready",
+            service: "workato-doc-agent",
+            checks: report.checks,
+            lastRun: report.lastRun,
+            timestamp: new Date().toISOString(),
+          })
+        );
+      } catch (err) {
+        logger.error({ err }, "Readiness check failed");
+        res.writeHead(503, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            status: "not_ready",
+            service: "workato-doc-agent",
+            error: err instanceof Error ? err.message : String(err),
+            timestamp: new Date().toISOString(),
+          })
+        );
+      }
+    } else if (url === "/health" || url === "/") {
       const checks: Record<string, string> = {};
       let healthy = true;
 
@@ -42,6 +107,8 @@ export function startHealthServer(): Server {
     }
   });
 
+  server.on("close", () => apiStorage?.close());
+
   server.listen(PORT, () => {
     logger.info({ port: PORT }, "Health server listening");
   });
@@ -1,17 +1,153 @@
 import "dotenv/config";
 import { startScheduler } from "./scheduler.js";
 import { startHealthServer } from "./health.js";
-import { runDocumentationPipeline } from "./pipeline/orchestrator.js";
+import {
+  SHUTDOWN_ABORT_REASON,
+  diffStoredRecipeVersions,
+  listRecipeVersions,
+  parseDocMode,
+  planDocumentationRun,
+  runDocumentationPipeline,
+  runInclusionDryRun,
+} from "./pipeline/orchestrator.js";
+import { formatDryRun } from "./rules/inclusion-dry-run.js";
+import { formatRecipeHistory, formatRecipeVersionDiff } from "./rules/recipe-history.js";
+import { formatPlan } from "./pipeline/planner.js";
+import { formatMigrationStatus } from "./storage/migrations.js";
+import { getSqliteMigrationStatus, migrateSqliteDatabase } from "./storage/sqlite-storage.js";
+import { drainActiveRun } from "./pipeline/run-manager.js";
 import { logger } from "./logger.js";
+import { isPositiveInteger, parseEnvNumber } from "./env.js";
+
+/** How long shutdown waits for the active run to finish its current projects. */
+const SHUTDOWN_DRAIN_TIMEOUT_MS = parseEnvNumber(
+  process.env.SHUTDOWN_DRAIN_TIMEOUT_MS,
+  "SHUTDOWN_DRAIN_TIMEOUT_MS",
+  60000,
+  isPositiveInteger,
+  "a positive integer"
+);
+
+/** Flags that take a value, as `--flag value` or `--flag=value`. */
+const VALUE_FLAGS = new Set(["--mode", "--resume"]);
+
+function getFlagValue(args: string[], flag: string): string | undefined {
+  const inline = args.find((a) => a.startsWith(`${flag}=`));
+  if (inline) return inline.slice(flag.length + 1);
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function getPositionalArgs(args: string[]): string[] {
+  return args.filter(
+    (a, i) => !a.startsWith("--") && !VALUE_FLAGS.has(args[i - 1])
+  );
+}
+
+/** Exit anyway if draining outlasts SHUTDOWN_DRAIN_TIMEOUT_MS. */
+function forceExitAfterDrainTimeout() {
+  setTimeout(() => {
+    logger.warn(
+      { timeoutMs: SHUTDOWN_DRAIN_TIMEOUT_MS },
+      "Forceful shutdown after drain timeout"
+    );
+    logger.flush();
+    process.exit(1);
+  }, SHUTDOWN_DRAIN_TIMEOUT_MS).unref();
+}
 
 async function main() {
   const args = process.argv.slice(2);
+  if (args[0] === "rules") {
+    if (args[1] !== "dry-run") {
+      throw new Error(`Unknown rules command "${args[1] ?? ""}". Expected: rules dry-run [customer_id]`);
+    }
+    const customerId = getPositionalArgs(args.slice(2))[0];
+    const report = await runInclusionDryRun(customerId || undefined);
+    process.stdout.write(formatDryRun(report) + "\n");
+    logger.flush();
+    process.exit(0);
+  }
+  if (args[0] === "migrate") {
+    if (args.includes("--up")) {
+      const applied = migrateSqliteDatabase();
+      process.stdout.write(
+        (applied.length
+          ? applied.map((m) => `Applied ${m.version} ${m.name}`).join("\n")
+          : "No pending migrations") + "\n"
+      );
+    } else if (args.length === 1 || args.includes("--status")) {
+      process.stdout.write(formatMigrationStatus(getSqliteMigrationStatus()) + "\n");
+    } else {
+      throw new Error(`Unknown migrate option "${args[1]}". Expected: migrate --status | migrate --up`);
+    }
+    logger.flush();
+    process.exit(0);
+  }
+  if (args[0] === "recipes") {
+    const usage =
+      "Expected: recipes history <customer_id> <recipe_id> | recipes diff <customer_id> <recipe_id> [from] [to]";
+    const [customerId, recipeArg, from, to] = getPositionalArgs(args.slice(2));
+    const recipeId = Number(recipeArg);
+    if (!Number.isInteger(recipeId) || recipeId <= 0) {
+      throw new Error(`Invalid recipe ID "${recipeArg ?? ""}". ${usage}`);
+    }
+    const json = args.includes("--json");
+    if (args[1] === "history") {
+      const versions = listRecipeVersions(customerId, recipeId);
+      process.stdout.write(
+        (json ? JSON.stringify(versions, null, 2) : formatRecipeHistory(recipeId, versions)) + "\n"
+      );
+    } else if (args[1] === "diff") {
+      const result = diffStoredRecipeVersions(customerId, recipeId, from, to);
+      process.stdout.write(
+        (json ? JSON.stringify(result, null, 2) : formatRecipeVersionDiff(result)) + "\n"
+      );
+    } else {
+      throw new Error(`Unknown recipes command "${args[1] ?? ""}". ${usage}`);
+    }
+    logger.flush();
+    process.exit(0);
+  }
   if (args[0] === "sync") {
-    const customerId = args[1];
-    const forceRegenerate = args.includes("--force");
+    const syncArgs = args.slice(1);
+    const customerId = getPositionalArgs(syncArgs)[0];
+    const forceRegenerate = syncArgs.includes("--force");
+    const mode = parseDocMode(getFlagValue(syncArgs, "--mode"));
+    const resume = getFlagValue(syncArgs, "--resume");
+    const resumeRunId = resume === undefined ? undefined : Number(resume);
+    if (resumeRunId !== undefined && !(Number.isInteger(resumeRunId) && resumeRunId > 0)) {
+      throw new Error(`Invalid --resume run ID "${resume}"`);
+    }
+    if (syncArgs.includes("--plan")) {
+      if (resumeRunId !== undefined) {
+        throw new Error("--plan cannot be combined with --resume");
+      }
+      const plan = await planDocumentationRun(customerId || undefined, forceRegenerate, {
+        mode,
+        semanticAnalysis: !syncArgs.includes("--skip-semantic"),
+      });
+      process.stdout.write(
+        (syncArgs.includes("--json") ? JSON.stringify(plan, null, 2) : formatPlan(plan)) + "\n"
+      );
+      logger.flush();
+      process.exit(0);
+    }
+    // First signal interrupts the run after its in-flight projects; the run
+    // records its stats and can be resumed.
+    const controller = new AbortController();
+    const interrupt = (signal: string) => {
+      logger.info({ signal }, "Received shutdown signal, finishing current projects...");
+      controller.abort(SHUTDOWN_ABORT_REASON);
+      forceExitAfterDrainTimeout();
+    };
+    process.once("SIGTERM", () => interrupt("SIGTERM"));
+    process.once("SIGINT", () => interrupt("SIGINT"));
     await runDocumentationPipeline(
       customerId || undefined,
-      forceRegenerate
+      forceRegenerate,
+      undefined,
+      { mode, resumeRunId, signal: controller.signal }
     );
     // Flush pino logs before exiting
     logger.flush();
@@ -19,21 +155,27 @@ async function main() {
   }
 
   const server = startHealthServer();
-  startScheduler();
+  const scheduledTask = startScheduler();
 
-  // Graceful shutdown
-  const shutdown = (signal: string) => {
+  // Graceful shutdown: stop scheduling, let the active run finish its current
+  // projects and record itself as interrupted, then close the server.
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
     logger.info({ signal }, "Received shutdown signal, cleaning up...");
+    forceExitAfterDrainTimeout();
+    scheduledTask.stop();
+    try {
+      await drainActiveRun();
+    } catch (err) {
+      logger.error({ err }, "Failed to drain active run");
+    }
     server.close(() => {
       logger.info("Health server closed");
       logger.flush();
       process.exit(0);
     });
-    // Force exit after 10s if graceful shutdown stalls
-    setTimeout(() => {
-      logger.warn("Forceful shutdown after timeout");
-      process.exit(1);
-    }, 10000).unref();
   };
 
   process.on("SIGTERM", () => shutdown("SIGTERM"));
@@ -0,0 +1,97 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+/** Registry served on `/metrics`; every metric below registers itself here. */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export type RunOutcome =
+  | "success"
+  | "partial"
+  | "failed"
+  | "cancelled"
+  | "interrupted";
+
+export const pipelineRunDuration = new Histogram({
+  name: "workato_doc_pipeline_run_duration_seconds",
+  help: "Duration of documentation pipeline runs",
+  labelNames: ["outcome"] as const,
+  buckets: [30, 60, 300, 600, 1800, 3600, 7200],
+  registers: [metricsRegistry],
+});
+
+export const pipelineRuns = new Counter({
+  name: "workato_doc_pipeline_runs_total",
+  help: "Documentation pipeline runs by outcome",
+  labelNames: ["outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+export const recipesFetched = new Counter({
+  name: "workato_doc_recipes_fetched_total",
+  help: "Recipes fetched from Workato, per customer",
+  labelNames: ["customer"] as const,
+  registers: [metricsRegistry],
+});
+
+export const recipesChanged = new Counter({
+  name: "workato_doc_recipes_changed_total",
+  help: "Recipes detected as changed, per customer",
+  labelNames: ["customer"] as const,
+  registers: [metricsRegistry],
+});
+
+export const docsDocumented = new Counter({
+  name: "workato_doc_docs_documented_total",
+  help: "Docs stored for publishing, per customer and scope",
+  labelNames: ["customer", "scope"] as const,
+  registers: [metricsRegistry],
+});
+
+export const workatoRequests = new Counter({
+  name: "workato_doc_workato_requests_total",
+  help: "Workato API requests (each attempt), by HTTP method and status",
+  labelNames: ["method", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+export const workatoRetries = new Counter({
+  name: "workato_doc_workato_retries_total",
+  help: "Workato API retries, by reason (network, server_error, rate_limited)",
+  labelNames: ["reason"] as const,
+  registers: [metricsRegistry],
+});
+
+export const workatoRateLimited = new Counter({
+  name: "workato_doc_workato_rate_limited_total",
+  help: "Workato API responses with status 429",
+  registers: [metricsRegistry],
+});
+
+export const workatoRateLimitWait = new Counter({
+  name: "workato_doc_workato_rate_limit_wait_seconds_total",
+  help: "Time Workato API requests waited for the client-side rate limiter, by endpoint class",
+  labelNames: ["endpoint"] as const,
+  registers: [metricsRegistry],
+});
+
+export const aiRequestDuration = new Histogram({
+  name: "workato_doc_ai_request_duration_seconds",
+  help: "Anthropic API latency per AIClient method",
+  labelNames: ["method", "outcome"] as const,
+  buckets: [0.5, 1, 2, 5, 10, 20, 40, 80],
+  registers: [metricsRegistry],
+});
+
+export const aiTokens = new Counter({
+  name: "workato_doc_ai_tokens_total",
+  help: "Anthropic tokens used per AIClient method, model and token type",
+  labelNames: ["method", "model", "type"] as const,
+  registers: [metricsRegistry],
+});
+
+export const publisherDeliveries = new Counter({
+  name: "workato_doc_publisher_deliveries_total",
+  help: "Doc deliveries per publisher, by outcome (delivered, failed, archived, archive_failed)",
+  labelNames: ["publisher", "outcome"] as const,
+  registers: [metricsRegistry],
+});
@@ -0,0 +1,148 @@
+import type { AiUsageTotals } from "../storage/schema.js";
+
+/** Limits on AI spend; unset limits are not enforced. */
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Soft limits stop new projects from being started; hard limits also refuse
+ * any further AI call for the project in progress. Customer limits apply to
+ * each customer's usage within one run.
+ */
+export interface BudgetConfig {
+  run: { soft: BudgetLimits; hard: BudgetLimits };
+  customer: { soft: BudgetLimits; hard: BudgetLimits };
+}
+
+export class BudgetExceededError extends Error {
+  /** Tells the AI client's retry loop not to retry. */
+  readonly retryable = false;
+
+  constructor(readonly reason: string) {
+    super(`AI budget exceeded: ${reason}`);
+  }
+}
+
+function parseLimit(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function budgetConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): BudgetConfig {
+  const limits = (scope: string, level: string): BudgetLimits => {
+    const prefix = `BUDGET_${scope}_${level}`;
+    return {
+      maxCostUsd: parseLimit(env[`${prefix}_COST_USD`], `${prefix}_COST_USD`),
+      maxTokens: parseLimit(env[`${prefix}_TOKENS`], `${prefix}_TOKENS`),
+    };
+  };
+  return {
+    run: { soft: limits("RUN", "SOFT"), hard: limits("RUN", "HARD") },
+    customer: { soft: limits("CUSTOMER", "SOFT"), hard: limits("CUSTOMER", "HARD") },
+  };
+}
+
+interface Spend {
+  costUsd: number;
+  tokens: number;
+}
+
+/** Describe the first limit `spend` has reached, or null. */
+function exceeded(spend: Spend, limits: BudgetLimits, label: string): string | null {
+  if (limits.maxCostUsd !== undefined && spend.costUsd >= limits.maxCostUsd) {
+    return `${label} cost $${spend.costUsd.toFixed(2)} reached $${limits.maxCostUsd.toFixed(2)}`;
+  }
+  if (limits.maxTokens !== undefined && spend.tokens >= limits.maxTokens) {
+    return `${label} tokens ${spend.tokens} reached ${limits.maxTokens}`;
+  }
+  return null;
+}
+
+export interface BudgetTracker {
+  /** Add one call's usage to the run and, when given, the customer. */
+  record(
+    usage: { tokens: number; costUsd: number | null },
+    managedUserId?: string
+  ): void;
+  /** Reason new work for this customer must not start, or null. */
+  softLimitReached(managedUserId: string): string | null;
+  /** Throws BudgetExceededError once a hard limit is reached. */
+  assertWithinHardLimit(managedUserId?: string): void;
+}
+
+export function createBudgetTracker(config: BudgetConfig): BudgetTracker {
+  const run: Spend = { costUsd: 0, tokens: 0 };
+  const customers = new Map<string, Spend>();
+  const spendFor = (managedUserId: string) =>
+    customers.get(managedUserId) ?? { costUsd: 0, tokens: 0 };
+
+  function limitReached(
+    level: "soft" | "hard",
+    managedUserId?: string
+  ): string | null {
+    return (
+      exceeded(run, config.run[level], "run") ??
+      (managedUserId === undefined
+        ? null
+        : exceeded(
+            spendFor(managedUserId),
+            config.customer[level],
+            `customer ${managedUserId}`
+          ))
+    );
+  }
+
+  return {
+    record(usage, managedUserId) {
+      const cost = usage.costUsd ?? 0;
+      run.costUsd += cost;
+      run.tokens += usage.tokens;
+      if (managedUserId !== undefined) {
+        const spend = spendFor(managedUserId);
+        spend.costUsd += cost;
+        spend.tokens += usage.tokens;
+        customers.set(managedUserId, spend);
+      }
+    },
+
+    softLimitReached(managedUserId) {
+      // A hard limit is also a reason not to start.
+      return (
+        limitReached("soft", managedUserId) ?? limitReached("hard", managedUserId)
+      );
+    },
+
+    assertWithinHardLimit(managedUserId) {
+      const reason = limitReached("hard", managedUserId);
+      if (reason) throw new BudgetExceededError(reason);
+    },
+  };
+}
+
+/**
+ * Count usage a run recorded before it was interrupted, so a resumed run
+ * starts from what it already spent.
+ */
+export function seedBudgetTracker(
+  budget: BudgetTracker,
+  usage: Array<AiUsageTotals & { managed_user_id: string | null }>
+): void {
+  for (const u of usage) {
+    budget.record(
+      {
+        tokens:
+          u.input_tokens + u.output_tokens + u.cache_write_tokens + u.cache_read_tokens,
+        costUsd: u.priced_cost_usd,
+      },
+      u.managed_user_id ?? undefined
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import type { FetchResult } from "../rules/fetcher.js";
+import { getChangedRecipes, snapshotHash } from "../rules/hash-compare.js";
+import type { Storage } from "../storage/storage.js";
+
+/** Why a fetched recipe counts as changed. */
+export type ChangeReason = "new" | "hash_changed" | "forced";
+
+export interface DetectedChange {
+  recipeId: number;
+  managedUserId: string;
+  /** Project of the fetched recipe; null when it has none. */
+  projectId: number | null;
+  reason: ChangeReason;
+}
+
+/** A project a run would document, with the changes that put it there. */
+export interface ProjectChanges {
+  managedUserId: string;
+  projectId: number;
+  /** Deferred by an earlier run (e.g. over budget); regenerated in full. */
+  deferred: boolean;
+  /** Changed recipes of the project; may be empty for a deferred project. */
+  recipes: Map<number, ChangeReason>;
+}
+
+/**
+ * Fetched recipes whose hash differs from their latest snapshot (or that
+ * have none), or every fetched recipe when forced.
+ */
+export function detectChanges(
+  storage: Storage,
+  recipes: FetchResult["recipes"],
+  force: boolean
+): DetectedChange[] {
+  const projectIds = new Map<string, number | null>();
+  for (const { recipe, managedUserId } of recipes) {
+    projectIds.set(`${managedUserId}:${recipe.id}`, recipe.project_id ?? null);
+  }
+  const changed = force
+    ? recipes.map((r) => ({
+        recipeId: r.recipe.id,
+        managedUserId: r.managedUserId,
+        reason: "forced" as ChangeReason,
+      }))
+    : getChangedRecipes(recipes, (recipeId, managedUserId) => {
+        const snapshot = storage.getLatestSnapshot(recipeId, managedUserId);
+        return snapshot ? snapshotHash(snapshot) : null;
+      }).map((c) => ({
+        recipeId: c.recipeId,
+        managedUserId: c.managedUserId,
+        reason: (c.isNew ? "new" : "hash_changed") as ChangeReason,
+      }));
+  return changed.map((c) => ({
+    ...c,
+    projectId: projectIds.get(`${c.managedUserId}:${c.recipeId}`) ?? null,
+  }));
+}
+
+/**
+ * Projects to document, keyed by `managedUserId:projectId`, in the order a
+ * run works through them: projects deferred for these customers first, then
+ * projects with changed recipes. Changes outside any project are left out.
+ */
+export function groupChangesByProject(
+  storage: Storage,
+  changes: DetectedChange[],
+  managedUserIds: string[]
+): Map<string, ProjectChanges> {
+  const byProject = new Map<string, ProjectChanges>();
+  for (const { managed_user_id: managedUserId, project_id: projectId } of storage
+    .listDeferredProjects(managedUserIds)) {
+    byProject.set(`${managedUserId}:${projectId}`, {
+      managedUserId,
+      projectId,
+      deferred: true,
+      recipes: new Map(),
+    });
+  }
+  for (const { recipeId, managedUserId, projectId, reason } of changes) {
+    if (!projectId) continue;
+    const key = `${managedUserId}:${projectId}`;
+    if (!byProject.has(key)) {
+      byProject.set(key, { managedUserId, projectId, deferred: false, recipes: new Map() });
+    }
+    byProject.get(key)!.recipes.set(recipeId, reason);
+  }
+  return byProject;
+}
@@ -0,0 +1,127 @@
+import { marked } from "marked";
+import type { DocumentationResult } from "../ai/ai-client.js";
+import type { WorkatoRecipe } from "../api/workato-client.js";
+import { computeRecipeHash, snapshotHash } from "../rules/hash-compare.js";
+import type { Storage } from "../storage/storage.js";
+
+/** One documented recipe version, as shown in a project doc's changelog. */
+export interface ChangelogEntry {
+  /** YYYY-MM-DD the version was documented. */
+  date: string;
+  recipeId: number;
+  recipeName: string;
+  /** Workato's version number, author and comment for the version. */
+  versionNo?: number;
+  author?: string;
+  comment?: string;
+  /** Semantic analysis summary; unset for a first version or when no change was analyzed. */
+  summary?: string;
+  firstVersion: boolean;
+}
+
+export interface ChangelogOptions {
+  /** Semantic summaries for the versions this run is documenting, by recipe ID. */
+  summaries: Map<number, string>;
+  now: Date;
+  /** Most recent entries to keep. */
+  limit: number;
+}
+
+function entryFor(
+  recipe: WorkatoRecipe,
+  date: string,
+  firstVersion: boolean,
+  summary: string | null | undefined
+): ChangelogEntry {
+  return {
+    date: date.slice(0, 10),
+    recipeId: recipe.id,
+    recipeName: recipe.name,
+    versionNo: recipe.version_no,
+    author: recipe.version_author_name,
+    comment: recipe.version_comment ?? undefined,
+    summary: summary ?? undefined,
+    firstVersion,
+  };
+}
+
+/**
+ * Changelog of a project's recipes, newest first: every stored version plus
+ * the ones the current run is about to record.
+ */
+export function buildProjectChangelog(
+  storage: Pick<Storage, "listSnapshots">,
+  managedUserId: string,
+  recipes: WorkatoRecipe[],
+  options: ChangelogOptions
+): ChangelogEntry[] {
+  const entries: ChangelogEntry[] = [];
+  for (const recipe of recipes) {
+    const snapshots = storage.listSnapshots(recipe.id, managedUserId);
+    for (const snapshot of snapshots) {
+      let stored: WorkatoRecipe;
+      try {
+        stored = JSON.parse(snapshot.raw_json) as WorkatoRecipe;
+      } catch {
+        continue;
+      }
+      entries.push(
+        entryFor(stored, snapshot.created_at, snapshot.version === 1, snapshot.change_summary)
+      );
+    }
+    const latest = snapshots.filter((s) => !s.retired_at).at(-1);
+    if (!latest || snapshotHash(latest) !== computeRecipeHash(recipe)) {
+      entries.push(
+        entryFor(
+          recipe,
+          options.now.toISOString(),
+          snapshots.length === 0,
+          options.summaries.get(recipe.id)
+        )
+      );
+    }
+  }
+  // Reversed first so the stable sort puts later versions first within a day.
+  return entries
+    .reverse()
+    .sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0))
+    .slice(0, options.limit);
+}
+
+/** A "Recent Changes" section grouped by date; empty when there are no entries. */
+export function formatChangelog(entries: ChangelogEntry[]): string {
+  if (entries.length === 0) return "";
+  const lines = ["## Recent Changes"];
+  let date: string | undefined;
+  for (const entry of entries) {
+    if (entry.date !== date) {
+      date = entry.date;
+      lines.push("", `### ${date}`, "");
+    }
+    const details: string[] = [];
+    if (entry.versionNo !== undefined) details.push(`version ${entry.versionNo}`);
+    if (entry.author) details.push(`by ${entry.author}`);
+    const summary =
+      entry.summary ?? (entry.firstVersion ? "First documented." : "Updated.");
+    let line = `- **${entry.recipeName}**${details.length ? ` (${details.join(", ")})` : ""}: ${summary}`;
+    if (entry.comment) line += ` Comment: "${entry.comment}"`;
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+/** Append the changelog section to a generated doc, in both markdown and HTML. */
+export function appendChangelog(
+  doc: DocumentationResult,
+  entries: ChangelogEntry[]
+): DocumentationResult {
+  const section = formatChangelog(entries);
+  if (!section) return doc;
+  return {
+    ...doc,
+    markdown: `${doc.markdown.trimEnd()}\n\n${section}\n`,
+    html: doc.html
+      ? `${doc.html}\n${marked.parse(section, { async: false }) as string}`
+      : doc.html,
+  };
+}
@@ -0,0 +1,224 @@
+import type { Logger } from "pino";
+import type { Documentation, PublishMetadata } from "../publishers/publisher.js";
+import type {
+  NamedPublisher,
+  PublisherRegistry,
+} from "../publishers/registry.js";
+import type { Documentation as StoredDocumentation } from "../storage/schema.js";
+import type { Storage } from "../storage/storage.js";
+import { publisherDeliveries } from "../metrics.js";
+
+export interface FailedDelivery {
+  publisher: string;
+  error: string;
+}
+
+export interface DeliveryResult {
+  delivered: string[];
+  failed: FailedDelivery[];
+}
+
+/** Rebuild the publisher-facing doc from a stored version. */
+export function toPublisherDocumentation(doc: StoredDocumentation): Documentation {
+  return {
+    managedUserId: doc.managed_user_id,
+    projectId: doc.project_id ?? undefined,
+    recipeId: doc.scope === "recipe" ? doc.target_id : undefined,
+    contentMd: doc.content_md,
+    contentHtml: doc.content_html,
+    qualityScore: doc.quality_score ?? undefined,
+  };
+}
+
+/** Mark the doc published once no delivery is left failed. */
+function updatePublishStatus(storage: Storage, docId: number): void {
+  const deliveries = storage.listDeliveries(docId);
+  const anyFailed = deliveries.some((d) => d.status === "failed");
+  storage.updateDocumentationStatus(
+    docId,
+    anyFailed ? "failed" : "published",
+    anyFailed ? undefined : new Date().toISOString()
+  );
+}
+
+/**
+ * Hand a stored doc version to each publisher independently. A failing
+ * publisher is recorded for retry and does not stop the others.
+ */
+export async function deliverDocumentation(
+  storage: Storage,
+  storedDoc: StoredDocumentation,
+  publishers: NamedPublisher[],
+  metadata: PublishMetadata
+): Promise<DeliveryResult> {
+  const doc = toPublisherDocumentation(storedDoc);
+  const publishMetadata = JSON.stringify(metadata);
+  const result: DeliveryResult = { delivered: [], failed: [] };
+
+  for (const { name, publisher } of publishers) {
+    try {
+      await publisher.publish(doc, metadata);
+      storage.recordDelivery({
+        documentation_id: storedDoc.id,
+        publisher: name,
+        status: "delivered",
+        publish_metadata: publishMetadata,
+      });
+      publisherDeliveries.inc({ publisher: name, outcome: "delivered" });
+      result.delivered.push(name);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      storage.recordDelivery({
+        documentation_id: storedDoc.id,
+        publisher: name,
+        status: "failed",
+        error: msg,
+        publish_metadata: publishMetadata,
+      });
+      publisherDeliveries.inc({ publisher: name, outcome: "failed" });
+      result.failed.push({ publisher: name, error: msg });
+    }
+  }
+
+  updatePublishStatus(storage, storedDoc.id);
+  return result;
+}
+
+export interface RetryDeliveriesResult {
+  retried: number;
+  delivered: number;
+  errors: string[];
+}
+
+/**
+ * Re-send failed deliveries from the stored doc, without regenerating it.
+ * Only the publishers that failed are retried; deliveries to publishers no
+ * longer routed to the customer are marked superseded.
+ */
+export async function retryFailedDeliveries(
+  ctx: { storage: Storage; registry: PublisherRegistry; log: Logger },
+  options: { maxAttempts: number; managedUserIds?: string[] }
+): Promise<RetryDeliveriesResult> {
+  const { storage, registry, log } = ctx;
+  const result: RetryDeliveriesResult = { retried: 0, delivered: 0, errors: [] };
+  const pending = storage.listRetryableDeliveries(
+    options.maxAttempts,
+    options.managedUserIds
+  );
+  if (pending.length === 0) return result;
+
+  log.info({ deliveries: pending.length }, "Retrying failed deliveries");
+  const touchedDocs = new Set<number>();
+
+  for (const delivery of pending) {
+    const storedDoc = storage.getDocumentationById(delivery.documentation_id);
+    if (!storedDoc) continue;
+    touchedDocs.add(storedDoc.id);
+
+    const routed = registry
+      .forCustomer(
+        storedDoc.managed_user_id,
+        storage.getCustomer(storedDoc.managed_user_id)?.external_id
+      )
+      .find((p) => p.name === delivery.publisher);
+    if (!routed) {
+      storage.markDeliverySuperseded(delivery.id);
+      continue;
+    }
+
+    result.retried++;
+    try {
+      await routed.publisher.publish(
+        toPublisherDocumentation(storedDoc),
+        JSON.parse(delivery.publish_metadata) as PublishMetadata
+      );
+      storage.recordDelivery({
+        documentation_id: storedDoc.id,
+        publisher: delivery.publisher,
+        status: "delivered",
+        publish_metadata: delivery.publish_metadata,
+      });
+      publisherDeliveries.inc({ publisher: delivery.publisher, outcome: "delivered" });
+      result.delivered++;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      storage.recordDelivery({
+        documentation_id: storedDoc.id,
+        publisher: delivery.publisher,
+        status: "failed",
+        error: msg,
+        publish_metadata: delivery.publish_metadata,
+      });
+      publisherDeliveries.inc({ publisher: delivery.publisher, outcome: "failed" });
+      result.errors.push(
+        `Delivery of ${storedDoc.scope} ${storedDoc.target_id} v${storedDoc.version} to ${delivery.publisher}: ${msg}`
+      );
+    }
+  }
+
+  for (const docId of touchedDocs) {
+    updatePublishStatus(storage, docId);
+  }
+  return result;
+}
+
+export interface ArchiveResult {
+  archived: number;
+  errors: string[];
+}
+
+/**
+ * Have each routed publisher archive docs whose project or recipe was removed
+ * (see Storage.listArchivableDocumentation). A doc is marked archived once
+ * every publisher succeeded; otherwise it is retried on the next run.
+ */
+export async function archiveRemovedDocumentation(
+  ctx: { storage: Storage; registry: PublisherRegistry; log: Logger },
+  options: { managedUserIds?: string[] } = {}
+): Promise<ArchiveResult> {
+  const { storage, registry, log } = ctx;
+  const result: ArchiveResult = { archived: 0, errors: [] };
+
+  for (const storedDoc of storage.listArchivableDocumentation(options.managedUserIds)) {
+    const doc = toPublisherDocumentation(storedDoc);
+    const published = storage
+      .listDeliveries(storedDoc.id)
+      .find((d) => d.status === "delivered");
+    const metadata: PublishMetadata = published
+      ? (JSON.parse(published.publish_metadata) as PublishMetadata)
+      : { isProjectDoc: storedDoc.scope === "project" };
+
+    let failed = false;
+    const publishers = registry.forCustomer(
+      storedDoc.managed_user_id,
+      storage.getCustomer(storedDoc.managed_user_id)?.external_id
+    );
+    for (const { name, publisher } of publishers) {
+      if (!publisher.archive) continue;
+      try {
+        await publisher.archive(doc, metadata);
+        publisherDeliveries.inc({ publisher: name, outcome: "archived" });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        publisherDeliveries.inc({ publisher: name, outcome: "archive_failed" });
+        result.errors.push(
+          `Archiving ${storedDoc.scope} ${storedDoc.target_id} in ${name}: ${msg}`
+        );
+        failed = true;
+      }
+    }
+    if (failed) continue;
+
+    storage.archiveDocumentation(
+      storedDoc.managed_user_id,
+      storedDoc.scope,
+      storedDoc.target_id
+    );
+    log.info(
+      { scope: storedDoc.scope, targetId: storedDoc.target_id },
+      "Archived documentation of removed target"
+    );
+    result.archived++;
+  }
+  return result;
+}
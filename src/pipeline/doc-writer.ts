@@ -0,0 +1,178 @@
+import type { Logger } from "pino";
+import type { WorkatoRecipe } from "../api/workato-client.js";
+import type { DocumentationResult, QualityResult } from "../ai/ai-client.js";
+import type { PublishMetadata } from "../publishers/publisher.js";
+import type { NamedPublisher } from "../publishers/registry.js";
+import { computeRecipeHash } from "../rules/hash-compare.js";
+import type { DocumentationScope } from "../storage/schema.js";
+import type { Storage } from "../storage/storage.js";
+import { deliverDocumentation } from "./delivery.js";
+import type { FailedDelivery } from "./delivery.js";
+import { generateWithQualityGate } from "./quality-gate.js";
+import type { QualityGateConfig } from "./quality-gate.js";
+import type { DocMode } from "./orchestrator.js";
+
+export interface DocWriterContext {
+  storage: Storage;
+  publishers: NamedPublisher[];
+  qualityGate: QualityGateConfig;
+  log: Logger;
+}
+
+/** A project- or recipe-level doc to generate, store and publish. */
+export interface DocTarget {
+  managedUserId: string;
+  scope: DocumentationScope;
+  targetId: number;
+  projectId: number;
+  /** Recipes the doc is generated from; their hashes are stored with the doc. */
+  recipes: WorkatoRecipe[];
+  generate: (feedback?: QualityResult) => Promise<DocumentationResult>;
+  assess: (doc: DocumentationResult) => Promise<QualityResult>;
+  metadata: PublishMetadata;
+}
+
+export interface DocWriteResult {
+  /**
+   * `delivery_failed` means the doc is stored and reached some publishers at
+   * most; the failed deliveries are retried from storage on later runs.
+   */
+  status: "published" | "delivery_failed" | "needs_review";
+  failedDeliveries: FailedDelivery[];
+}
+
+/** Project slug the target's published version was delivered under, if any. */
+function lastDeliveredProjectSlug(
+  storage: Storage,
+  target: DocTarget
+): string | undefined {
+  const published = storage.getPublishedDocumentation(
+    target.managedUserId,
+    target.scope,
+    target.targetId
+  );
+  const delivery = published
+    ? storage.listDeliveries(published.id).find((d) => d.status === "delivered")
+    : undefined;
+  if (!delivery) return undefined;
+  return (JSON.parse(delivery.publish_metadata) as PublishMetadata).projectSlug;
+}
+
+/**
+ * Run the quality gate for a target, store the resulting version and hand it
+ * to every publisher. Docs that fail the gate are stored as `needs_review` and
+ * not published, so the previously published version stays in place.
+ */
+export async function writeDocumentation(
+  ctx: DocWriterContext,
+  target: DocTarget
+): Promise<DocWriteResult> {
+  const { storage, publishers, qualityGate, log } = ctx;
+
+  const gate = await generateWithQualityGate(
+    target.generate,
+    target.assess,
+    qualityGate
+  );
+  const docResult = gate.doc;
+  const qualityScore = gate.quality?.score ?? null;
+
+  const previousSlug = lastDeliveredProjectSlug(storage, target);
+  const metadata: PublishMetadata =
+    previousSlug !== undefined && previousSlug !== target.metadata.projectSlug
+      ? { ...target.metadata, previousProjectSlug: previousSlug }
+      : target.metadata;
+
+  const sourceHashes = Object.fromEntries(
+    target.recipes.map((recipe) => [recipe.id, computeRecipeHash(recipe)])
+  );
+  const storedDoc = storage.insertDocumentation({
+    managed_user_id: target.managedUserId,
+    scope: target.scope,
+    target_id: target.targetId,
+    project_id: target.projectId,
+    content_md: docResult.markdown,
+    content_html: docResult.html ?? docResult.markdown,
+    quality_score: qualityScore,
+    model: docResult.model ?? null,
+    prompt_version: docResult.promptVersion ?? null,
+    source_hashes: JSON.stringify(sourceHashes),
+    publish_status: gate.passed ? "pending" : "needs_review",
+    generated_at: new Date().toISOString(),
+  });
+
+  if (!gate.passed) {
+    log.warn(
+      {
+        scope: target.scope,
+        targetId: target.targetId,
+        docVersion: storedDoc.version,
+        score: qualityScore,
+        minScore: qualityGate.minScore,
+        attempts: gate.attempts,
+        issues: gate.quality?.issues,
+      },
+      "Doc below quality threshold – held for review"
+    );
+    return { status: "needs_review", failedDeliveries: [] };
+  }
+
+  storage.supersedeOlderDeliveries(storedDoc);
+  const delivery = await deliverDocumentation(
+    storage,
+    storedDoc,
+    publishers,
+    metadata
+  );
+  if (delivery.failed.length > 0) {
+    log.warn(
+      {
+        scope: target.scope,
+        targetId: target.targetId,
+        docVersion: storedDoc.version,
+        failed: delivery.failed,
+      },
+      "Some publishers failed – deliveries queued for retry"
+    );
+    return { status: "delivery_failed", failedDeliveries: delivery.failed };
+  }
+  return { status: "published", failedDeliveries: [] };
+}
+
+/**
+ * Links for a project doc to its recipes' own docs: those stored this run or
+ * published earlier. Recipes without a doc get no link.
+ */
+export function recipeDocLinks(
+  storage: Pick<Storage, "getPublishedDocumentation">,
+  managedUserId: string,
+  recipes: WorkatoRecipe[],
+  storedThisRun: Set<number>
+): Array<{ recipeId: number; recipeName: string }> {
+  return recipes
+    .filter(
+      (r) =>
+        storedThisRun.has(r.id) ||
+        storage.getPublishedDocumentation(managedUserId, "recipe", r.id)
+    )
+    .map((r) => ({ recipeId: r.id, recipeName: r.name }));
+}
+
+/**
+ * Recipes to snapshot once a project's docs are stored. A changed recipe
+ * whose own doc was not stored keeps its old snapshot so it is retried; in
+ * per-recipe mode unchanged recipes have nothing new to record.
+ */
+export function recipesToSnapshot(
+  mode: DocMode,
+  recipes: WorkatoRecipe[],
+  changedIds: Set<number>,
+  recipeDocsStored: Set<number>
+): WorkatoRecipe[] {
+  return recipes.filter((recipe) => {
+    if (mode !== "project" && changedIds.has(recipe.id)) {
+      return recipeDocsStored.has(recipe.id);
+    }
+    return mode !== "recipe";
+  });
+}
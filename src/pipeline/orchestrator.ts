@@ -1,18 +1,84 @@
 import "dotenv/config";
 import { WorkatoClient } from "../api/workato-client.js";
+import {
+  createWorkatoRateLimiter,
+  parseRateLimitOverrides,
+  resolveRateLimits,
+} from "../api/rate-limiter.js";
 import { createSqliteStorage } from "../storage/sqlite-storage.js";
-import { fetchAndStoreRecipes } from "../rules/fetcher.js";
-import { computeRecipeHash, getChangedRecipes } from "../rules/hash-compare.js";
-import { createRunTracker } from "../rules/run-tracker.js";
+import type { Storage } from "../storage/storage.js";
+import type { DeferralKind, RecipeSnapshot } from "../storage/schema.js";
+import { fetchAndStoreRecipes, getProjectRecipes } from "../rules/fetcher.js";
+import {
+  createInclusionRules,
+  loadInclusionRules,
+} from "../rules/inclusion-rules.js";
+import type { InclusionRules } from "../rules/inclusion-rules.js";
+import { dryRunInclusionRules } from "../rules/inclusion-dry-run.js";
+import type { DryRunCustomer } from "../rules/inclusion-dry-run.js";
+import { computeRecipeHash, rehashSnapshots } from "../rules/hash-compare.js";
+import { diffRecipeVersions } from "../rules/recipe-history.js";
+import type { RecipeVersionDiff } from "../rules/recipe-history.js";
+import { createRunTracker, parseRunTimestamp } from "../rules/run-tracker.js";
+import type { RunTracker } from "../rules/run-tracker.js";
+import {
+  describeRemoval,
+  describeRename,
+  reconcileCustomer,
+} from "../rules/reconciler.js";
 import { createAnthropicClient } from "../ai/anthropic-ai-client.js";
-import { createFileSystemPublisher } from "../publishers/filesystem-publisher.js";
-import type { Publisher } from "../publishers/publisher.js";
+import { analyzeSemanticChange } from "../ai/semantic-analyzer.js";
+import { estimateCostUsd, parsePriceTable } from "../ai/pricing.js";
+import type { LookupTableContext, SemanticChangeResult } from "../ai/ai-client.js";
+import type { WorkatoRecipe } from "../api/workato-client.js";
+import {
+  createPublisherRegistry,
+  loadPublisherRegistry,
+  publishersConfigFromEnv,
+} from "../publishers/registry.js";
+import type { PublisherRegistry } from "../publishers/registry.js";
 import { createCorrelationLogger } from "../logger.js";
 import type { Logger } from "pino";
 import {
+  extractLookupTableReferences,
   extractLookupTableReferencesFromRecipes,
   resolveLookupTables,
 } from "./lookup-table-resolver.js";
+import { qualityGateConfigFromEnv } from "./quality-gate.js";
+import { recipeDocLinks, recipesToSnapshot, writeDocumentation } from "./doc-writer.js";
+import { appendChangelog, buildProjectChangelog } from "./changelog.js";
+import { buildSyncPlan } from "./planner.js";
+import { detectChanges, groupChangesByProject } from "./change-detection.js";
+import type { SyncPlan } from "./planner.js";
+import {
+  archiveRemovedDocumentation,
+  retryFailedDeliveries,
+} from "./delivery.js";
+import {
+  BudgetExceededError,
+  budgetConfigFromEnv,
+  createBudgetTracker,
+  seedBudgetTracker,
+} from "./budget.js";
+import {
+  docsDocumented,
+  pipelineRunDuration,
+  pipelineRuns,
+  recipesChanged as recipesChangedMetric,
+  recipesFetched as recipesFetchedMetric,
+} from "../metrics.js";
+import type { RunOutcome } from "../metrics.js";
+import {
+  createLimiter,
+  mapWithConcurrency,
+  parseConcurrency,
+} from "../concurrency.js";
+import {
+  isNonNegativeInteger,
+  isPositiveInteger,
+  isPositiveNumber,
+  parseEnvNumber,
+} from "../env.js";
 
 const WORKATO_TOKEN = process.env.WORKATO_API_TOKEN ?? "";
 const WORKATO_BASE_URL = process.env.WORKATO_BASE_URL;
@@ -22,7 +88,335 @@ const WORKATO_CUSTOMERS = process.env.WORKATO_CUSTOMERS
   ? process.env.WORKATO_CUSTOMERS.split(",").map((s) => s.trim()).filter(Boolean)
   : undefined;
 const WORKATO_TEST_ACCOUNT_ID = process.env.WORKATO_TEST_ACCOUNT_ID?.trim();
-const OUTPUT_DIR = process.env.OUTPUT_DIR ?? "output";
+const PUBLISHERS_CONFIG = process.env.PUBLISHERS_CONFIG;
+const INCLUSION_RULES_CONFIG = process.env.INCLUSION_RULES_CONFIG;
+// Incremental fetches can't see deleted recipes; list everything this often.
+const FULL_FETCH_INTERVAL_HOURS = parseEnvNumber(
+  process.env.FULL_FETCH_INTERVAL_HOURS,
+  "FULL_FETCH_INTERVAL_HOURS",
+  24,
+  isPositiveNumber,
+  "a positive number"
+);
+const DELIVERY_MAX_ATTEMPTS = parseEnvNumber(
+  process.env.DELIVERY_MAX_ATTEMPTS,
+  "DELIVERY_MAX_ATTEMPTS",
+  5,
+  isPositiveInteger,
+  "a positive integer"
+);
+/** Entries in a project doc's "Recent Changes" section; 0 leaves it out, so 0 is valid. */
+const CHANGELOG_MAX_ENTRIES = parseEnvNumber(
+  process.env.CHANGELOG_MAX_ENTRIES,
+  "CHANGELOG_MAX_ENTRIES",
+  10,
+  isNonNegativeInteger,
+  "a non-negative integer"
+);
+const QUALITY_GATE = qualityGateConfigFromEnv();
+
+export type DocMode = "project" | "recipe" | "both";
+
+const DOC_MODES: readonly DocMode[] = ["project", "recipe", "both"];
+
+/** Parse a doc mode from env or CLI input, rejecting unknown values. */
+export function parseDocMode(value: string | undefined): DocMode | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (!(DOC_MODES as readonly string[]).includes(value)) {
+    throw new Error(
+      `Invalid doc mode "${value}". Expected one of: ${DOC_MODES.join(", ")}`
+    );
+  }
+  return value as DocMode;
+}
+
+const DOC_MODE: DocMode = parseDocMode(process.env.DOC_MODE) ?? "project";
+const AI_PRICES = parsePriceTable(process.env.AI_PRICES);
+const BUDGETS = budgetConfigFromEnv();
+const WORKATO_CONCURRENCY = parseConcurrency(
+  process.env.WORKATO_CONCURRENCY,
+  "WORKATO_CONCURRENCY",
+  4
+);
+const ANTHROPIC_CONCURRENCY = parseConcurrency(
+  process.env.ANTHROPIC_CONCURRENCY,
+  "ANTHROPIC_CONCURRENCY",
+  4
+);
+const CUSTOMER_CONCURRENCY = parseConcurrency(
+  process.env.CUSTOMER_CONCURRENCY,
+  "CUSTOMER_CONCURRENCY",
+  4
+);
+const PROJECT_CONCURRENCY = parseConcurrency(
+  process.env.PROJECT_CONCURRENCY,
+  "PROJECT_CONCURRENCY",
+  4
+);
+// Module-level so consecutive runs in one process share the same buckets.
+const WORKATO_RATE_LIMITER = createWorkatoRateLimiter(
+  resolveRateLimits(
+    WORKATO_DATACENTER,
+    parseRateLimitOverrides(process.env.WORKATO_RATE_LIMITS)
+  )
+);
+
+function createWorkatoClient(): WorkatoClient {
+  return new WorkatoClient({
+    apiToken: WORKATO_TOKEN,
+    baseUrl: WORKATO_BASE_URL,
+    datacenter: WORKATO_DATACENTER,
+    limiter: createLimiter(WORKATO_CONCURRENCY),
+    rateLimiter: WORKATO_RATE_LIMITER,
+  });
+}
+
+function loadInclusionRulesFromEnv(): Promise<InclusionRules> {
+  return INCLUSION_RULES_CONFIG
+    ? loadInclusionRules(INCLUSION_RULES_CONFIG)
+    : Promise.resolve(createInclusionRules());
+}
+
+/** Customers a run covers: the one asked for, the test account, or WORKATO_CUSTOMERS. */
+function resolveCustomerIds(customerId?: string): string[] | undefined {
+  return customerId
+    ? [customerId]
+    : WORKATO_TEST_ACCOUNT_ID
+      ? [WORKATO_TEST_ACCOUNT_ID]
+      : WORKATO_CUSTOMERS;
+}
+
+/**
+ * Fetch only recipes updated since the last successful run, unless forced or
+ * a full listing is due (FULL_FETCH_INTERVAL_HOURS).
+ */
+function resolveUpdatedAfter(runTracker: RunTracker, force: boolean): string | undefined {
+  const lastFullFetch = runTracker.getLastFullFetchStartedAt();
+  const fullFetchDue =
+    !lastFullFetch ||
+    Date.now() - parseRunTimestamp(lastFullFetch) >=
+      FULL_FETCH_INTERVAL_HOURS * 3_600_000;
+  return force || fullFetchDue
+    ? undefined
+    : runTracker.getLastSuccessfulRunFinishedAt() ?? undefined;
+}
+
+function assertWorkatoToken(): void {
+  if (!WORKATO_TOKEN) {
+    throw new Error(
+      "WORKATO_API_TOKEN is required. Set it in your .env file or environment."
+    );
+  }
+}
+
+/**
+ * Evaluate the inclusion rules against the live recipe listing without
+ * storing or documenting anything.
+ */
+export async function runInclusionDryRun(customerId?: string): Promise<DryRunCustomer[]> {
+  assertWorkatoToken();
+  return dryRunInclusionRules(createWorkatoClient(), await loadInclusionRulesFromEnv(), {
+    customerIds: resolveCustomerIds(customerId),
+    concurrency: CUSTOMER_CONCURRENCY,
+  });
+}
+
+/** Managed user ID of a stored customer, by managed user ID or external ID. */
+function resolveStoredCustomer(storage: Storage, customerId: string): string {
+  const customer = storage.findCustomer(customerId);
+  if (!customer) throw new Error(`Unknown customer ${customerId}`);
+  return customer.managed_user_id;
+}
+
+/** Stored versions of a customer's recipe, oldest first. */
+export function listRecipeVersions(customerId: string, recipeId: number): RecipeSnapshot[] {
+  const storage = createSqliteStorage();
+  try {
+    return storage.listSnapshots(recipeId, resolveStoredCustomer(storage, customerId));
+  } finally {
+    storage.close();
+  }
+}
+
+/** Diff two stored versions of a customer's recipe; see `diffRecipeVersions`. */
+export function diffStoredRecipeVersions(
+  customerId: string,
+  recipeId: number,
+  fromRef?: string,
+  toRef?: string
+): RecipeVersionDiff {
+  const storage = createSqliteStorage();
+  try {
+    return diffRecipeVersions(
+      storage,
+      recipeId,
+      resolveStoredCustomer(storage, customerId),
+      fromRef,
+      toRef
+    );
+  } finally {
+    storage.close();
+  }
+}
+
+export interface PlanOptions {
+  /** Which docs would be generated; defaults to DOC_MODE (env) or "project". */
+  mode?: DocMode;
+  /** Check hash-only changes with the model, as a run does (default true). */
+  semanticAnalysis?: boolean;
+}
+
+/**
+ * Fetch and compare recipes like a run and report which projects would be
+ * regenerated, without recording a run, storing recipes, generating docs
+ * or publishing. Only semantic analysis calls the model, and only when
+ * enabled; its token usage is recorded and costed like a run's.
+ */
+export async function planDocumentationRun(
+  customerId?: string,
+  forceRegenerate = false,
+  options: PlanOptions = {}
+): Promise<SyncPlan> {
+  assertWorkatoToken();
+  const semanticAnalysis = options.semanticAnalysis ?? true;
+  if (semanticAnalysis && !ANTHROPIC_KEY) {
+    throw new Error(
+      "ANTHROPIC_API_KEY is required for semantic analysis; set it or skip the analysis."
+    );
+  }
+
+  const inclusionRules = await loadInclusionRulesFromEnv();
+  const storage = createSqliteStorage();
+  try {
+    const updatedAfter = resolveUpdatedAfter(createRunTracker(storage), forceRegenerate);
+    const fetchResult = await fetchAndStoreRecipes(createWorkatoClient(), storage, {
+      customerIds: resolveCustomerIds(customerId),
+      updatedAfter,
+      concurrency: CUSTOMER_CONCURRENCY,
+      inclusionRules,
+      store: false,
+    });
+    // Semantic analysis is the only model work a plan does; it is recorded
+    // against the customer and project like a run's, just without a run.
+    const anthropicLimiter = createLimiter(ANTHROPIC_CONCURRENCY);
+    const analysisUsage = { calls: 0, tokens: 0, costUsd: 0 as number | null };
+    const plan = await buildSyncPlan({
+      storage,
+      fetchResult,
+      mode: options.mode ?? DOC_MODE,
+      forceRegenerate,
+      updatedAfter,
+      qualityGate: QUALITY_GATE.enabled,
+      prices: AI_PRICES,
+      docModel: process.env.ANTHROPIC_DOC_MODEL,
+      qualityModel: process.env.ANTHROPIC_QUALITY_MODEL,
+      aiClientFor: semanticAnalysis
+        ? (scope) =>
+            createAnthropicClient({
+              apiKey: ANTHROPIC_KEY,
+              docModel: process.env.ANTHROPIC_DOC_MODEL,
+              qualityModel: process.env.ANTHROPIC_QUALITY_MODEL,
+              limiter: anthropicLimiter,
+              onUsage: (usage) => {
+                const cost = estimateCostUsd(usage, AI_PRICES);
+                analysisUsage.calls++;
+                analysisUsage.tokens +=
+                  usage.inputTokens +
+                  usage.outputTokens +
+                  usage.cacheWriteTokens +
+                  usage.cacheReadTokens;
+                analysisUsage.costUsd =
+                  cost === null || analysisUsage.costUsd === null
+                    ? null
+                    : analysisUsage.costUsd + cost;
+                storage.recordAiUsage({
+                  run_id: null,
+                  managed_user_id: scope.managedUserId,
+                  project_id: scope.projectId,
+                  method: usage.method,
+                  model: usage.model,
+                  input_tokens: usage.inputTokens,
+                  output_tokens: usage.outputTokens,
+                  cache_write_tokens: usage.cacheWriteTokens,
+                  cache_read_tokens: usage.cacheReadTokens,
+                  cost_usd: cost,
+                  duration_ms: usage.durationMs,
+                  created_at: new Date().toISOString(),
+                });
+              },
+            })
+        : undefined,
+    });
+    return semanticAnalysis ? { ...plan, semanticAnalysisUsage: analysisUsage } : plan;
+  } finally {
+    storage.close();
+  }
+}
+
+export interface PipelineOptions {
+  /** Which docs to generate; defaults to DOC_MODE (env) or "project". */
+  mode?: DocMode;
+  /**
+   * Cancels the run; checked before each customer is fetched and each project
+   * is documented, so work in flight finishes. Aborting with
+   * SHUTDOWN_ABORT_REASON records the run as "interrupted" (resumable) rather
+   * than "cancelled".
+   */
+  signal?: AbortSignal;
+  /** Called with the `sync_runs` ID once the run has been recorded. */
+  onRunStarted?: (runId: number) => void;
+  /**
+   * Continue an interrupted run instead of starting a new one. The run's
+   * recorded options replace `customerId`, `forceRegenerate` and `mode`, and
+   * customers and projects it already completed are skipped.
+   */
+  resumeRunId?: number;
+}
+
+/** Abort reason used when the process shuts down mid-run. */
+export const SHUTDOWN_ABORT_REASON = "shutdown";
+
+/** Options a run is started with, stored on its `sync_runs` row for resuming. */
+export interface SyncRunOptions {
+  customerIds?: string[];
+  forceRegenerate: boolean;
+  mode: DocMode;
+  /** Only recipes updated after this were fetched; unset for a full fetch. */
+  updatedAfter?: string;
+}
+
+/** What a completed project contributed to its run, kept in its checkpoint. */
+interface ProjectCheckpointStats {
+  docsPublished: number;
+  docsHeldForReview: number;
+  recipesChanged: number;
+}
+
+/** What documenting one project contributed to the run. */
+interface ProjectOutcome {
+  docsPublished: number;
+  docsHeldForReview: number;
+  errors: string[];
+  /** Set when a budget stopped the project; it is deferred to the next run. */
+  deferredReason?: string;
+  /** Set when the run was cancelled before the project started. */
+  cancelled?: boolean;
+}
+
+/** Recorded options of an unfinished run, or an error saying why it can't resume. */
+function loadResumableRunOptions(storage: Storage, runId: number): SyncRunOptions {
+  const run = storage.getSyncRun(runId);
+  if (!run) {
+    throw new Error(`Run ${runId} not found`);
+  }
+  if (run.finished_at && run.status !== "interrupted") {
+    throw new Error(`Run ${runId} already finished at ${run.finished_at}`);
+  }
+  if (!run.run_options) {
+    throw new Error(`Run ${runId} has no recorded options and cannot be resumed`);
+  }
+  return JSON.parse(run.run_options) as SyncRunOptions;
+}
 
 function slugify(name: string): string {
   return name
@@ -34,64 +428,204 @@ function slugify(name: string): string {
 export async function runDocumentationPipeline(
   customerId?: string,
   forceRegenerate?: boolean,
-  parentLogger?: Logger
+  parentLogger?: Logger,
+  options: PipelineOptions = {}
 ): Promise<void> {
   const log = parentLogger ?? createCorrelationLogger();
 
-  if (!WORKATO_TOKEN) {
-    throw new Error(
-      "WORKATO_API_TOKEN is required. Set it in your .env file or environment."
-    );
-  }
+  assertWorkatoToken();
   if (!ANTHROPIC_KEY) {
     throw new Error(
       "ANTHROPIC_API_KEY is required. Set it in your .env file or environment."
     );
   }
 
-  log.info({ customerId, forceRegenerate }, "Starting documentation pipeline");
-
+  // Configs are loaded before the run is recorded, so a broken one does not
+  // leave an unfinished run behind.
+  const inclusionRules = await loadInclusionRulesFromEnv();
   const storage = createSqliteStorage();
+  let publisherRegistry: PublisherRegistry;
+  try {
+    const publisherContext = { storage, logger: log };
+    publisherRegistry = PUBLISHERS_CONFIG
+      ? await loadPublisherRegistry(PUBLISHERS_CONFIG, publisherContext)
+      : await createPublisherRegistry(publishersConfigFromEnv(), publisherContext);
+  } catch (err) {
+    storage.close();
+    throw err;
+  }
   const runTracker = createRunTracker(storage);
+  const rehashed = rehashSnapshots(storage);
+  if (rehashed > 0) {
+    log.info({ snapshots: rehashed }, "Upgraded stored recipe hashes");
+  }
 
-  const client = new WorkatoClient({
-    apiToken: WORKATO_TOKEN,
-    baseUrl: WORKATO_BASE_URL,
-    datacenter: WORKATO_DATACENTER,
-  });
+  let runOptions: SyncRunOptions;
+  let runId: number;
+  if (options.resumeRunId !== undefined) {
+    try {
+      runOptions = loadResumableRunOptions(storage, options.resumeRunId);
+    } catch (err) {
+      storage.close();
+      throw err;
+    }
+    runId = options.resumeRunId;
+    runTracker.resumeRun(runId);
+  } else {
+    runOptions = {
+      customerIds: resolveCustomerIds(customerId),
+      forceRegenerate: forceRegenerate ?? false,
+      mode: options.mode ?? DOC_MODE,
+      updatedAfter: resolveUpdatedAfter(runTracker, forceRegenerate ?? false),
+    };
+    runId = runTracker.startRun(JSON.stringify(runOptions));
+  }
+  const { customerIds, mode, forceRegenerate: force } = runOptions;
 
-  const aiClient = createAnthropicClient({
-    apiKey: ANTHROPIC_KEY,
-    docModel: process.env.ANTHROPIC_DOC_MODEL,
-    qualityModel: process.env.ANTHROPIC_QUALITY_MODEL,
-  });
-  const publishers: Publisher[] = [
-    createFileSystemPublisher({ outputDir: OUTPUT_DIR }),
-  ];
+  // Work an interrupted run already completed, when resuming.
+  const resumedCustomers = new Set<string>();
+  const completedProjects = new Map<string, ProjectCheckpointStats>();
+  for (const checkpoint of storage.listRunCheckpoints(runId)) {
+    if (checkpoint.scope === "customer") {
+      resumedCustomers.add(checkpoint.managed_user_id);
+    } else {
+      completedProjects.set(
+        `${checkpoint.managed_user_id}:${checkpoint.project_id}`,
+        JSON.parse(checkpoint.stats) as ProjectCheckpointStats
+      );
+    }
+  }
 
-  const customerIds = customerId
-    ? [customerId]
-    : WORKATO_TEST_ACCOUNT_ID
-      ? [WORKATO_TEST_ACCOUNT_ID]
-      : WORKATO_CUSTOMERS;
-  const lastRun = runTracker.getLastSuccessfulRunFinishedAt();
+  log.info(
+    {
+      runId,
+      customerIds,
+      forceRegenerate: force,
+      mode,
+      ...(options.resumeRunId !== undefined && {
+        resumed: true,
+        customersCompleted: resumedCustomers.size,
+        projectsCompleted: completedProjects.size,
+      }),
+    },
+    options.resumeRunId !== undefined
+      ? "Resuming documentation pipeline"
+      : "Starting documentation pipeline"
+  );
 
-  const runId = runTracker.startRun();
+  const client = createWorkatoClient();
+  const blockedAtStart = WORKATO_RATE_LIMITER.blockedMs();
+  const anthropicLimiter = createLimiter(ANTHROPIC_CONCURRENCY);
+
+  options.onRunStarted?.(runId);
+
+  const budget = createBudgetTracker(BUDGETS);
+  if (options.resumeRunId !== undefined) {
+    seedBudgetTracker(budget, storage.listRunAiUsageByCustomer(runId));
+  }
+  // One client per attribution scope so every call's token usage is recorded
+  // against this run and, inside the project loop, the customer and project.
+  // Project-scoped calls are refused once a hard budget is reached.
+  const unpricedModels = new Set<string>();
+  const aiClientFor = (scope: { managedUserId?: string; projectId?: number }) =>
+    createAnthropicClient({
+      apiKey: ANTHROPIC_KEY,
+      docModel: process.env.ANTHROPIC_DOC_MODEL,
+      qualityModel: process.env.ANTHROPIC_QUALITY_MODEL,
+      limiter: anthropicLimiter,
+      beforeCall: scope.managedUserId
+        ? () => budget.assertWithinHardLimit(scope.managedUserId)
+        : undefined,
+      onUsage: (usage) => {
+        const cost = estimateCostUsd(usage, AI_PRICES);
+        budget.record(
+          {
+            tokens:
+              usage.inputTokens +
+              usage.outputTokens +
+              usage.cacheWriteTokens +
+              usage.cacheReadTokens,
+            costUsd: cost,
+          },
+          scope.managedUserId
+        );
+        if (cost === null && !unpricedModels.has(usage.model)) {
+          unpricedModels.add(usage.model);
+          log.warn(
+            { model: usage.model },
+            "No price configured for model – its cost is not estimated"
+          );
+        }
+        storage.recordAiUsage({
+          run_id: runId,
+          managed_user_id: scope.managedUserId,
+          project_id: scope.projectId,
+          method: usage.method,
+          model: usage.model,
+          input_tokens: usage.inputTokens,
+          output_tokens: usage.outputTokens,
+          cache_write_tokens: usage.cacheWriteTokens,
+          cache_read_tokens: usage.cacheReadTokens,
+          cost_usd: cost,
+          duration_ms: usage.durationMs,
+          created_at: new Date().toISOString(),
+        });
+      },
+    });
+  const aiClient = aiClientFor({});
+  const endRunTimer = pipelineRunDuration.startTimer();
+  let outcome: RunOutcome = "failed";
 
   let customersProcessed = 0;
   let recipesFetched = 0;
   let recipesChanged = 0;
-  let projectsDocumented = 0;
+  let docsPublished = 0;
+  let docsHeldForReview = 0;
   const errors: string[] = [];
+  const entityChanges: string[] = [];
+  let docsArchived = 0;
+  const deferredProjects: Array<{ key: string; kind: DeferralKind; reason: string }> = [];
+  const deferProject = (
+    managedUserId: string,
+    projectId: number,
+    kind: DeferralKind,
+    reason: string
+  ) => {
+    storage.deferProject({
+      managed_user_id: managedUserId,
+      project_id: projectId,
+      kind,
+      reason,
+      run_id: runId,
+      deferred_at: new Date().toISOString(),
+    });
+    deferredProjects.push({ key: `${managedUserId}:${projectId}`, kind, reason });
+  };
 
   try {
     const fetchResult = await fetchAndStoreRecipes(client, storage, {
       customerIds,
-      updatedAfter: forceRegenerate ? undefined : lastRun ?? undefined,
+      updatedAfter: runOptions.updatedAfter,
+      concurrency: CUSTOMER_CONCURRENCY,
+      resumedCustomers,
+      inclusionRules,
+      signal: options.signal,
+      onCustomerFetched: (managedUserId, customerRecipes) =>
+        storage.saveRunCheckpoint({
+          run_id: runId,
+          scope: "customer",
+          managed_user_id: managedUserId,
+          project_id: 0,
+          stats: JSON.stringify({ recipesFetched: customerRecipes }),
+          completed_at: new Date().toISOString(),
+        }),
     });
 
     customersProcessed = fetchResult.customersProcessed;
     recipesFetched = fetchResult.recipesFetched;
+    for (const { managedUserId } of fetchResult.recipes) {
+      recipesFetchedMetric.inc({ customer: managedUserId });
+    }
     if (fetchResult.customerErrors.length > 0) {
       errors.push(...fetchResult.customerErrors);
     }
@@ -105,100 +639,224 @@ export async function runDocumentationPipeline(
       "Fetch complete"
     );
 
+    // Mark what disappeared from Workato as removed, and queue projects that
+    // lost recipes or were renamed so their docs are regenerated below.
+    for (const listing of fetchResult.listings) {
+      const reconciled = reconcileCustomer(storage, listing);
+      for (const { managedUserId, projectId } of reconciled.affectedProjects) {
+        deferProject(managedUserId, projectId, "workato_change", "project changed in Workato");
+      }
+      entityChanges.push(
+        ...reconciled.removed.map(describeRemoval),
+        ...reconciled.renamed.map(describeRename)
+      );
+    }
+    if (entityChanges.length > 0) {
+      log.info({ changes: entityChanges }, "Projects or recipes removed or renamed in Workato");
+    }
+
+    // Take down docs of removed projects and recipes, including ones earlier
+    // runs could not archive.
+    if (!options.signal?.aborted) {
+      const archive = await archiveRemovedDocumentation(
+        { storage, registry: publisherRegistry, log },
+        { managedUserIds: customerIds ? fetchResult.managedUserIds : undefined }
+      );
+      docsArchived = archive.archived;
+      errors.push(...archive.errors);
+    }
+
+    // Re-send docs that earlier runs stored but could not deliver everywhere.
+    const retry = options.signal?.aborted
+      ? { retried: 0, delivered: 0, errors: [] }
+      : await retryFailedDeliveries(
+          { storage, registry: publisherRegistry, log },
+          {
+            maxAttempts: DELIVERY_MAX_ATTEMPTS,
+            managedUserIds: customerIds ? fetchResult.managedUserIds : undefined,
+          }
+        );
+    errors.push(...retry.errors);
+    if (retry.retried > 0) {
+      log.info(
+        { retried: retry.retried, delivered: retry.delivered },
+        "Delivery retries complete"
+      );
+    }
+
     // Index recipes by key for O(1) lookup instead of O(n) find()
     const recipeIndex = new Map<string, { recipe: typeof fetchResult.recipes[0]["recipe"]; managedUserId: string }>();
     for (const entry of fetchResult.recipes) {
       recipeIndex.set(`${entry.managedUserId}:${entry.recipe.id}`, entry);
     }
 
-    const changed = forceRegenerate
-      ? fetchResult.recipes.map((r) => ({
-          recipeId: r.recipe.id,
-          managedUserId: r.managedUserId,
-          isNew: false,
-        }))
-      : getChangedRecipes(
-          fetchResult.recipes,
-          (recipeId) => storage.getLatestSnapshot(recipeId)?.content_hash ?? null
-        );
-    recipesChanged = changed.length;
-    log.info({ recipesChanged }, "Change detection complete");
+    const changed = detectChanges(storage, fetchResult.recipes, force);
+    log.info({ recipesChanged: changed.length }, "Change detection complete");
 
+    // Changed recipes per project, for stats and resume checkpoints.
+    const changedCounts = new Map<string, number>();
+    const pending = changed.filter(({ managedUserId, projectId }) => {
+      const key = `${managedUserId}:${projectId ?? 0}`;
+      if (completedProjects.has(key)) return false;
+      recipesChanged++;
+      recipesChangedMetric.inc({ customer: managedUserId });
+      changedCounts.set(key, (changedCounts.get(key) ?? 0) + 1);
+      return true;
+    });
+
+    // Projects deferred by earlier runs (e.g. over budget) go first and are
+    // regenerated in full. Their recipes not fetched this run come from storage.
     const changedByProject = new Map<
       string,
       { managedUserId: string; projectId: number; recipeIds: Set<number> }
     >();
-    for (const { recipeId, managedUserId } of changed) {
-      const recipeData = recipeIndex.get(`${managedUserId}:${recipeId}`);
-      if (!recipeData?.recipe.project_id) continue;
-      const key = `${managedUserId}:${recipeData.recipe.project_id}`;
-      if (!changedByProject.has(key)) {
-        changedByProject.set(key, {
-          managedUserId,
-          projectId: recipeData.recipe.project_id,
-          recipeIds: new Set(),
-        });
+    const deferredKeys = new Set<string>();
+    for (const [key, project] of groupChangesByProject(
+      storage,
+      pending,
+      fetchResult.managedUserIds
+    )) {
+      const { managedUserId, projectId } = project;
+      const recipeIds = new Set(project.recipes.keys());
+      if (project.deferred) {
+        deferredKeys.add(key);
+        for (const stored of storage.getRecipesByCustomer(managedUserId)) {
+          if (stored.project_id !== projectId) continue;
+          const indexKey = `${managedUserId}:${stored.id}`;
+          if (!recipeIndex.has(indexKey)) {
+            const entry = {
+              recipe: JSON.parse(stored.raw_json) as WorkatoRecipe,
+              managedUserId,
+            };
+            fetchResult.recipes.push(entry);
+            recipeIndex.set(indexKey, entry);
+          }
+          recipeIds.add(stored.id);
+        }
       }
-      changedByProject.get(key)!.recipeIds.add(recipeId);
+      changedByProject.set(key, { managedUserId, projectId, recipeIds });
     }
 
-    for (const { managedUserId, projectId, recipeIds } of changedByProject
-      .values()) {
+    // Projects run in parallel up to PROJECT_CONCURRENCY; each one still
+    // publishes before saving its snapshots.
+    const documentProject = async (entry: {
+      managedUserId: string;
+      projectId: number;
+      recipeIds: Set<number>;
+    }): Promise<ProjectOutcome> => {
+      const outcome = await documentProjectOnce(entry);
+      // Only cleanly completed projects are skipped on resume; the rest are
+      // retried.
+      if (!outcome.cancelled && !outcome.deferredReason && outcome.errors.length === 0) {
+        // A deferred project stays queued until its docs are regenerated;
+        // one held for review is retried in full on the next run.
+        if (
+          outcome.docsHeldForReview === 0 &&
+          deferredKeys.has(`${entry.managedUserId}:${entry.projectId}`)
+        ) {
+          storage.clearDeferredProject(entry.managedUserId, entry.projectId);
+        }
+        const stats: ProjectCheckpointStats = {
+          docsPublished: outcome.docsPublished,
+          docsHeldForReview: outcome.docsHeldForReview,
+          recipesChanged:
+            changedCounts.get(`${entry.managedUserId}:${entry.projectId}`) ?? 0,
+        };
+        storage.saveRunCheckpoint({
+          run_id: runId,
+          scope: "project",
+          managed_user_id: entry.managedUserId,
+          project_id: entry.projectId,
+          stats: JSON.stringify(stats),
+          completed_at: new Date().toISOString(),
+        });
+      }
+      return outcome;
+    };
+
+    const documentProjectOnce = async ({
+      managedUserId,
+      projectId,
+      recipeIds,
+    }: {
+      managedUserId: string;
+      projectId: number;
+      recipeIds: Set<number>;
+    }): Promise<ProjectOutcome> => {
+      const outcome: ProjectOutcome = {
+        docsPublished: 0,
+        docsHeldForReview: 0,
+        errors: [],
+      };
+      if (options.signal?.aborted) {
+        outcome.cancelled = true;
+        return outcome;
+      }
+      const projectKey = `${managedUserId}:${projectId}`;
+      const budgetReason = budget.softLimitReached(managedUserId);
+      if (budgetReason) {
+        outcome.deferredReason = budgetReason;
+        return outcome;
+      }
       try {
+        const projectAi = aiClientFor({ managedUserId, projectId });
         const project = storage.getProject(projectId, managedUserId);
         if (!project) {
-          errors.push(`Project ${projectId} not found`);
-          continue;
+          outcome.errors.push(`Project ${projectId} not found`);
+          return outcome;
         }
 
-        const projectRecipes = fetchResult.recipes.filter(
-          (r) =>
-            r.managedUserId === managedUserId &&
-            r.recipe.project_id === projectId
+        // The whole project, not just what this (possibly incremental) fetch
+        // returned, so unchanged recipes stay in the doc.
+        const recipes = getProjectRecipes(
+          storage,
+          managedUserId,
+          projectId,
+          (id) => recipeIndex.get(`${managedUserId}:${id}`)?.recipe
         );
-        if (projectRecipes.length === 0) continue;
+        if (recipes.length === 0) return outcome;
 
-        const hasNewOrForce = forceRegenerate || Array.from(recipeIds).some(
+        const hasNewOrForce = force || deferredKeys.has(projectKey) || Array.from(recipeIds).some(
           (id) => {
             const r = recipeIndex.get(`${managedUserId}:${id}`);
-            return !r || !storage.getLatestSnapshot(id);
+            return !r || !storage.getLatestSnapshot(id, managedUserId);
           }
         );
-        if (!hasNewOrForce) {
-          let anyMeaningful = false;
-          for (const id of recipeIds) {
-            const r = recipeIndex.get(`${managedUserId}:${id}`);
-            if (!r) continue;
-            const prev = storage.getLatestSnapshot(id);
-            if (!prev) {
-              anyMeaningful = true;
-              break;
-            }
-            let oldRecipe: typeof r.recipe;
-            try {
-              oldRecipe = JSON.parse(prev.raw_json) as typeof r.recipe;
-            } catch {
-              anyMeaningful = true;
-              break;
-            }
-            const semantic = await aiClient.analyzeSemanticChange(
-              oldRecipe,
-              r.recipe
-            );
-            if (semantic.hasMeaningfulChange) {
-              anyMeaningful = true;
-              break;
-            }
+        // Every changed recipe is analyzed, not just until one is
+        // meaningful: the summaries go into the changelog and are kept with
+        // the new snapshots. Unchanged recipes of forced or deferred projects
+        // diff as trivial and cost no model call.
+        const changes = new Map<number, SemanticChangeResult>();
+        let anyMeaningful = hasNewOrForce;
+        for (const id of recipeIds) {
+          const r = recipeIndex.get(`${managedUserId}:${id}`);
+          if (!r) continue;
+          const prev = storage.getLatestSnapshot(id, managedUserId);
+          if (!prev) {
+            anyMeaningful = true;
+            continue;
+          }
+          let oldRecipe: typeof r.recipe;
+          try {
+            oldRecipe = JSON.parse(prev.raw_json) as typeof r.recipe;
+          } catch {
+            anyMeaningful = true;
+            continue;
           }
-          if (!anyMeaningful) continue;
+          const semantic = await analyzeSemanticChange(
+            projectAi,
+            oldRecipe,
+            r.recipe
+          );
+          changes.set(id, semantic);
+          if (semantic.hasMeaningfulChange) anyMeaningful = true;
         }
+        if (!anyMeaningful) return outcome;
 
         // Resolve lookup tables referenced in any of the project's recipes
-        let lookupTables;
+        let lookupTables: LookupTableContext[] | undefined;
         try {
-          const refs = extractLookupTableReferencesFromRecipes(
-            projectRecipes.map((r) => r.recipe)
-          );
+          const refs = extractLookupTableReferencesFromRecipes(recipes);
           lookupTables = await resolveLookupTables(
             client,
             managedUserId,
@@ -218,78 +876,272 @@ export async function runDocumentationPipeline(
           );
         }
 
-        const docResult = await aiClient.generateProjectDocumentation(
-          project.name,
-          project.description ?? undefined,
-          projectRecipes.map((r) => r.recipe),
-          lookupTables
-        );
-
-        // Publish first — if this fails, we don't save snapshots,
-        // so the next run will re-detect the changes and retry.
         const projectSlug = slugify(project.name);
-        for (const pub of publishers) {
-          await pub.publish(
-            {
-              managedUserId,
-              contentMd: docResult.markdown,
-              contentHtml: docResult.html ?? docResult.markdown,
-            },
-            {
+        const docCtx = {
+          storage,
+          publishers: publisherRegistry.forCustomer(
+            managedUserId,
+            storage.getCustomer(managedUserId)?.external_id
+          ),
+          qualityGate: QUALITY_GATE,
+          log,
+        };
+
+        // Per-recipe docs for the changed recipes. A recipe doc that fails
+        // generation or the quality gate is recorded and left without a
+        // snapshot so the next run retries it.
+        const recipeDocsStored = new Set<number>();
+        if (mode !== "project") {
+          for (const id of recipeIds) {
+            const recipe = recipeIndex.get(`${managedUserId}:${id}`)?.recipe;
+            if (!recipe) continue;
+            try {
+              const recipeRefs = extractLookupTableReferences(recipe.code);
+              const refNames = new Set(
+                [...recipeRefs.names].map((n) => n.toLowerCase())
+              );
+              const recipeLookupTables = lookupTables?.filter(
+                (t) =>
+                  recipeRefs.ids.has(t.id) ||
+                  refNames.has(t.name.toLowerCase())
+              );
+              const result = await writeDocumentation(docCtx, {
+                managedUserId,
+                scope: "recipe",
+                targetId: recipe.id,
+                projectId,
+                recipes: [recipe],
+                generate: (feedback) =>
+                  projectAi.generateDocumentation(
+                    recipe,
+                    recipeLookupTables,
+                    feedback
+                  ),
+                assess: (doc) => projectAi.assessQuality(doc, recipe),
+                metadata: {
+                  recipeName: recipe.name,
+                  projectName: project.name,
+                  projectSlug,
+                  isProjectDoc: false,
+                },
+              });
+              if (result.status === "needs_review") {
+                outcome.docsHeldForReview++;
+              } else {
+                recipeDocsStored.add(recipe.id);
+                outcome.docsPublished++;
+                docsDocumented.inc({ customer: managedUserId, scope: "recipe" });
+              }
+              for (const f of result.failedDeliveries) {
+                outcome.errors.push(`Recipe ${id}: ${f.publisher} delivery failed: ${f.error}`);
+              }
+            } catch (err) {
+              if (err instanceof BudgetExceededError) throw err;
+              const msg = err instanceof Error ? err.message : String(err);
+              outcome.errors.push(`Recipe ${id}: ${msg}`);
+            }
+          }
+        }
+
+        if (mode !== "recipe") {
+          const changelog = buildProjectChangelog(storage, managedUserId, recipes, {
+            summaries: new Map(
+              [...changes].map(([id, change]) => [id, change.changeSummary])
+            ),
+            now: new Date(),
+            limit: CHANGELOG_MAX_ENTRIES,
+          });
+          const result = await writeDocumentation(docCtx, {
+            managedUserId,
+            scope: "project",
+            targetId: projectId,
+            projectId,
+            recipes,
+            generate: async (feedback) =>
+              appendChangelog(
+                await projectAi.generateProjectDocumentation(
+                  project.name,
+                  project.description ?? undefined,
+                  recipes,
+                  lookupTables,
+                  feedback
+                ),
+                changelog
+              ),
+            assess: (doc) =>
+              projectAi.assessProjectQuality(doc, project.name, recipes),
+            metadata: {
               projectName: project.name,
               projectSlug,
               isProjectDoc: true,
-            }
-          );
+              recipeLinks:
+                mode === "both"
+                  ? recipeDocLinks(storage, managedUserId, recipes, recipeDocsStored)
+                  : undefined,
+            },
+          });
+          for (const f of result.failedDeliveries) {
+            outcome.errors.push(`Project ${projectId}: ${f.publisher} delivery failed: ${f.error}`);
+          }
+          // Held for review: the published version stays in place and, with
+          // no snapshots saved, the project is retried on the next run.
+          if (result.status === "needs_review") {
+            outcome.docsHeldForReview++;
+            return outcome;
+          }
+          outcome.docsPublished++;
+          docsDocumented.inc({ customer: managedUserId, scope: "project" });
         }
 
-        // Only save snapshots after successful publish.
-        for (const { recipe } of projectRecipes) {
-          const hash = computeRecipeHash(recipe);
-          storage.upsertSnapshot({
+        // Save snapshots once the doc is stored: failed deliveries are retried
+        // from storage, so they must not trigger regeneration.
+        for (const recipe of recipesToSnapshot(mode, recipes, recipeIds, recipeDocsStored)) {
+          storage.appendSnapshot({
             recipe_id: recipe.id,
             managed_user_id: managedUserId,
-            content_hash: hash,
+            run_id: runId,
+            content_hash: computeRecipeHash(recipe),
             raw_json: JSON.stringify(recipe),
             created_at: new Date().toISOString(),
+            change_summary: changes.get(recipe.id)?.changeSummary ?? null,
+            change_type: changes.get(recipe.id)?.changeType ?? null,
           });
         }
-
-        projectsDocumented++;
       } catch (err) {
+        if (err instanceof BudgetExceededError) {
+          outcome.deferredReason = err.reason;
+          return outcome;
+        }
         const msg = err instanceof Error ? err.message : String(err);
-        errors.push(`Project ${projectId}: ${msg}`);
+        outcome.errors.push(`Project ${projectId}: ${msg}`);
       }
+      return outcome;
+    };
+
+    // Projects a resumed run already completed keep their recorded stats.
+    const projects = [...changedByProject.values()].filter(
+      (p) => !completedProjects.has(`${p.managedUserId}:${p.projectId}`)
+    );
+    for (const stats of completedProjects.values()) {
+      recipesChanged += stats.recipesChanged;
+      docsPublished += stats.docsPublished;
+      docsHeldForReview += stats.docsHeldForReview;
     }
 
-    const summary = await aiClient.generateRunSummary({
-      customersProcessed,
-      recipesFetched,
-      recipesChanged,
-      recipesDocumented: projectsDocumented,
-      errors,
+    const outcomes = await mapWithConcurrency(
+      projects,
+      PROJECT_CONCURRENCY,
+      documentProject
+    );
+
+    // Merge in project order so stats and errors do not depend on scheduling.
+    outcomes.forEach((outcome, i) => {
+      const { managedUserId, projectId } = projects[i];
+      docsPublished += outcome.docsPublished;
+      docsHeldForReview += outcome.docsHeldForReview;
+      errors.push(...outcome.errors);
+      if (outcome.deferredReason) {
+        deferProject(managedUserId, projectId, "budget", outcome.deferredReason);
+      }
     });
+    const interrupted = options.signal?.reason === SHUTDOWN_ABORT_REASON;
+    if (interrupted) {
+      errors.push(
+        `Run interrupted by shutdown before all work was done; resume with sync --resume ${runId}`
+      );
+      log.warn({ runId }, "Run interrupted – remaining work resumes from checkpoints");
+    } else if (options.signal?.aborted) {
+      errors.push("Run cancelled before all projects were documented");
+      log.warn("Run cancelled – skipped remaining projects");
+    }
+
+    const blockedNow = WORKATO_RATE_LIMITER.blockedMs();
+    const rateLimitWaitMs = Object.fromEntries(
+      Object.entries(blockedNow).map(([cls, ms]) => [
+        cls,
+        ms - blockedAtStart[cls as keyof typeof blockedAtStart],
+      ])
+    );
+    if (Object.values(rateLimitWaitMs).some((ms) => ms > 0)) {
+      log.info({ rateLimitWaitMs }, "Workato requests waited for the rate limiter");
+    }
+
+    const budgetDeferred = deferredProjects.filter((d) => d.kind === "budget");
+    if (budgetDeferred.length > 0) {
+      const byReason = new Map<string, string[]>();
+      for (const { key, reason } of budgetDeferred) {
+        byReason.set(reason, [...(byReason.get(reason) ?? []), key]);
+      }
+      for (const [reason, keys] of byReason) {
+        errors.push(
+          `Budget reached (${reason}); deferred ${keys.length} project(s) to the next run: ${keys.join(", ")}`
+        );
+      }
+      log.warn(
+        { deferredProjects: budgetDeferred.length },
+        "AI budget reached – remaining projects deferred to the next run"
+      );
+    }
+
+    const changedInWorkato = deferredProjects.filter((d) => d.kind === "workato_change");
+    if (changedInWorkato.length > 0) {
+      log.info(
+        { projects: changedInWorkato.map((d) => d.key) },
+        "Projects changed in Workato – queued for regeneration"
+      );
+    }
+
+    // An interrupted run gets its summary when it is resumed and finishes.
+    const summary = interrupted
+      ? undefined
+      : await aiClient.generateRunSummary({
+          customersProcessed,
+          recipesFetched,
+          recipesChanged,
+          recipesDocumented: docsPublished,
+          docsHeldForReview,
+          projectsDeferred: budgetDeferred.length,
+          projectsChangedInWorkato: changedInWorkato.length,
+          estimatedCostUsd: storage.getRunAiUsage(runId).cost_usd,
+          entityChanges,
+          docsArchived,
+          errors,
+        });
 
+    outcome = interrupted
+      ? "interrupted"
+      : options.signal?.aborted
+        ? "cancelled"
+        : errors.length
+          ? "partial"
+          : "success";
     runTracker.finishRun(runId, {
       customersProcessed,
       recipesFetched,
       recipesChanged,
-      recipesDocumented: projectsDocumented,
+      recipesDocumented: docsPublished,
       errors: errors.length ? errors.join("; ") : undefined,
       summary,
+      estimatedCostUsd: storage.getRunAiUsage(runId).cost_usd,
+      status: outcome,
     });
   } catch (err) {
+    outcome = "failed";
     const msg = err instanceof Error ? err.message : String(err);
     errors.push(msg);
     runTracker.finishRun(runId, {
       customersProcessed,
       recipesFetched,
       recipesChanged,
-      recipesDocumented: projectsDocumented,
+      recipesDocumented: docsPublished,
       errors: errors.join("; "),
+      estimatedCostUsd: storage.getRunAiUsage(runId).cost_usd,
+      status: "failed",
     });
     throw err;
   } finally {
+    endRunTimer({ outcome });
+    pipelineRuns.inc({ outcome });
     storage.close();
   }
 }
@@ -0,0 +1,311 @@
+import type { AIClient, AIUsage } from "../ai/ai-client.js";
+import { estimateDocumentationCalls } from "../ai/anthropic-ai-client.js";
+import { estimateCostUsd } from "../ai/pricing.js";
+import { analyzeSemanticChange } from "../ai/semantic-analyzer.js";
+import type { PriceTable } from "../ai/pricing.js";
+import type { WorkatoRecipe } from "../api/workato-client.js";
+import type { CustomerListing, FetchResult } from "../rules/fetcher.js";
+import { diffRecipes } from "../rules/recipe-diff.js";
+import type { Storage } from "../storage/storage.js";
+import { detectChanges, groupChangesByProject } from "./change-detection.js";
+import type { ChangeReason } from "./change-detection.js";
+import type { DocMode } from "./orchestrator.js";
+
+/** Why a recipe or project would be documented. */
+export type PlanReason = ChangeReason | "deferred";
+
+export interface PlannedProject {
+  managedUserId: string;
+  projectId: number;
+  projectName: string;
+  /** False when semantic analysis found no meaningful change. */
+  regenerate: boolean;
+  reasons: PlanReason[];
+  /** Changed recipes, with why; empty for deferred projects, which are redone in full. */
+  changedRecipes: Array<{ id: number; name: string; reason: PlanReason }>;
+  /** Recipes the project doc would cover. */
+  recipeCount: number;
+  /** Semantic analysis summary for hash-only changes. */
+  changeSummary?: string;
+  estimatedInputTokens: number;
+  estimatedOutputTokens: number;
+  /** Null when a model has no configured price. */
+  estimatedCostUsd: number | null;
+}
+
+export interface SyncPlan {
+  mode: DocMode;
+  forceRegenerate: boolean;
+  /** Unset for a full fetch. */
+  updatedAfter?: string;
+  semanticAnalysis: boolean;
+  customersProcessed: number;
+  recipesFetched: number;
+  recipesChanged: number;
+  projects: PlannedProject[];
+  totals: {
+    projectsRegenerated: number;
+    estimatedInputTokens: number;
+    estimatedOutputTokens: number;
+    estimatedCostUsd: number | null;
+  };
+  /**
+   * Model calls made while planning, for semantic analysis. They are
+   * recorded in `ai_usage` without a run; unset when none were metered.
+   */
+  semanticAnalysisUsage?: {
+    calls: number;
+    tokens: number;
+    /** Null when a model has no configured price. */
+    costUsd: number | null;
+  };
+  errors: string[];
+}
+
+export interface PlanContext {
+  storage: Storage;
+  /** Fetched with `store: false`, so planning leaves recipes and snapshots untouched. */
+  fetchResult: FetchResult;
+  mode: DocMode;
+  forceRegenerate: boolean;
+  updatedAfter?: string;
+  qualityGate: boolean;
+  prices: PriceTable;
+  docModel?: string;
+  qualityModel?: string;
+  /**
+   * Checks hash-only changes with structural changes for meaning, as a run
+   * does, with a client per project so usage can be attributed. Without it
+   * any structural change is assumed to be meaningful.
+   */
+  aiClientFor?: (scope: {
+    managedUserId: string;
+    projectId: number;
+  }) => Pick<AIClient, "analyzeSemanticChange">;
+}
+
+/**
+ * The recipes a project doc would cover: what was just listed, plus stored
+ * recipes an incremental fetch did not return and that were not excluded or
+ * moved away.
+ */
+function planProjectRecipes(
+  storage: Storage,
+  managedUserId: string,
+  projectId: number,
+  fresh: Map<string, WorkatoRecipe>,
+  listing: CustomerListing | undefined
+): WorkatoRecipe[] {
+  const excluded = new Set(listing?.excludedRecipeIds);
+  const listed = listing?.complete ? new Set(listing.activeRecipeIds) : null;
+  const recipes = new Map<number, WorkatoRecipe>();
+  for (const stored of storage.getRecipesByCustomer(managedUserId)) {
+    if (stored.project_id !== projectId || excluded.has(stored.id)) continue;
+    if (listed && !listed.has(stored.id)) continue;
+    recipes.set(stored.id, JSON.parse(stored.raw_json) as WorkatoRecipe);
+  }
+  for (const [key, recipe] of fresh) {
+    if (!key.startsWith(`${managedUserId}:`)) continue;
+    if (recipe.project_id === projectId) recipes.set(recipe.id, recipe);
+    else recipes.delete(recipe.id);
+  }
+  return [...recipes.values()].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Work out which projects a run would regenerate and what the generation
+ * would cost, without generating or publishing anything.
+ */
+export async function buildSyncPlan(ctx: PlanContext): Promise<SyncPlan> {
+  const { storage, fetchResult, mode } = ctx;
+  const errors = [...fetchResult.customerErrors];
+
+  const fresh = new Map<string, WorkatoRecipe>();
+  for (const { recipe, managedUserId } of fetchResult.recipes) {
+    fresh.set(`${managedUserId}:${recipe.id}`, recipe);
+  }
+  const listings = new Map(fetchResult.listings.map((l) => [l.managedUserId, l]));
+
+  // Same projects, in the same order, as a run would document.
+  const changed = detectChanges(storage, fetchResult.recipes, ctx.forceRegenerate);
+  const byProject = groupChangesByProject(storage, changed, fetchResult.managedUserIds);
+
+  const projects: PlannedProject[] = [];
+  for (const { managedUserId, projectId, deferred, recipes: changedRecipes } of byProject.values()) {
+    const listing = listings.get(managedUserId);
+    const recipes = planProjectRecipes(storage, managedUserId, projectId, fresh, listing);
+    if (recipes.length === 0) continue;
+    const projectName =
+      listing?.projects.find((p) => p.id === projectId)?.name ??
+      storage.getProject(projectId, managedUserId)?.name ??
+      `Project ${projectId}`;
+
+    const reasons = new Set<PlanReason>(changedRecipes.values());
+    if (deferred) reasons.add("deferred");
+
+    // A run regenerates new, forced and deferred projects outright and
+    // checks hash-only changes for meaning first.
+    let regenerate = true;
+    let changeSummary: string | undefined;
+    if (!deferred && [...reasons].every((r) => r === "hash_changed")) {
+      regenerate = false;
+      const aiClient = ctx.aiClientFor?.({ managedUserId, projectId });
+      for (const recipeId of changedRecipes.keys()) {
+        const previous = storage.getLatestSnapshot(recipeId, managedUserId);
+        const current = fresh.get(`${managedUserId}:${recipeId}`);
+        if (!previous || !current) {
+          regenerate = true;
+          break;
+        }
+        const oldRecipe = JSON.parse(previous.raw_json) as WorkatoRecipe;
+        if (!aiClient) {
+          if (diffRecipes(oldRecipe, current).trivial) continue;
+          regenerate = true;
+          break;
+        }
+        try {
+          const semantic = await analyzeSemanticChange(aiClient, oldRecipe, current);
+          changeSummary = semantic.changeSummary;
+          if (semantic.hasMeaningfulChange) {
+            regenerate = true;
+            break;
+          }
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          errors.push(`Project ${projectId}: semantic analysis failed: ${msg}`);
+          regenerate = true;
+          break;
+        }
+      }
+    }
+
+    const recipeDocs =
+      mode === "project"
+        ? []
+        : deferred
+          ? recipes
+          : recipes.filter((r) => changedRecipes.has(r.id));
+    const calls = regenerate
+      ? estimateDocumentationCalls({
+          projectName,
+          projectRecipes: mode === "recipe" ? undefined : recipes,
+          recipeDocs,
+          qualityGate: ctx.qualityGate,
+          docModel: ctx.docModel,
+          qualityModel: ctx.qualityModel,
+        })
+      : [];
+    let estimatedCostUsd: number | null = 0;
+    for (const call of calls) {
+      const usage: AIUsage = {
+        ...call,
+        cacheWriteTokens: 0,
+        cacheReadTokens: 0,
+        durationMs: 0,
+      };
+      const cost = estimateCostUsd(usage, ctx.prices);
+      estimatedCostUsd =
+        cost === null || estimatedCostUsd === null ? null : estimatedCostUsd + cost;
+    }
+
+    projects.push({
+      managedUserId,
+      projectId,
+      projectName,
+      regenerate,
+      reasons: [...reasons],
+      changedRecipes: [...changedRecipes].map(([id, reason]) => ({
+        id,
+        name: fresh.get(`${managedUserId}:${id}`)?.name ?? `Recipe ${id}`,
+        reason,
+      })),
+      recipeCount: recipes.length,
+      changeSummary,
+      estimatedInputTokens: calls.reduce((sum, c) => sum + c.inputTokens, 0),
+      estimatedOutputTokens: calls.reduce((sum, c) => sum + c.outputTokens, 0),
+      estimatedCostUsd,
+    });
+  }
+
+  const regenerated = projects.filter((p) => p.regenerate);
+  return {
+    mode,
+    forceRegenerate: ctx.forceRegenerate,
+    updatedAfter: ctx.updatedAfter,
+    semanticAnalysis: ctx.aiClientFor !== undefined,
+    customersProcessed: fetchResult.customersProcessed,
+    recipesFetched: fetchResult.recipesFetched,
+    recipesChanged: changed.length,
+    projects,
+    totals: {
+      projectsRegenerated: regenerated.length,
+      estimatedInputTokens: regenerated.reduce((sum, p) => sum + p.estimatedInputTokens, 0),
+      estimatedOutputTokens: regenerated.reduce((sum, p) => sum + p.estimatedOutputTokens, 0),
+      estimatedCostUsd: regenerated.reduce<number | null>(
+        (sum, p) =>
+          sum === null || p.estimatedCostUsd === null ? null : sum + p.estimatedCostUsd,
+        0
+      ),
+    },
+    errors,
+  };
+}
+
+function formatCost(costUsd: number | null): string {
+  return costUsd === null ? "cost unknown (unpriced model)" : `~$${costUsd.toFixed(2)}`;
+}
+
+function formatTokens(input: number, output: number): string {
+  return `~${input.toLocaleString("en-US")} input + ${output.toLocaleString("en-US")} output tokens`;
+}
+
+/** Human-readable plan for the terminal. */
+export function formatPlan(plan: SyncPlan): string {
+  const fetchDesc = plan.updatedAfter
+    ? `recipes updated since ${plan.updatedAfter}`
+    : "full fetch";
+  const lines = [
+    `Sync plan: mode ${plan.mode}, ${fetchDesc}${plan.forceRegenerate ? ", forced" : ""}, semantic analysis ${plan.semanticAnalysis ? "on" : "skipped"}`,
+    `${plan.customersProcessed} customer(s), ${plan.recipesFetched} recipe(s) fetched, ${plan.recipesChanged} changed`,
+    "",
+  ];
+
+  const regenerate = plan.projects.filter((p) => p.regenerate);
+  const skip = plan.projects.filter((p) => !p.regenerate);
+  lines.push(`Regenerate ${regenerate.length} project(s):`);
+  for (const p of regenerate) {
+    lines.push(
+      `  Customer ${p.managedUserId}, project ${p.projectId} "${p.projectName}" (${p.recipeCount} recipe(s)): ${p.reasons.join(", ")}`
+    );
+    for (const r of p.changedRecipes) {
+      lines.push(`    ${r.id} ${r.name}: ${r.reason}`);
+    }
+    lines.push(
+      `    ${formatTokens(p.estimatedInputTokens, p.estimatedOutputTokens)}, ${formatCost(p.estimatedCostUsd)}`
+    );
+  }
+  if (skip.length > 0) {
+    lines.push("", `Skip ${skip.length} project(s) with no meaningful change:`);
+    for (const p of skip) {
+      lines.push(
+        `  Customer ${p.managedUserId}, project ${p.projectId} "${p.projectName}"${p.changeSummary ? `: ${p.changeSummary}` : ""}`
+      );
+    }
+  }
+
+  lines.push(
+    "",
+    `Estimated total: ${formatTokens(plan.totals.estimatedInputTokens, plan.totals.estimatedOutputTokens)}, ${formatCost(plan.totals.estimatedCostUsd)}`,
+    "  (from prompt sizes; lookup tables and quality-gate regenerations not included)"
+  );
+  if (plan.semanticAnalysisUsage && plan.semanticAnalysisUsage.calls > 0) {
+    const usage = plan.semanticAnalysisUsage;
+    lines.push(
+      `Semantic analysis for this plan: ${usage.calls} call(s), ${usage.tokens.toLocaleString("en-US")} tokens, ${formatCost(usage.costUsd)}`
+    );
+  }
+  if (plan.errors.length > 0) {
+    lines.push("", "Errors:", ...plan.errors.map((e) => `  ${e}`));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,79 @@
+import type { DocumentationResult, QualityResult } from "../ai/ai-client.js";
+import { isNonNegativeInteger, parseEnvNumber } from "../env.js";
+
+export interface QualityGateConfig {
+  /** When false, the first generated doc is accepted without scoring. */
+  enabled: boolean;
+  /** Minimum score (1-5) a doc needs to be published. */
+  minScore: number;
+  /** Extra generation attempts after the first one when the score is too low. */
+  maxRegenerations: number;
+}
+
+export function qualityGateConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): QualityGateConfig {
+  return {
+    enabled: env.QUALITY_GATE_ENABLED !== "false",
+    minScore: parseEnvNumber(
+      env.QUALITY_MIN_SCORE,
+      "QUALITY_MIN_SCORE",
+      3,
+      (n) => Number.isFinite(n) && n >= 1 && n <= 5,
+      "a number from 1 to 5"
+    ),
+    maxRegenerations: parseEnvNumber(
+      env.QUALITY_MAX_REGENERATIONS,
+      "QUALITY_MAX_REGENERATIONS",
+      1,
+      isNonNegativeInteger,
+      "a non-negative integer"
+    ),
+  };
+}
+
+export interface QualityGateResult {
+  doc: DocumentationResult;
+  quality: QualityResult | null;
+  attempts: number;
+  /** False when the best doc stayed under `minScore` and must be held for review. */
+  passed: boolean;
+}
+
+/**
+ * Generate a doc, score it and regenerate with the assessor's feedback until it
+ * reaches `minScore` or the regeneration budget runs out. The best-scoring
+ * attempt is returned either way so callers can persist it for review.
+ */
+export async function generateWithQualityGate(
+  generate: (feedback?: QualityResult) => Promise<DocumentationResult>,
+  assess: (doc: DocumentationResult) => Promise<QualityResult>,
+  config: QualityGateConfig
+): Promise<QualityGateResult> {
+  const first = await generate();
+  if (!config.enabled) {
+    return { doc: first, quality: null, attempts: 1, passed: true };
+  }
+
+  let best = { doc: first, quality: await assess(first) };
+  let attempts = 1;
+
+  while (
+    best.quality.score < config.minScore &&
+    attempts <= config.maxRegenerations
+  ) {
+    const doc = await generate(best.quality);
+    const quality = await assess(doc);
+    attempts++;
+    if (quality.score >= best.quality.score) {
+      best = { doc, quality };
+    }
+  }
+
+  return {
+    doc: best.doc,
+    quality: best.quality,
+    attempts,
+    passed: best.quality.score >= config.minScore,
+  };
+}
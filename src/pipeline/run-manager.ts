@@ -0,0 +1,108 @@
+import type { Logger } from "pino";
+import { logger } from "../logger.js";
+import {
+  SHUTDOWN_ABORT_REASON,
+  runDocumentationPipeline,
+} from "./orchestrator.js";
+import type { DocMode } from "./orchestrator.js";
+
+export type RunTrigger = "schedule" | "api" | "cli";
+
+/** The pipeline run currently in progress; at most one runs at a time. */
+export interface ActiveRun {
+  /** `sync_runs` ID, known once the pipeline has recorded the run. */
+  runId: number | null;
+  trigger: RunTrigger;
+  customerId?: string;
+  force: boolean;
+  startedAt: string;
+  controller: AbortController;
+  promise: Promise<void>;
+}
+
+export interface StartRunOptions {
+  trigger: RunTrigger;
+  customerId?: string;
+  force?: boolean;
+  mode?: DocMode;
+  /** Resume this unfinished `sync_runs` row instead of starting a new run. */
+  resumeRunId?: number;
+  logger?: Logger;
+}
+
+let activeRun: ActiveRun | null = null;
+let draining = false;
+
+export function getActiveRun(): ActiveRun | null {
+  return activeRun;
+}
+
+/**
+ * Start a pipeline run in the background. Returns null when another run is
+ * still in progress or the process is shutting down. The returned promise never rejects; failures are logged
+ * and recorded on the run's `sync_runs` row by the pipeline.
+ */
+export function startPipelineRun(options: StartRunOptions): ActiveRun | null {
+  if (activeRun || draining) return null;
+
+  const correlationId = `run-${Date.now()}`;
+  const log = (options.logger ?? logger).child({
+    correlationId,
+    trigger: options.trigger,
+  });
+  const controller = new AbortController();
+  const run: ActiveRun = {
+    runId: options.resumeRunId ?? null,
+    trigger: options.trigger,
+    customerId: options.customerId,
+    force: options.force ?? false,
+    startedAt: new Date().toISOString(),
+    controller,
+    promise: Promise.resolve(),
+  };
+  activeRun = run;
+
+  run.promise = (async () => {
+    try {
+      log.info("Starting documentation pipeline run");
+      await runDocumentationPipeline(options.customerId, options.force, log, {
+        mode: options.mode,
+        resumeRunId: options.resumeRunId,
+        signal: controller.signal,
+        onRunStarted: (runId) => {
+          run.runId = runId;
+        },
+      });
+      log.info("Pipeline completed successfully");
+    } catch (err) {
+      log.error({ err }, "Pipeline failed");
+    } finally {
+      activeRun = null;
+    }
+  })();
+
+  return run;
+}
+
+/**
+ * Ask the active run to stop after the project it is working on. Returns
+ * false when no run is active or `runId` names a different run.
+ */
+export function cancelActiveRun(runId?: number): boolean {
+  if (!activeRun) return false;
+  if (runId !== undefined && activeRun.runId !== runId) return false;
+  activeRun.controller.abort();
+  return true;
+}
+
+/**
+ * Stop starting runs and interrupt the active one after its in-flight
+ * projects. Resolves once it has recorded its stats and closed storage.
+ */
+export async function drainActiveRun(): Promise<void> {
+  draining = true;
+  const run = activeRun;
+  if (!run) return;
+  run.controller.abort(SHUTDOWN_ABORT_REASON);
+  await run.promise;
+}
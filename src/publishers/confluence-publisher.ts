@@ -0,0 +1,231 @@
+import axios, { AxiosInstance } from "axios";
+import type { Storage } from "../storage/storage.js";
+import type {
+  Publisher,
+  Documentation,
+  DocumentationRef,
+  PublishMetadata,
+} from "./publisher.js";
+import { escapeHtml } from "./html.js";
+import { toConfluenceStorageFormat } from "./confluence-storage-format.js";
+
+/** Where a customer's pages live: a space, optionally below a parent page. */
+export interface ConfluenceTarget {
+  spaceKey: string;
+  parentPageId?: string;
+}
+
+/** Remembers the page created for each doc so re-runs update it in place. */
+export interface ConfluencePageStore {
+  get(refKey: string): string | null;
+  set(refKey: string, pageId: string): void;
+  delete(refKey: string): void;
+}
+
+export interface ConfluencePublisherConfig {
+  /** Confluence base URL including the context path, e.g. https://acme.atlassian.net/wiki */
+  baseUrl: string;
+  /** Account email for Cloud basic auth; omit to send `apiToken` as a bearer PAT. */
+  email?: string;
+  apiToken: string;
+  /** Default target for customers without an entry in `customerTargets`. */
+  spaceKey: string;
+  parentPageId?: string;
+  /**
+   * Per-customer targets keyed by managed user ID. Confluence titles are
+   * unique per space, so customers sharing a space need distinct project and
+   * recipe names.
+   */
+  customerTargets?: Record<string, ConfluenceTarget>;
+  pageStore: ConfluencePageStore;
+  timeoutMs?: number;
+}
+
+interface ConfluencePage {
+  id: string;
+  title: string;
+  version?: { number: number };
+}
+
+class ConfluenceApiError extends Error {
+  constructor(
+    readonly status: number | undefined,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Page store backed by the `publisher_refs` table, keyed by the publisher's
+ * registry name so two Confluence publishers never share page IDs.
+ */
+export function createConfluencePageStore(
+  storage: Storage,
+  publisherName: string
+): ConfluencePageStore {
+  return {
+    get(refKey) {
+      return storage.getPublisherRef(publisherName, refKey)?.external_id ?? null;
+    },
+    set(refKey, pageId) {
+      storage.upsertPublisherRef({
+        publisher: publisherName,
+        ref_key: refKey,
+        external_id: pageId,
+        updated_at: new Date().toISOString(),
+      });
+    },
+    delete(refKey) {
+      storage.deletePublisherRef(publisherName, refKey);
+    },
+  };
+}
+
+function projectRefKey(managedUserId: string, projectKey: string | number): string {
+  return `${managedUserId}:project:${projectKey}`;
+}
+
+function docRefKey(doc: DocumentationRef, metadata: PublishMetadata): string {
+  if (!metadata.isProjectDoc && doc.recipeId != null) {
+    return `${doc.managedUserId}:recipe:${doc.recipeId}`;
+  }
+  return projectRefKey(
+    doc.managedUserId,
+    doc.projectId ?? metadata.projectSlug ?? "default"
+  );
+}
+
+function pageTitle(doc: DocumentationRef, metadata: PublishMetadata): string {
+  if (!metadata.isProjectDoc && doc.recipeId != null) {
+    return metadata.recipeName ?? `Recipe ${doc.recipeId}`;
+  }
+  return metadata.projectName ?? metadata.projectSlug ?? "Documentation";
+}
+
+function recipeLinksHtml(metadata: PublishMetadata): string {
+  if (!metadata.recipeLinks?.length) return "";
+  const items = metadata.recipeLinks
+    .map(
+      (l) =>
+        `<li><ac:link><ri:page ri:content-title="${escapeHtml(l.recipeName)}" /></ac:link></li>`
+    )
+    .join("");
+  return `<h2>Workflow Documentation</h2><ul>${items}</ul>`;
+}
+
+export function createConfluencePublisher(
+  config: ConfluencePublisherConfig
+): Publisher {
+  const http: AxiosInstance = axios.create({
+    baseURL: config.baseUrl.replace(/\/$/, ""),
+    headers: {
+      Authorization: config.email
+        ? `Basic ${Buffer.from(`${config.email}:${config.apiToken}`).toString("base64")}`
+        : `Bearer ${config.apiToken}`,
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    timeout: config.timeoutMs ?? 30000,
+  });
+
+  async function request<T>(
+    method: string,
+    url: string,
+    options: { params?: Record<string, unknown>; data?: unknown } = {}
+  ): Promise<T> {
+    try {
+      const response = await http.request<T>({ method, url, ...options });
+      return response.data;
+    } catch (err) {
+      if (!axios.isAxiosError(err)) throw err;
+      const status = err.response?.status;
+      const data = err.response?.data as { message?: string } | undefined;
+      const wrapped = new ConfluenceApiError(
+        status,
+        `Confluence API error (${status ?? "network"}): ${data?.message ?? err.message}`
+      );
+      wrapped.cause = err;
+      throw wrapped;
+    }
+  }
+
+  async function getPage(pageId: string): Promise<ConfluencePage | null> {
+    try {
+      return await request<ConfluencePage>("GET", `/rest/api/content/${pageId}`, {
+        params: { expand: "version" },
+      });
+    } catch (err) {
+      // Page deleted in Confluence since we stored its ID – recreate it.
+      if (err instanceof ConfluenceApiError && err.status === 404) return null;
+      throw err;
+    }
+  }
+
+  function targetFor(managedUserId: string): ConfluenceTarget {
+    return (
+      config.customerTargets?.[managedUserId] ?? {
+        spaceKey: config.spaceKey,
+        parentPageId: config.parentPageId,
+      }
+    );
+  }
+
+  return {
+    async publish(doc, metadata) {
+      const target = targetFor(doc.managedUserId);
+      const refKey = docRefKey(doc, metadata);
+      const title = pageTitle(doc, metadata);
+      const value =
+        toConfluenceStorageFormat(doc.contentHtml) + recipeLinksHtml(metadata);
+
+      // Recipe pages nest below their project page once it exists.
+      const projectPageId =
+        !metadata.isProjectDoc && doc.projectId != null
+          ? config.pageStore.get(projectRefKey(doc.managedUserId, doc.projectId))
+          : null;
+      const parentId = projectPageId ?? target.parentPageId;
+
+      // Only pages this publisher created are updated: customers may share a
+      // space, so a page found by title could belong to someone else.
+      const storedId = config.pageStore.get(refKey);
+      const existing = storedId ? await getPage(storedId) : null;
+
+      const body = {
+        type: "page",
+        title,
+        space: { key: target.spaceKey },
+        ancestors: parentId ? [{ id: parentId }] : undefined,
+        body: { storage: { value, representation: "storage" } },
+      };
+
+      const page = existing
+        ? await request<ConfluencePage>("PUT", `/rest/api/content/${existing.id}`, {
+            data: {
+              ...body,
+              id: existing.id,
+              version: { number: (existing.version?.number ?? 1) + 1 },
+            },
+          })
+        : await request<ConfluencePage>("POST", "/rest/api/content", {
+            data: body,
+          });
+
+      config.pageStore.set(refKey, page.id);
+    },
+
+    /**
+     * Deletes the page, which moves it to the space trash. Pages without a
+     * stored ID are left alone.
+     */
+    async archive(doc, metadata) {
+      const refKey = docRefKey(doc, metadata);
+      const storedId = config.pageStore.get(refKey);
+      const page = storedId ? await getPage(storedId) : null;
+      if (page) {
+        await request("DELETE", `/rest/api/content/${page.id}`);
+      }
+      config.pageStore.delete(refKey);
+    },
+  };
+}
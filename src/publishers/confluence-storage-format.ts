@@ -0,0 +1,99 @@
+import { sanitizeHtml } from "./html.js";
+
+/** HTML void elements; Confluence storage format is XHTML, so they must self-close. */
+const VOID_ELEMENTS = [
+  "area",
+  "base",
+  "br",
+  "col",
+  "hr",
+  "img",
+  "input",
+  "meta",
+  "source",
+  "wbr",
+];
+
+/** Entities valid in XML; every other named entity must become numeric. */
+const XML_ENTITIES = new Set(["amp", "lt", "gt", "quot", "apos"]);
+
+const NAMED_ENTITY_CODES: Record<string, number> = {
+  nbsp: 160,
+  copy: 169,
+  reg: 174,
+  trade: 8482,
+  ndash: 8211,
+  mdash: 8212,
+  lsquo: 8216,
+  rsquo: 8217,
+  ldquo: 8220,
+  rdquo: 8221,
+  hellip: 8230,
+  bull: 8226,
+  rarr: 8594,
+  larr: 8592,
+  check: 10003,
+  cross: 10007,
+};
+
+function decodeXmlEntities(s: string): string {
+  return s
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Wrap text in CDATA, splitting any `]]>` so it cannot terminate the section early. */
+function cdata(s: string): string {
+  return `<![CDATA[${s.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function codeMacro(code: string, language: string | undefined): string {
+  const languageParam = language
+    ? `<ac:parameter ac:name="language">${language}</ac:parameter>`
+    : "";
+  return (
+    `<ac:structured-macro ac:name="code">${languageParam}` +
+    `<ac:plain-text-body>${cdata(code)}</ac:plain-text-body>` +
+    `</ac:structured-macro>`
+  );
+}
+
+/**
+ * Convert rendered doc HTML (from marked) into Confluence storage format:
+ * strip dangerous markup, turn fenced code blocks into the code macro,
+ * self-close void elements and replace HTML-only entities with numeric ones.
+ */
+export function toConfluenceStorageFormat(html: string): string {
+  let out = sanitizeHtml(html);
+
+  out = out.replace(
+    /<pre><code(?:\s+class="language-([\w-]+)")?>([\s\S]*?)<\/code><\/pre>/gi,
+    (_match, language: string | undefined, code: string) =>
+      codeMacro(decodeXmlEntities(code).replace(/\n$/, ""), language)
+  );
+
+  const voidPattern = new RegExp(
+    `<(${VOID_ELEMENTS.join("|")})\\b([^>]*?)\\s*\\/?>`,
+    "gi"
+  );
+  out = out.replace(voidPattern, (_match, tag: string, attrs: string) =>
+    `<${tag.toLowerCase()}${attrs} />`
+  );
+
+  // Leave CDATA sections alone; entities there are literal text.
+  return out
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith("<![CDATA[")
+        ? part
+        : part.replace(/&([a-zA-Z][a-zA-Z0-9]*);/g, (entity, name: string) => {
+            if (XML_ENTITIES.has(name)) return entity;
+            const code = NAMED_ENTITY_CODES[name];
+            return code !== undefined ? `&#${code};` : `&amp;${name};`;
+          })
+    )
+    .join("");
+}
@@ -1,6 +1,12 @@
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, rm, writeFile } from "fs/promises";
 import { join } from "path";
-import type { Publisher, Documentation, PublishMetadata } from "./publisher.js";
+import type {
+  Publisher,
+  Documentation,
+  DocumentationRef,
+  PublishMetadata,
+} from "./publisher.js";
+import { escapeHtml, sanitizeHtml } from "./html.js";
 
 export interface FileSystemPublisherConfig {
   outputDir: string;
@@ -11,18 +17,58 @@ export function createFileSystemPublisher(
 ): Publisher {
   const outputDir = config.outputDir ?? "output";
 
+  const docDir = (doc: DocumentationRef, metadata: PublishMetadata) => {
+    const pathParts = [outputDir, doc.managedUserId];
+    if (metadata.projectSlug) {
+      pathParts.push(metadata.projectSlug);
+    }
+    if (!metadata.isProjectDoc && doc.recipeId != null) {
+      pathParts.push(String(doc.recipeId));
+    }
+    return join(...pathParts);
+  };
+
+  /** Deletes the doc's directory, including recipe docs below a project doc. */
+  const removeDoc = async (doc: DocumentationRef, metadata: PublishMetadata) => {
+    const dir = docDir(doc, metadata);
+    if (metadata.isProjectDoc && !metadata.projectSlug) {
+      // Written straight into the customer directory: remove only its files.
+      await rm(join(dir, "README.md"), { force: true });
+      await rm(join(dir, "index.html"), { force: true });
+      return;
+    }
+    await rm(dir, { recursive: true, force: true });
+  };
+
   return {
     async publish(doc, metadata) {
-      const pathParts = [outputDir, doc.managedUserId];
-      if (metadata.projectSlug) {
-        pathParts.push(metadata.projectSlug);
-      }
-      if (!metadata.isProjectDoc && doc.recipeId != null) {
-        pathParts.push(String(doc.recipeId));
-      }
-      const dir = join(...pathParts);
+      const dir = docDir(doc, metadata);
       await mkdir(dir, { recursive: true });
 
+      let contentMd = doc.contentMd;
+      let contentHtml = sanitizeHtml(doc.contentHtml);
+      if (metadata.recipeLinks?.length) {
+        // Recipe docs live in {recipeId}/ below the project doc's directory.
+        contentMd +=
+          "\n\n## Workflow Documentation\n\n" +
+          metadata.recipeLinks
+            .map(
+              (l) =>
+                `- [${escapeMarkdownLinkText(l.recipeName)}](./${l.recipeId}/README.md)`
+            )
+            .join("\n") +
+          "\n";
+        contentHtml +=
+          "\n<h2>Workflow Documentation</h2>\n<ul>\n" +
+          metadata.recipeLinks
+            .map(
+              (l) =>
+                `  <li><a href="./${l.recipeId}/index.html">${escapeHtml(l.recipeName)}</a></li>`
+            )
+            .join("\n") +
+          "\n</ul>";
+      }
+
       const mdPath = join(dir, "README.md");
       const htmlPath = join(dir, "index.html");
 
@@ -40,36 +86,26 @@ export function createFileSystemPublisher(
   </style>
 </head>
 <body>
-${sanitizeHtml(doc.contentHtml)}
+${contentHtml}
 </body>
 </html>`;
 
-      await writeFile(mdPath, doc.contentMd, "utf-8");
+      await writeFile(mdPath, contentMd, "utf-8");
       await writeFile(htmlPath, htmlFull, "utf-8");
+
+      // The project was renamed: take down the copy under the old slug.
+      if (
+        metadata.previousProjectSlug &&
+        metadata.previousProjectSlug !== metadata.projectSlug
+      ) {
+        await removeDoc(doc, { ...metadata, projectSlug: metadata.previousProjectSlug });
+      }
     },
-  };
-}
 
-function escapeHtml(s: string): string {
-  return s
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;");
+    archive: removeDoc,
+  };
 }
 
-/**
- * Strip dangerous HTML tags from AI-generated content.
- * Allows standard content tags but removes script, iframe, object, embed, etc.
- */
-function sanitizeHtml(html: string): string {
-  return html
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
-    .replace(/<iframe\b[^>]*>.*?<\/iframe>/gi, "")
-    .replace(/<object\b[^>]*>.*?<\/object>/gi, "")
-    .replace(/<embed\b[^>]*\/?>/gi, "")
-    .replace(/<link\b[^>]*>/gi, "")
-    .replace(/\bon\w+\s*=\s*"[^"]*"/gi, "")
-    .replace(/\bon\w+\s*=\s*'[^']*'/gi, "")
-    .replace(/javascript\s*:/gi, "");
+function escapeMarkdownLinkText(s: string): string {
+  return s.replace(/[[\]]/g, "\\$&");
 }
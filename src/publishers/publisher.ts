@@ -11,9 +11,28 @@ export interface PublishMetadata {
   recipeName?: string;
   projectName?: string;
   projectSlug?: string;
+  /**
+   * Slug the doc was last published under, when the project was renamed
+   * since. Publishers that place docs by slug remove that copy.
+   */
+  previousProjectSlug?: string;
   isProjectDoc?: boolean;
+  /** Per-recipe docs published alongside a project doc, for linking. */
+  recipeLinks?: Array<{ recipeId: number; recipeName: string }>;
 }
 
+/** Identifies a published doc without its content. */
+export type DocumentationRef = Pick<
+  Documentation,
+  "managedUserId" | "projectId" | "recipeId"
+>;
+
 export interface Publisher {
   publish(doc: Documentation, metadata: PublishMetadata): Promise<void>;
+  /**
+   * Archive or delete what `publish` created for a doc whose project or recipe
+   * was removed in Workato. `metadata` is what the doc was last published
+   * with. Publishers without it leave such docs in place.
+   */
+  archive?(doc: DocumentationRef, metadata: PublishMetadata): Promise<void>;
 }
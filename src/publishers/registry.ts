@@ -0,0 +1,348 @@
+import { readFile } from "fs/promises";
+import { dirname, isAbsolute, resolve } from "path";
+import { pathToFileURL } from "url";
+import { parse as parseYaml } from "yaml";
+import type { Logger } from "pino";
+import type { Storage } from "../storage/storage.js";
+import type { Publisher } from "./publisher.js";
+import { createFileSystemPublisher } from "./filesystem-publisher.js";
+import type { FileSystemPublisherConfig } from "./filesystem-publisher.js";
+import {
+  createConfluencePageStore,
+  createConfluencePublisher,
+} from "./confluence-publisher.js";
+import type { ConfluencePublisherConfig } from "./confluence-publisher.js";
+import { createWebhookPublisher } from "./webhook-publisher.js";
+import type { WebhookPublisherConfig } from "./webhook-publisher.js";
+
+/** Dependencies handed to every publisher factory, built-in or plugin. */
+export interface PublisherFactoryContext {
+  storage: Storage;
+  logger: Logger;
+  /** The entry's name; key anything the publisher stores by it. */
+  name: string;
+}
+
+/**
+ * A publisher factory. Plugin modules export one as `createPublisher` (or as
+ * their default export); `options` is the entry's `options` from the config.
+ */
+export type PublisherFactory = (
+  options: Record<string, unknown>,
+  context: PublisherFactoryContext
+) => Publisher | Promise<Publisher>;
+
+export interface PublisherConfigEntry {
+  name: string;
+  /** Built-in publisher type; mutually exclusive with `module`. */
+  type?: string;
+  /** Path to a plugin module, relative to the config file. */
+  module?: string;
+  options?: Record<string, unknown>;
+}
+
+export interface PublisherRoutingRule {
+  /** Managed user IDs or external IDs this rule applies to. */
+  customers: string[];
+  publishers: string[];
+}
+
+export interface PublishersConfig {
+  publishers: PublisherConfigEntry[];
+  routing?: {
+    /** Publishers for customers no rule matches; defaults to all publishers. */
+    default?: string[];
+    rules?: PublisherRoutingRule[];
+  };
+}
+
+export interface NamedPublisher {
+  name: string;
+  publisher: Publisher;
+}
+
+export interface PublisherRegistry {
+  /** Publishers that receive docs for a customer; the first matching rule wins. */
+  forCustomer(managedUserId: string, externalId?: string | null): NamedPublisher[];
+  names(): string[];
+}
+
+const BUILT_IN_FACTORIES: Record<string, PublisherFactory> = {
+  filesystem: (options) =>
+    createFileSystemPublisher({
+      outputDir: "output",
+      ...options,
+    } as FileSystemPublisherConfig),
+  confluence: (options, { storage, name }) =>
+    createConfluencePublisher({
+      ...options,
+      pageStore: createConfluencePageStore(storage, name),
+    } as ConfluencePublisherConfig),
+  webhook: (options) => createWebhookPublisher(webhookConfig(options)),
+};
+
+/** Options each built-in type cannot work without; checked when the config loads. */
+const REQUIRED_OPTIONS: Record<string, string[]> = {
+  filesystem: [],
+  confluence: ["baseUrl", "spaceKey"],
+  webhook: ["url"],
+};
+
+function optionalNumber(options: Record<string, unknown>, key: string): number | undefined {
+  const value = options[key];
+  if (value == null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(`webhook publisher option "${key}" must be a non-negative number`);
+  }
+  return value;
+}
+
+/** Webhook config built from checked options, which come from the user's config file. */
+function webhookConfig(options: Record<string, unknown>): WebhookPublisherConfig {
+  const { url, secret, headers } = options;
+  if (typeof url !== "string" || url === "") {
+    throw new Error('webhook publisher option "url" must be a non-empty string');
+  }
+  if (secret != null && typeof secret !== "string") {
+    throw new Error('webhook publisher option "secret" must be a string');
+  }
+  if (
+    headers != null &&
+    (typeof headers !== "object" ||
+      Array.isArray(headers) ||
+      Object.values(headers).some((v) => typeof v !== "string"))
+  ) {
+    throw new Error(
+      'webhook publisher option "headers" must be a mapping of header names to strings'
+    );
+  }
+  return {
+    url,
+    secret: secret ?? undefined,
+    headers: (headers as Record<string, string> | null) ?? undefined,
+    maxRetries: optionalNumber(options, "maxRetries"),
+    retryBaseDelayMs: optionalNumber(options, "retryBaseDelayMs"),
+    timeoutMs: optionalNumber(options, "timeoutMs"),
+  };
+}
+
+/**
+ * Replace `${VAR}` references in string values with environment variables,
+ * so secrets can stay out of the config file.
+ */
+function interpolateEnv(value: unknown, path: string): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => {
+      const env = process.env[name];
+      if (env === undefined) {
+        throw new Error(`${path}: environment variable ${name} is not set`);
+      }
+      return env;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((v, i) => interpolateEnv(v, `${path}[${i}]`));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, interpolateEnv(v, `${path}.${k}`)])
+    );
+  }
+  return value;
+}
+
+/** Parse and validate a publishers config (YAML or JSON; JSON is valid YAML). */
+export function parsePublishersConfig(text: string, source: string): PublishersConfig {
+  const raw = parseYaml(text) as Partial<PublishersConfig> | null;
+  if (!raw || !Array.isArray(raw.publishers) || raw.publishers.length === 0) {
+    throw new Error(`${source}: "publishers" must be a non-empty list`);
+  }
+
+  const names = new Set<string>();
+  for (const [i, entry] of raw.publishers.entries()) {
+    if (!entry?.name) {
+      throw new Error(`${source}: publishers[${i}] is missing "name"`);
+    }
+    if (names.has(entry.name)) {
+      throw new Error(`${source}: duplicate publisher name "${entry.name}"`);
+    }
+    names.add(entry.name);
+    if (!entry.type === !entry.module) {
+      throw new Error(
+        `${source}: publisher "${entry.name}" needs exactly one of "type" or "module"`
+      );
+    }
+    if (entry.type && !BUILT_IN_FACTORIES[entry.type]) {
+      throw new Error(
+        `${source}: publisher "${entry.name}" has unknown type "${entry.type}". ` +
+          `Built-in types: ${Object.keys(BUILT_IN_FACTORIES).join(", ")}`
+      );
+    }
+    const { options } = entry;
+    if (options != null && (typeof options !== "object" || Array.isArray(options))) {
+      throw new Error(`${source}: publisher "${entry.name}" options must be a mapping`);
+    }
+    for (const option of entry.type ? REQUIRED_OPTIONS[entry.type] : []) {
+      const value = options?.[option];
+      if (typeof value !== "string" || value === "") {
+        throw new Error(
+          `${source}: ${entry.type} publisher "${entry.name}" requires option "${option}"`
+        );
+      }
+    }
+  }
+
+  if (raw.routing?.rules !== undefined && !Array.isArray(raw.routing.rules)) {
+    throw new Error(`${source}: routing.rules must be a list`);
+  }
+  for (const [i, rule] of (raw.routing?.rules ?? []).entries()) {
+    if (!Array.isArray(rule?.customers) || rule.customers.length === 0) {
+      throw new Error(`${source}: routing.rules[${i}] needs a non-empty "customers" list`);
+    }
+    if (!Array.isArray(rule.publishers)) {
+      throw new Error(`${source}: routing.rules[${i}] needs a "publishers" list`);
+    }
+    // Unquoted YAML IDs parse as numbers; customers are matched as strings.
+    rule.customers = rule.customers.map(String);
+  }
+
+  const routes = [
+    ...(raw.routing?.default ? [raw.routing.default] : []),
+    ...(raw.routing?.rules ?? []).map((r) => r.publishers),
+  ];
+  for (const route of routes) {
+    for (const name of route ?? []) {
+      if (!names.has(name)) {
+        throw new Error(`${source}: routing refers to unknown publisher "${name}"`);
+      }
+    }
+  }
+
+  return raw as PublishersConfig;
+}
+
+async function loadPluginFactory(
+  modulePath: string,
+  baseDir: string
+): Promise<PublisherFactory> {
+  const resolved = isAbsolute(modulePath) ? modulePath : resolve(baseDir, modulePath);
+  const mod = (await import(pathToFileURL(resolved).href)) as {
+    createPublisher?: PublisherFactory;
+    default?: PublisherFactory;
+  };
+  const factory = mod.createPublisher ?? mod.default;
+  if (typeof factory !== "function") {
+    throw new Error(
+      `Publisher module ${resolved} must export a "createPublisher" function or a default function`
+    );
+  }
+  return factory;
+}
+
+/** Build a registry from an already-parsed config. */
+export async function createPublisherRegistry(
+  config: PublishersConfig,
+  context: Omit<PublisherFactoryContext, "name">,
+  baseDir: string = process.cwd()
+): Promise<PublisherRegistry> {
+  const publishers = new Map<string, Publisher>();
+  for (const entry of config.publishers) {
+    const factory = entry.type
+      ? BUILT_IN_FACTORIES[entry.type]
+      : await loadPluginFactory(entry.module!, baseDir);
+    const options = interpolateEnv(
+      entry.options ?? {},
+      `publisher "${entry.name}" options`
+    ) as Record<string, unknown>;
+    try {
+      publishers.set(entry.name, await factory(options, { ...context, name: entry.name }));
+    } catch (err) {
+      const wrapped = new Error(
+        `Publisher "${entry.name}": ${err instanceof Error ? err.message : String(err)}`
+      );
+      wrapped.cause = err;
+      throw wrapped;
+    }
+  }
+
+  const defaultNames = config.routing?.default ?? [...publishers.keys()];
+  const rules = config.routing?.rules ?? [];
+
+  return {
+    forCustomer(managedUserId, externalId) {
+      const rule = rules.find(
+        (r) =>
+          r.customers.includes(managedUserId) ||
+          (externalId != null && r.customers.includes(externalId))
+      );
+      return (rule?.publishers ?? defaultNames).map((name) => ({
+        name,
+        publisher: publishers.get(name)!,
+      }));
+    },
+    names() {
+      return [...publishers.keys()];
+    },
+  };
+}
+
+/** Read a publishers config file and build its registry. */
+export async function loadPublisherRegistry(
+  path: string,
+  context: Omit<PublisherFactoryContext, "name">
+): Promise<PublisherRegistry> {
+  const text = await readFile(path, "utf-8");
+  const config = parsePublishersConfig(text, path);
+  return createPublisherRegistry(config, context, dirname(resolve(path)));
+}
+
+/**
+ * Config equivalent to the env-only setup used when no PUBLISHERS_CONFIG file
+ * is given: the filesystem publisher plus Confluence and webhook publishers
+ * when their env vars are set.
+ */
+export function publishersConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): PublishersConfig {
+  const publishers: PublisherConfigEntry[] = [
+    {
+      name: "filesystem",
+      type: "filesystem",
+      options: { outputDir: env.OUTPUT_DIR ?? "output" },
+    },
+  ];
+  if (env.CONFLUENCE_BASE_URL) {
+    if (!env.CONFLUENCE_SPACE_KEY) {
+      throw new Error(
+        "CONFLUENCE_SPACE_KEY is required when CONFLUENCE_BASE_URL is set."
+      );
+    }
+    publishers.push({
+      name: "confluence",
+      type: "confluence",
+      options: {
+        baseUrl: env.CONFLUENCE_BASE_URL,
+        email: env.CONFLUENCE_EMAIL,
+        apiToken: env.CONFLUENCE_API_TOKEN ?? "",
+        spaceKey: env.CONFLUENCE_SPACE_KEY,
+        parentPageId: env.CONFLUENCE_PARENT_PAGE_ID,
+      },
+    });
+  }
+  if (env.WEBHOOK_URL) {
+    let headers: Record<string, string> | undefined;
+    try {
+      headers = env.WEBHOOK_HEADERS
+        ? (JSON.parse(env.WEBHOOK_HEADERS) as Record<string, string>)
+        : undefined;
+    } catch {
+      throw new Error("WEBHOOK_HEADERS must be a JSON object of header names to values.");
+    }
+    publishers.push({
+      name: "webhook",
+      type: "webhook",
+      options: { url: env.WEBHOOK_URL, secret: env.WEBHOOK_SECRET, headers },
+    });
+  }
+  return { publishers };
+}
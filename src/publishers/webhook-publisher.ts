@@ -0,0 +1,163 @@
+import axios, { AxiosInstance } from "axios";
+import { createHash, createHmac } from "crypto";
+import type {
+  Publisher,
+  Documentation,
+  DocumentationRef,
+  PublishMetadata,
+} from "./publisher.js";
+
+export interface WebhookPublisherConfig {
+  url: string;
+  /** Shared secret for the HMAC-SHA256 signature; unsigned when omitted. */
+  secret?: string;
+  /** Extra headers sent with every request (e.g. an API key for the receiver). */
+  headers?: Record<string, string>;
+  maxRetries?: number;
+  /** First retry delay; doubles on each further attempt. */
+  retryBaseDelayMs?: number;
+  timeoutMs?: number;
+}
+
+export interface WebhookPayload {
+  event: "publish";
+  doc: Documentation;
+  metadata: PublishMetadata;
+  contentHash: string;
+  sentAt: string;
+}
+
+/** Sent when a doc's project or recipe was removed in Workato. */
+export interface WebhookArchivePayload {
+  event: "archive";
+  doc: DocumentationRef;
+  /** What the doc was last published with. */
+  metadata: PublishMetadata;
+  sentAt: string;
+}
+
+/**
+ * Hash of what the receiver would store: same doc content for the same target
+ * yields the same key, so retried or repeated deliveries can be deduplicated.
+ */
+export function computeIdempotencyKey(doc: Documentation): string {
+  const payload = JSON.stringify({
+    managedUserId: doc.managedUserId,
+    projectId: doc.projectId ?? null,
+    recipeId: doc.recipeId ?? null,
+    contentMd: doc.contentMd,
+    contentHtml: doc.contentHtml,
+  });
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+/** Same key for every archive request for the same doc. */
+function computeArchiveKey(doc: DocumentationRef): string {
+  const payload = JSON.stringify({
+    event: "archive",
+    managedUserId: doc.managedUserId,
+    projectId: doc.projectId ?? null,
+    recipeId: doc.recipeId ?? null,
+  });
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+/**
+ * Signature over `${timestamp}.${body}`, so receivers can reject both tampered
+ * and replayed requests.
+ */
+export function signWebhookBody(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+export function createWebhookPublisher(
+  config: WebhookPublisherConfig
+): Publisher {
+  const maxRetries = config.maxRetries ?? 3;
+  const baseDelay = config.retryBaseDelayMs ?? 1000;
+  const http: AxiosInstance = axios.create({
+    timeout: config.timeoutMs ?? 30000,
+  });
+
+  async function send(body: string, idempotencyKey: string): Promise<void> {
+    let lastErr: Error | null = null;
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // Re-sign on every attempt so the timestamp stays fresh.
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const headers: Record<string, string> = {
+        ...config.headers,
+        "Content-Type": "application/json",
+        "Idempotency-Key": idempotencyKey,
+        "X-Webhook-Timestamp": timestamp,
+      };
+      if (config.secret) {
+        headers["X-Webhook-Signature"] = signWebhookBody(
+          config.secret,
+          timestamp,
+          body
+        );
+      }
+
+      try {
+        await http.post(config.url, body, { headers });
+        return;
+      } catch (err) {
+        lastErr = err instanceof Error ? err : new Error(String(err));
+        if (!axios.isAxiosError(err)) throw lastErr;
+
+        const status = err.response?.status;
+        const isRetryable =
+          !err.response ||
+          (status != null && status >= 500) ||
+          status === 429;
+
+        if (!isRetryable || attempt >= maxRetries) {
+          const wrapped = new Error(
+            `Webhook error (${status ?? "network"}): ${err.message}`
+          );
+          wrapped.cause = err;
+          throw wrapped;
+        }
+
+        let delay = Math.min(baseDelay * Math.pow(2, attempt), 30000);
+        const retryAfter = Number(err.response?.headers?.["retry-after"]);
+        if (status === 429 && retryAfter > 0) {
+          delay = Math.min(retryAfter * 1000, 60000);
+        }
+        await new Promise((r) => setTimeout(r, delay));
+      }
+    }
+    throw lastErr ?? new Error("Webhook delivery failed");
+  }
+
+  return {
+    async publish(doc, metadata) {
+      const contentHash = computeIdempotencyKey(doc);
+      const payload: WebhookPayload = {
+        event: "publish",
+        doc,
+        metadata,
+        contentHash,
+        sentAt: new Date().toISOString(),
+      };
+      await send(JSON.stringify(payload), contentHash);
+    },
+
+    async archive(doc, metadata) {
+      const payload: WebhookArchivePayload = {
+        event: "archive",
+        doc,
+        metadata,
+        sentAt: new Date().toISOString(),
+      };
+      await send(JSON.stringify(payload), computeArchiveKey(doc));
+    },
+  };
+}
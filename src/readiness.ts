@@ -0,0 +1,119 @@
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import type { Storage } from "./storage/storage.js";
+import { parseRunTimestamp } from "./rules/run-tracker.js";
+
+/** What the check reads; it never writes or migrates the database. */
+export type ReadinessStorage = Pick<Storage, "getSchemaProblems" | "listSyncRuns" | "close">;
+
+export interface ReadinessConfig {
+  /** Opens storage read-only for the check; it is closed afterwards. */
+  openStorage: () => ReadinessStorage;
+  /** Directory the filesystem publisher writes to. */
+  outputDir: string;
+  /** Longest expected gap between scheduled runs; null skips the staleness check. */
+  scheduleIntervalMs: number | null;
+  /** How many schedule intervals may pass without a run before we report stale. */
+  maxMissedRuns: number;
+  /** `sync_runs` ID of the run in progress in this process, if any. */
+  activeRunId: () => number | null;
+  now?: () => Date;
+}
+
+export interface LastRunInfo {
+  id: number;
+  startedAt: string;
+  finishedAt: string | null;
+  errorCount: number;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  /** "ok" or a short description of what is wrong, per dependency. */
+  checks: Record<string, string>;
+  lastRun: LastRunInfo | null;
+}
+
+function describeError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function checkOutputDir(outputDir: string): Promise<string> {
+  const probe = join(outputDir, `.ready-${process.pid}-${Date.now()}`);
+  try {
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(probe, "");
+    await rm(probe, { force: true });
+    return "ok";
+  } catch (err) {
+    return `not writable: ${describeError(err)}`;
+  }
+}
+
+/**
+ * Check the dependencies a run needs: the database opens with the current
+ * schema version, the output dir is writable, and the last sync run neither failed
+ * nor is older than `maxMissedRuns` schedule intervals.
+ */
+export async function checkReadiness(
+  config: ReadinessConfig
+): Promise<ReadinessReport> {
+  const checks: Record<string, string> = {};
+  let lastRun: LastRunInfo | null = null;
+
+  let storage: ReadinessStorage | undefined;
+  try {
+    storage = config.openStorage();
+    const problems = storage.getSchemaProblems();
+    checks.database = problems.length
+      ? `schema out of date: ${problems.join(", ")}`
+      : "ok";
+
+    // Runs cannot be read reliably from a schema this build does not expect.
+    const run = problems.length ? undefined : storage.listSyncRuns(1)[0];
+    if (problems.length) {
+      checks.last_run = "unknown: database schema out of date";
+    } else if (!run) {
+      checks.last_run = "ok";
+    } else {
+      const errorCount = run.errors ? run.errors.split("; ").length : 0;
+      lastRun = {
+        id: run.id,
+        startedAt: run.started_at,
+        finishedAt: run.finished_at ?? null,
+        errorCount,
+      };
+
+      const now = (config.now ?? (() => new Date()))().getTime();
+      const maxAgeMs =
+        config.scheduleIntervalMs === null
+          ? null
+          : config.scheduleIntervalMs * config.maxMissedRuns;
+      const ageMs = now - parseRunTimestamp(run.started_at);
+
+      if (!run.finished_at && config.activeRunId() !== run.id) {
+        checks.last_run = "did not finish";
+      } else if (run.status === "interrupted" && config.activeRunId() !== run.id) {
+        checks.last_run = "interrupted";
+      } else if (run.status === "failed") {
+        checks.last_run = `failed with ${errorCount} error(s)`;
+      } else if (maxAgeMs !== null && ageMs > maxAgeMs) {
+        checks.last_run = `stale: started ${Math.round(ageMs / 60000)} minutes ago`;
+      } else {
+        checks.last_run = "ok";
+      }
+    }
+  } catch (err) {
+    checks.database = `unavailable: ${describeError(err)}`;
+  } finally {
+    storage?.close();
+  }
+
+  checks.output_dir = await checkOutputDir(config.outputDir);
+
+  return {
+    ready: Object.values(checks).every((v) => v === "ok"),
+    checks,
+    lastRun,
+  };
+}
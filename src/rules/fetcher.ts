@@ -2,60 +2,209 @@ import type {
   WorkatoClient,
   WorkatoRecipe,
   WorkatoCustomer,
+  WorkatoProject,
 } from "../api/workato-client.js";
 import type { Storage } from "../storage/storage.js";
 import type { Recipe } from "../storage/schema.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { parseRunTimestamp } from "./run-tracker.js";
+import { createInclusionRules } from "./inclusion-rules.js";
+import type {
+  CustomerRules,
+  InclusionDecision,
+  InclusionRules,
+} from "./inclusion-rules.js";
 
 export interface FetchResult {
   customersProcessed: number;
   projectsFetched: number;
   recipesFetched: number;
+  /** Customers whose recipes were fetched without error. */
+  managedUserIds: string[];
   recipes: Array<{ recipe: WorkatoRecipe; managedUserId: string }>;
+  /** What the API returned per customer, for customers not read from storage. */
+  listings: CustomerListing[];
   customerErrors: string[];
 }
 
+/** A customer's projects and root-level recipes as the API returned them. */
+export interface CustomerListing {
+  managedUserId: string;
+  /** Every project in the account. */
+  projects: Array<{ id: number; name: string }>;
+  /** Recipes the customer's inclusion rules include. */
+  activeRecipeIds: number[];
+  /** Recipes they exclude. */
+  excludedRecipeIds: number[];
+  /** Stored projects whose name changed, with the name they had. */
+  renamedProjects: Array<{ id: number; previousName: string }>;
+  /** Stored recipes now listed under a different project. */
+  movedRecipes: Array<{ id: number; previousProjectId: number }>;
+  /**
+   * True when every recipe was listed, not just recently updated ones, so a
+   * stored recipe missing from the listing was deleted or moved.
+   */
+  complete: boolean;
+}
+
+/** A listed recipe and whether the customer's inclusion rules document it. */
+export interface ListedRecipe {
+  recipe: WorkatoRecipe;
+  /** Folder levels below the project folder. */
+  folderDepth: number;
+  decision: InclusionDecision;
+}
+
+/** Customers to process: the given managed user or external IDs, or all. */
+export async function selectCustomers(
+  client: WorkatoClient,
+  customerIds?: string[]
+): Promise<WorkatoCustomer[]> {
+  const all = await client.listAllCustomers();
+  if (!customerIds?.length) return all;
+  return all.filter(
+    (c) =>
+      customerIds.includes(String(c.id)) ||
+      (c.external_id && customerIds.includes(c.external_id))
+  );
+}
+
+/** Depth of each folder below `rootFolderId`, down to `maxDepth`. */
+async function listFolderDepths(
+  client: WorkatoClient,
+  customerId: number,
+  rootFolderId: number,
+  maxDepth: number
+): Promise<Map<number, number>> {
+  const depths = new Map([[rootFolderId, 0]]);
+  let level = [rootFolderId];
+  for (let depth = 1; depth <= maxDepth && level.length > 0; depth++) {
+    const next: number[] = [];
+    for (const parentId of level) {
+      for (const folder of await client.listAllFolders(customerId, parentId)) {
+        depths.set(folder.id, depth);
+        next.push(folder.id);
+      }
+    }
+    level = next;
+  }
+  return depths;
+}
+
+/**
+ * List a project's recipes, including subfolders down to the rule set's
+ * `maxFolderDepth`, and evaluate the rules for each.
+ */
+export async function listProjectRecipes(
+  client: WorkatoClient,
+  customerId: number,
+  project: WorkatoProject,
+  rules: CustomerRules,
+  updatedAfter?: string
+): Promise<ListedRecipe[]> {
+  const depths =
+    rules.maxFolderDepth > 0
+      ? await listFolderDepths(client, customerId, project.folder_id, rules.maxFolderDepth)
+      : new Map([[project.folder_id, 0]]);
+  const recipes = await client.listAllRecipes(customerId, {
+    updatedAfter,
+    folderId: String(project.folder_id),
+    withSubfolders: rules.maxFolderDepth > 0,
+  });
+  return recipes.map((recipe) => {
+    // Folders below maxFolderDepth were not listed, so their depth is unknown.
+    const folderDepth =
+      recipe.folder_id == null ? 0 : depths.get(recipe.folder_id) ?? Infinity;
+    return {
+      recipe,
+      folderDepth,
+      decision: rules.evaluate({
+        recipe,
+        project: { id: project.id, name: project.name },
+        folderDepth,
+      }),
+    };
+  });
+}
+
 export async function fetchAndStoreRecipes(
   client: WorkatoClient,
   storage: Storage,
   options: {
     customerIds?: string[];
+    /** A `sync_runs` timestamp; only recipes updated after it are returned. */
     updatedAfter?: string;
+    /** Customers fetched in parallel, and projects in parallel per customer (default 1). */
+    concurrency?: number;
+    /**
+     * Customers an interrupted run already fetched: their recipes are read
+     * back from storage instead of the API.
+     */
+    resumedCustomers?: ReadonlySet<string>;
+    /** Which recipes are documented; defaults to `[active]` recipes at project root. */
+    inclusionRules?: InclusionRules;
+    /**
+     * False to only list: nothing is written to storage and no customer is
+     * checkpointed (default true).
+     */
+    store?: boolean;
+    /** Once aborted, customers not yet started are skipped. */
+    signal?: AbortSignal;
+    /** Called once a customer's recipes are fetched and stored. */
+    onCustomerFetched?: (managedUserId: string, recipesFetched: number) => void;
   } = {}
 ): Promise<FetchResult> {
-  const customerIds = options.customerIds;
-  let customers: WorkatoCustomer[];
-
-  if (customerIds?.length) {
-    const all = await client.listAllCustomers();
-    customers = all.filter(
-      (c) =>
-        customerIds.includes(String(c.id)) ||
-        (c.external_id && customerIds.includes(c.external_id))
-    );
-  } else {
-    customers = await client.listAllCustomers();
-  }
-
+  const customers = await selectCustomers(client, options.customerIds);
+  const inclusionRules = options.inclusionRules ?? createInclusionRules();
+  const concurrency = options.concurrency ?? 1;
   const recipes: Array<{ recipe: WorkatoRecipe; managedUserId: string }> = [];
   let totalRecipes = 0;
   let totalProjects = 0;
   const customerErrors: string[] = [];
+  const managedUserIds: string[] = [];
+  const listings: CustomerListing[] = [];
+  const store = options.store ?? true;
+
+  const updatedAfterMs = options.updatedAfter
+    ? parseRunTimestamp(options.updatedAfter)
+    : undefined;
+  const loadStoredRecipes = (managedUserId: string): Recipe[] =>
+    storage
+      .getRecipesByCustomer(managedUserId)
+      .filter(
+        (r) =>
+          updatedAfterMs === undefined || Date.parse(r.updated_at) > updatedAfterMs
+      );
 
-  for (const customer of customers) {
+  const fetchCustomer = async (customer: WorkatoCustomer) => {
+    const managedUserId = String(customer.id);
+    if (options.signal?.aborted) {
+      return { managedUserId, skipped: true };
+    }
+    if (options.resumedCustomers?.has(managedUserId)) {
+      return { managedUserId, stored: loadStoredRecipes(managedUserId) };
+    }
     try {
-      const managedUserId = String(customer.id);
-      storage.upsertCustomer({
-        id: customer.id,
-        managed_user_id: managedUserId,
-        external_id: customer.external_id ?? null,
-        name: customer.name,
-        created_at: customer.created_at,
-        updated_at: customer.updated_at,
-      });
+      if (store) {
+        storage.upsertCustomer({
+          id: customer.id,
+          managed_user_id: managedUserId,
+          external_id: customer.external_id ?? null,
+          name: customer.name,
+          created_at: customer.created_at,
+          updated_at: customer.updated_at,
+        });
+      }
 
       const projects = await client.listAllProjects(customer.id);
       const now = new Date().toISOString();
+      const renamedProjects: CustomerListing["renamedProjects"] = [];
       for (const p of projects) {
+        const previous = storage.getProject(p.id, managedUserId);
+        if (previous && previous.name !== p.name) {
+          renamedProjects.push({ id: p.id, previousName: previous.name });
+        }
+        if (!store) continue;
         storage.upsertProject({
           id: p.id,
           folder_id: p.folder_id,
@@ -65,49 +214,120 @@ export async function fetchAndStoreRecipes(
           created_at: now,
           updated_at: now,
         });
-        totalProjects++;
       }
 
-      const seenRecipeIds = new Set<number>();
-      for (const p of projects) {
-        const projectRecipes = await client.listAllRecipes(customer.id, {
-          updatedAfter: options.updatedAfter,
-          folderId: String(p.folder_id),
-          withSubfolders: false,
-        });
-        for (const r of projectRecipes) {
-          if (!r.name.startsWith("[active]")) continue;
-          if (seenRecipeIds.has(r.id)) continue;
-          seenRecipeIds.add(r.id);
-
-          const recipeRecord: Recipe = {
-            id: r.id,
-            managed_user_id: managedUserId,
-            project_id: r.project_id ?? p.id,
-            folder_id: r.folder_id ?? null,
-            name: r.name,
-            description: r.description ?? null,
-            raw_json: JSON.stringify(r),
-            created_at: r.created_at,
-            updated_at: r.updated_at,
-          };
-          storage.upsertRecipe(recipeRecord);
-
-          recipes.push({ recipe: r, managedUserId });
-          totalRecipes++;
-        }
-      }
+      const rules = inclusionRules.forCustomer(managedUserId, customer.external_id);
+      const recipesByProject = await mapWithConcurrency(
+        projects,
+        concurrency,
+        (p) => listProjectRecipes(client, customer.id, p, rules, options.updatedAfter)
+      );
+      return { managedUserId, projects, recipesByProject, renamedProjects };
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      customerErrors.push(`Customer ${customer.id}: ${msg}`);
+      return { managedUserId, error: `Customer ${customer.id}: ${msg}` };
     }
+  };
+
+  const results = await mapWithConcurrency(customers, concurrency, fetchCustomer);
+
+  // Store and collect in customer and project order, so the result does not
+  // depend on which request finished first.
+  let customersSkipped = 0;
+  for (const result of results) {
+    if ("skipped" in result) {
+      customersSkipped++;
+      continue;
+    }
+    if (result.error !== undefined) {
+      customerErrors.push(result.error);
+      continue;
+    }
+    if (result.stored !== undefined) {
+      const { managedUserId, stored } = result;
+      totalProjects += new Set(stored.map((r) => r.project_id)).size;
+      for (const r of stored) {
+        recipes.push({ recipe: JSON.parse(r.raw_json) as WorkatoRecipe, managedUserId });
+        totalRecipes++;
+      }
+      managedUserIds.push(managedUserId);
+      continue;
+    }
+    const { managedUserId, projects, recipesByProject, renamedProjects } = result;
+    totalProjects += projects.length;
+
+    const recipesBefore = totalRecipes;
+    const seenRecipeIds = new Set<number>();
+    const excludedRecipeIds = new Set<number>();
+    const movedRecipes: CustomerListing["movedRecipes"] = [];
+    projects.forEach((p, i) => {
+      for (const { recipe: r, decision } of recipesByProject[i]) {
+        if (!decision.included) {
+          excludedRecipeIds.add(r.id);
+          continue;
+        }
+        if (seenRecipeIds.has(r.id)) continue;
+        seenRecipeIds.add(r.id);
+
+        const recipeRecord: Recipe = {
+          id: r.id,
+          managed_user_id: managedUserId,
+          project_id: r.project_id ?? p.id,
+          folder_id: r.folder_id ?? null,
+          name: r.name,
+          description: r.description ?? null,
+          raw_json: JSON.stringify(r),
+          created_at: r.created_at,
+          updated_at: r.updated_at,
+        };
+        const previousProjectId = storage.getRecipe(r.id, managedUserId)?.project_id;
+        if (previousProjectId != null && previousProjectId !== recipeRecord.project_id) {
+          movedRecipes.push({ id: r.id, previousProjectId });
+        }
+        if (store) storage.upsertRecipe(recipeRecord);
+
+        recipes.push({ recipe: r, managedUserId });
+        totalRecipes++;
+      }
+    });
+    managedUserIds.push(managedUserId);
+    listings.push({
+      managedUserId,
+      projects: projects.map((p) => ({ id: p.id, name: p.name })),
+      activeRecipeIds: [...seenRecipeIds],
+      excludedRecipeIds: [...excludedRecipeIds].filter((id) => !seenRecipeIds.has(id)),
+      renamedProjects,
+      movedRecipes,
+      complete: options.updatedAfter === undefined,
+    });
+    if (store) options.onCustomerFetched?.(managedUserId, totalRecipes - recipesBefore);
   }
 
   return {
-    customersProcessed: customers.length,
+    customersProcessed: customers.length - customersSkipped,
     projectsFetched: totalProjects,
     recipesFetched: totalRecipes,
+    managedUserIds,
     recipes,
+    listings,
     customerErrors,
   };
 }
+
+/**
+ * Every stored active recipe of a project, ordered by ID, with the freshly
+ * fetched version preferred where there is one. Incremental fetches only
+ * return recently updated recipes, so project docs are built from this.
+ */
+export function getProjectRecipes(
+  storage: Storage,
+  managedUserId: string,
+  projectId: number,
+  fresh: (recipeId: number) => WorkatoRecipe | undefined = () => undefined
+): WorkatoRecipe[] {
+  return storage
+    .getRecipesByCustomer(managedUserId)
+    .filter((r) => r.project_id === projectId)
+    .sort((a, b) => a.id - b.id)
+    .map((r) => fresh(r.id) ?? (JSON.parse(r.raw_json) as WorkatoRecipe));
+}
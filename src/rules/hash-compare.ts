@@ -1,13 +1,30 @@
 import { createHash } from "crypto";
 import type { WorkatoRecipe } from "../api/workato-client.js";
+import type { RecipeSnapshot } from "../storage/schema.js";
+import type { Storage } from "../storage/storage.js";
+import { stripRecipeCodeNoise } from "./recipe-diff.js";
 
-const HASH_VERSION = "v2";
+/**
+ * v2 hashed the raw code string; v3 hashes canonical code without UI
+ * metadata, so step renumbering or uuid churn no longer counts as a change.
+ */
+export const HASH_VERSION = "v3";
+
+/** Parsed code with noise keys stripped and keys sorted; unparseable code is kept as is. */
+function canonicalCode(code: WorkatoRecipe["code"]): unknown {
+  if (!code) return {};
+  try {
+    return stripRecipeCodeNoise(typeof code === "string" ? JSON.parse(code) : code, true);
+  } catch {
+    return code;
+  }
+}
 
 export function computeRecipeHash(recipe: WorkatoRecipe): string {
   // Keys are in alphabetical order for deterministic serialization.
   // Do NOT use a JSON.stringify replacer array — it filters nested object keys too.
   const payload = JSON.stringify({
-    code: recipe.code,
+    code: canonicalCode(recipe.code),
     config: recipe.config ?? [],
     description: recipe.description ?? "",
     name: recipe.name,
@@ -16,6 +33,37 @@ export function computeRecipeHash(recipe: WorkatoRecipe): string {
   return `${HASH_VERSION}:${hash}`;
 }
 
+/**
+ * The snapshot's hash under the current HASH_VERSION, recomputed from its
+ * raw JSON when an older version stored it.
+ */
+export function snapshotHash(snapshot: RecipeSnapshot): string {
+  if (snapshot.content_hash.startsWith(`${HASH_VERSION}:`)) return snapshot.content_hash;
+  try {
+    return computeRecipeHash(JSON.parse(snapshot.raw_json) as WorkatoRecipe);
+  } catch {
+    return snapshot.content_hash;
+  }
+}
+
+/**
+ * Rewrite snapshot hashes stored by older hash versions, so upgrading the
+ * hash does not make every recipe look changed. Returns how many were updated.
+ */
+export function rehashSnapshots(
+  storage: Pick<Storage, "listStaleSnapshots" | "updateSnapshotHashes">
+): number {
+  const updates: Array<{ id: number; content_hash: string }> = [];
+  for (const snapshot of storage.listStaleSnapshots(`${HASH_VERSION}:`)) {
+    const contentHash = snapshotHash(snapshot);
+    if (contentHash !== snapshot.content_hash) {
+      updates.push({ id: snapshot.id, content_hash: contentHash });
+    }
+  }
+  if (updates.length > 0) storage.updateSnapshotHashes(updates);
+  return updates.length;
+}
+
 export interface ChangedRecipe {
   recipeId: number;
   managedUserId: string;
@@ -24,13 +72,13 @@ export interface ChangedRecipe {
 
 export function getChangedRecipes(
   currentRecipes: Array<{ recipe: WorkatoRecipe; managedUserId: string }>,
-  getLatestHash: (recipeId: number) => string | null
+  getLatestHash: (recipeId: number, managedUserId: string) => string | null
 ): ChangedRecipe[] {
   const changed: ChangedRecipe[] = [];
 
   for (const { recipe, managedUserId } of currentRecipes) {
     const currentHash = computeRecipeHash(recipe);
-    const previousHash = getLatestHash(recipe.id);
+    const previousHash = getLatestHash(recipe.id, managedUserId);
     if (previousHash === null) {
       changed.push({ recipeId: recipe.id, managedUserId, isNew: true });
     } else if (previousHash !== currentHash) {
@@ -0,0 +1,89 @@
+import type { WorkatoClient } from "../api/workato-client.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { listProjectRecipes, selectCustomers } from "./fetcher.js";
+import type { ListedRecipe } from "./fetcher.js";
+import type { InclusionRules } from "./inclusion-rules.js";
+
+export interface DryRunRecipe extends ListedRecipe {
+  projectName: string;
+}
+
+export interface DryRunCustomer {
+  managedUserId: string;
+  name: string;
+  maxFolderDepth: number;
+  ruleNames: string[];
+  recipes: DryRunRecipe[];
+  error?: string;
+}
+
+/**
+ * List every customer's recipes and evaluate their inclusion rules without
+ * storing anything.
+ */
+export async function dryRunInclusionRules(
+  client: WorkatoClient,
+  inclusionRules: InclusionRules,
+  options: { customerIds?: string[]; concurrency?: number } = {}
+): Promise<DryRunCustomer[]> {
+  const concurrency = options.concurrency ?? 1;
+  const customers = await selectCustomers(client, options.customerIds);
+  return mapWithConcurrency(customers, concurrency, async (customer) => {
+    const managedUserId = String(customer.id);
+    const rules = inclusionRules.forCustomer(managedUserId, customer.external_id);
+    const result: DryRunCustomer = {
+      managedUserId,
+      name: customer.name,
+      maxFolderDepth: rules.maxFolderDepth,
+      ruleNames: rules.ruleNames,
+      recipes: [],
+    };
+    try {
+      const projects = await client.listAllProjects(customer.id);
+      const listed = await mapWithConcurrency(projects, concurrency, (p) =>
+        listProjectRecipes(client, customer.id, p, rules)
+      );
+      projects.forEach((p, i) => {
+        result.recipes.push(...listed[i].map((r) => ({ ...r, projectName: p.name })));
+      });
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+    return result;
+  });
+}
+
+function formatRecipe({ recipe, projectName, decision }: DryRunRecipe): string {
+  return `    ${decision.included ? "+" : "-"} ${recipe.id} ${recipe.name} (project ${projectName})`;
+}
+
+/** Plain-text report: for each customer, the recipes each rule decided. */
+export function formatDryRun(report: DryRunCustomer[]): string {
+  const lines: string[] = [];
+  for (const customer of report) {
+    lines.push(
+      `Customer ${customer.managedUserId} "${customer.name}" (max folder depth ${customer.maxFolderDepth})`
+    );
+    if (customer.error) {
+      lines.push(`  Error: ${customer.error}`, "");
+      continue;
+    }
+    for (const name of customer.ruleNames) {
+      const matched = customer.recipes.filter((r) => r.decision.rule === name);
+      lines.push(`  Rule "${name}": ${matched.length} recipe(s)`);
+      lines.push(...matched.map(formatRecipe));
+    }
+    const unmatched = customer.recipes.filter((r) => r.decision.rule === undefined);
+    const tooDeep = unmatched.filter((r) => r.folderDepth > customer.maxFolderDepth);
+    const noRule = unmatched.filter((r) => r.folderDepth <= customer.maxFolderDepth);
+    lines.push(`  No rule matched: ${noRule.length} recipe(s)`);
+    lines.push(...noRule.map(formatRecipe));
+    if (tooDeep.length > 0) {
+      lines.push(`  Below max folder depth: ${tooDeep.length} recipe(s)`);
+      lines.push(...tooDeep.map(formatRecipe));
+    }
+    const included = customer.recipes.filter((r) => r.decision.included).length;
+    lines.push(`  Included ${included} of ${customer.recipes.length}`, "");
+  }
+  return lines.join("\n");
+}
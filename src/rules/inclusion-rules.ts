@@ -0,0 +1,214 @@
+import { readFile } from "fs/promises";
+import { parse as parseYaml } from "yaml";
+import type { WorkatoRecipe } from "../api/workato-client.js";
+
+/**
+ * One include/exclude rule. Every condition that is set must match; a rule
+ * without conditions matches every recipe.
+ */
+export interface InclusionRule {
+  /** Shown in logs and the dry-run report. */
+  name: string;
+  action: "include" | "exclude";
+  /** Regular expression tested against the recipe name. */
+  namePattern?: string;
+  /** Matches recipes with at least one of these tags. */
+  tags?: string[];
+  /** Matches recipes that are (true) or are not (false) running. */
+  running?: boolean;
+  /** Folder levels below the project folder; 0 is the project root. */
+  folderDepth?: { min?: number; max?: number };
+  /** Trigger connector names, e.g. "salesforce"; case-insensitive. */
+  triggerApplications?: string[];
+  /** Project IDs or names. */
+  projects?: Array<number | string>;
+}
+
+export interface InclusionRuleSet {
+  /**
+   * Deepest subfolder level fetched below each project folder (default 0:
+   * project root only). Recipes deeper than this are never included.
+   */
+  maxFolderDepth?: number;
+  /** Evaluated in order; the first matching rule decides. No match excludes. */
+  rules: InclusionRule[];
+}
+
+export interface CustomerInclusionRuleSet extends InclusionRuleSet {
+  /** Managed user IDs or external IDs this rule set applies to. */
+  customers: string[];
+}
+
+export interface InclusionRulesConfig {
+  /** Rules for customers no entry in `customers` matches. */
+  default?: InclusionRuleSet;
+  /** Per-customer rule sets; the first entry listing the customer wins. */
+  customers?: CustomerInclusionRuleSet[];
+}
+
+/** What a rule is evaluated against. */
+export interface RecipeContext {
+  recipe: WorkatoRecipe;
+  project: { id: number; name: string };
+  /** Folder levels below the project folder. */
+  folderDepth: number;
+}
+
+export interface InclusionDecision {
+  included: boolean;
+  /** The rule that decided, unset when no rule matched. */
+  rule?: string;
+}
+
+/** A customer's rule set, ready to evaluate. */
+export interface CustomerRules {
+  maxFolderDepth: number;
+  ruleNames: string[];
+  evaluate(context: RecipeContext): InclusionDecision;
+}
+
+export interface InclusionRules {
+  forCustomer(managedUserId: string, externalId?: string | null): CustomerRules;
+}
+
+/** The behaviour before rules were configurable: `[active]` recipes at the project root. */
+export const DEFAULT_INCLUSION_RULE_SET: InclusionRuleSet = {
+  maxFolderDepth: 0,
+  rules: [{ name: "active-prefix", action: "include", namePattern: "^\\[active\\]" }],
+};
+
+function validateRuleSet(set: InclusionRuleSet | undefined, path: string): void {
+  if (!set || !Array.isArray(set.rules)) {
+    throw new Error(`${path}: "rules" must be a list`);
+  }
+  if (
+    set.maxFolderDepth !== undefined &&
+    !(Number.isInteger(set.maxFolderDepth) && set.maxFolderDepth >= 0)
+  ) {
+    throw new Error(`${path}: "maxFolderDepth" must be a non-negative integer`);
+  }
+  const names = new Set<string>();
+  for (const [i, rule] of set.rules.entries()) {
+    const rulePath = `${path}.rules[${i}]`;
+    if (!rule?.name) {
+      throw new Error(`${rulePath} is missing "name"`);
+    }
+    if (names.has(rule.name)) {
+      throw new Error(`${path}: duplicate rule name "${rule.name}"`);
+    }
+    names.add(rule.name);
+    if (rule.action !== "include" && rule.action !== "exclude") {
+      throw new Error(`${rulePath}: "action" must be "include" or "exclude"`);
+    }
+    if (rule.namePattern !== undefined) {
+      try {
+        new RegExp(rule.namePattern);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        throw new Error(`${rulePath}: invalid "namePattern": ${msg}`);
+      }
+    }
+    for (const key of ["tags", "triggerApplications", "projects"] as const) {
+      if (rule[key] !== undefined && !Array.isArray(rule[key])) {
+        throw new Error(`${rulePath}: "${key}" must be a list`);
+      }
+    }
+    if (rule.running !== undefined && typeof rule.running !== "boolean") {
+      throw new Error(`${rulePath}: "running" must be true or false`);
+    }
+  }
+}
+
+/** Parse and validate an inclusion rules config (YAML or JSON). */
+export function parseInclusionRulesConfig(
+  text: string,
+  source: string
+): InclusionRulesConfig {
+  const raw = parseYaml(text) as InclusionRulesConfig | null;
+  if (!raw || (!raw.default && !raw.customers)) {
+    throw new Error(`${source}: expected a "default" rule set or "customers" list`);
+  }
+  if (raw.default) validateRuleSet(raw.default, `${source}: default`);
+  if (raw.customers !== undefined && !Array.isArray(raw.customers)) {
+    throw new Error(`${source}: "customers" must be a list`);
+  }
+  for (const [i, entry] of (raw.customers ?? []).entries()) {
+    if (!Array.isArray(entry?.customers) || entry.customers.length === 0) {
+      throw new Error(`${source}: customers[${i}] needs a non-empty "customers" list`);
+    }
+    validateRuleSet(entry, `${source}: customers[${i}]`);
+  }
+  return raw;
+}
+
+function compileRule(rule: InclusionRule): (context: RecipeContext) => boolean {
+  const pattern = rule.namePattern !== undefined ? new RegExp(rule.namePattern) : null;
+  const triggers = rule.triggerApplications?.map((a) => a.toLowerCase());
+  const projects = rule.projects?.map(String);
+  return ({ recipe, project, folderDepth }) => {
+    if (pattern && !pattern.test(recipe.name)) return false;
+    if (rule.tags && !rule.tags.some((t) => recipe.tags?.includes(t))) return false;
+    if (rule.running !== undefined && recipe.running !== rule.running) return false;
+    if (rule.folderDepth?.min !== undefined && folderDepth < rule.folderDepth.min) {
+      return false;
+    }
+    if (rule.folderDepth?.max !== undefined && folderDepth > rule.folderDepth.max) {
+      return false;
+    }
+    if (
+      triggers &&
+      !triggers.includes((recipe.trigger_application ?? "").toLowerCase())
+    ) {
+      return false;
+    }
+    if (
+      projects &&
+      !projects.includes(String(project.id)) &&
+      !projects.includes(project.name)
+    ) {
+      return false;
+    }
+    return true;
+  };
+}
+
+function compileRuleSet(set: InclusionRuleSet): CustomerRules {
+  const maxFolderDepth = set.maxFolderDepth ?? 0;
+  const rules = set.rules.map((rule) => ({ rule, matches: compileRule(rule) }));
+  return {
+    maxFolderDepth,
+    ruleNames: set.rules.map((r) => r.name),
+    evaluate(context) {
+      if (context.folderDepth > maxFolderDepth) return { included: false };
+      const match = rules.find((r) => r.matches(context));
+      return match
+        ? { included: match.rule.action === "include", rule: match.rule.name }
+        : { included: false };
+    },
+  };
+}
+
+/** Build the rule lookup; customers without a rule set get the default one. */
+export function createInclusionRules(config: InclusionRulesConfig = {}): InclusionRules {
+  const fallback = compileRuleSet(config.default ?? DEFAULT_INCLUSION_RULE_SET);
+  const perCustomer = (config.customers ?? []).map((entry) => ({
+    customers: entry.customers.map(String),
+    rules: compileRuleSet(entry),
+  }));
+  return {
+    forCustomer(managedUserId, externalId) {
+      const entry = perCustomer.find(
+        (e) =>
+          e.customers.includes(managedUserId) ||
+          (externalId != null && e.customers.includes(externalId))
+      );
+      return entry?.rules ?? fallback;
+    },
+  };
+}
+
+/** Read an inclusion rules config file and build its rule lookup. */
+export async function loadInclusionRules(path: string): Promise<InclusionRules> {
+  const text = await readFile(path, "utf-8");
+  return createInclusionRules(parseInclusionRulesConfig(text, path));
+}
@@ -0,0 +1,321 @@
+import type { WorkatoRecipe } from "../api/workato-client.js";
+
+/**
+ * Workato recipe-code keys that are UI / framework metadata and carry no
+ * information relevant to documentation (field mappings, logic, providers).
+ */
+export const RECIPE_CODE_STRIP_KEYS = new Set([
+  "uuid",                           // internal step identifier
+  "number",                         // step sequence (implicit from order)
+  "as",                             // internal variable binding name
+  "description",                    // auto-generated HTML step label – redundant with provider+name+input
+  "visible_config_fields",          // UI visibility metadata
+  "visible_config_fields_for_action",
+  "toggleCfg",                      // UI toggle state
+]);
+
+/**
+ * Drop RECIPE_CODE_STRIP_KEYS and null values at every level of parsed recipe
+ * code. With `sortKeys`, object keys come out in alphabetical order so the
+ * result serializes canonically.
+ */
+export function stripRecipeCodeNoise(value: unknown, sortKeys = false): unknown {
+  if (Array.isArray(value)) return value.map((v) => stripRecipeCodeNoise(v, sortKeys));
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (sortKeys) entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of entries) {
+      if (RECIPE_CODE_STRIP_KEYS.has(k)) continue;
+      if (v === null || v === undefined) continue;
+      out[k] = stripRecipeCodeNoise(v, sortKeys);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** Step keywords whose input is a condition rather than a data mapping. */
+const CONDITION_KEYWORDS = new Set(["if", "elsif", "while"]);
+
+/** Longest before/after value kept per change, so diffs stay prompt-sized. */
+const MAX_VALUE_LENGTH = 300;
+
+export type RecipeChangeKind =
+  | "step_added"
+  | "step_removed"
+  | "step_moved"
+  /** Provider, action or step keyword changed. */
+  | "action_changed"
+  | "input_changed"
+  | "condition_changed"
+  /** Recipe name, description or connections changed. */
+  | "recipe_changed"
+  /** Only RECIPE_CODE_STRIP_KEYS fields changed. */
+  | "metadata_only";
+
+export interface RecipeChange {
+  kind: RecipeChangeKind;
+  /** Step position, e.g. "trigger", "2" or "2.1" (second step's first child). */
+  path: string;
+  /** `provider.action` or keyword of the step, in the new version when it exists. */
+  step?: string;
+  /** Changed fields, as dotted paths. */
+  fields?: string[];
+  before?: string;
+  after?: string;
+}
+
+export interface RecipeDiff {
+  changes: RecipeChange[];
+  /** True when nothing documentation-relevant changed. */
+  trivial: boolean;
+  /** Set when either version's code is not valid JSON; such diffs are never trivial. */
+  unparseable?: boolean;
+}
+
+interface Step {
+  key: string;
+  path: string;
+  parentKey: string | null;
+  label: string;
+  fields: Record<string, unknown>;
+}
+
+type Json = Record<string, unknown>;
+
+function parseCode(code: unknown): Json | null {
+  if (code !== null && typeof code === "object") return code as Json;
+  if (typeof code !== "string" || code === "") return {};
+  try {
+    const parsed = JSON.parse(code) as unknown;
+    return parsed !== null && typeof parsed === "object" ? (parsed as Json) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Flatten the step tree; steps are keyed by uuid, or by position without one. */
+function flattenSteps(root: Json): Map<string, Step> {
+  const steps = new Map<string, Step>();
+  const visit = (step: Json, path: string, parentKey: string | null) => {
+    const key = typeof step.uuid === "string" ? step.uuid : `@${path}`;
+    const label =
+      typeof step.provider === "string"
+        ? `${step.provider}.${String(step.name ?? "")}`
+        : String(step.keyword ?? "step");
+    const { block, ...fields } = step;
+    steps.set(key, { key, path, parentKey, label, fields });
+    if (Array.isArray(block)) {
+      block.forEach((child, i) => {
+        if (child === null || typeof child !== "object") return;
+        visit(child as Json, path === "trigger" ? `${i + 1}` : `${path}.${i + 1}`, key);
+      });
+    }
+  };
+  visit(root, "trigger", null);
+  return steps;
+}
+
+/**
+ * Re-key steps of `after` whose uuid `before` lacks to the unmatched step of
+ * `before` at the same path with the same action or keyword. Workato
+ * regenerates uuids on some edits and on import, and uuid is stripped as
+ * noise everywhere else, so such a step must not read as removed and re-added.
+ */
+function matchRegeneratedSteps(
+  before: Map<string, Step>,
+  after: Map<string, Step>
+): Map<string, Step> {
+  const unmatched = new Map<string, Step>();
+  for (const step of before.values()) {
+    if (!after.has(step.key)) unmatched.set(`${step.path}|${step.label}`, step);
+  }
+  if (unmatched.size === 0) return after;
+  const renamed = new Map<string, string>();
+  const result = new Map<string, Step>();
+  // Parents come before their children, so a child sees its parent's new key.
+  for (const step of after.values()) {
+    const parentKey = step.parentKey && (renamed.get(step.parentKey) ?? step.parentKey);
+    let key = step.key;
+    const match = before.has(key) ? undefined : unmatched.get(`${step.path}|${step.label}`);
+    if (match) {
+      unmatched.delete(`${step.path}|${step.label}`);
+      renamed.set(key, match.key);
+      key = match.key;
+    }
+    result.set(key, { ...step, key, parentKey });
+  }
+  return result;
+}
+
+function truncate(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Dotted paths of the leaves that differ between two values. */
+function changedPaths(a: unknown, b: unknown, prefix: string, out: string[]): void {
+  const isObj = (v: unknown): v is Json => v !== null && typeof v === "object";
+  if (isObj(a) && isObj(b) && Array.isArray(a) === Array.isArray(b)) {
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      changedPaths(a[key], b[key], prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (!isEqual(a, b)) {
+    out.push(prefix);
+  }
+}
+
+function compareSteps(before: Step, after: Step): RecipeChange[] {
+  const changes: RecipeChange[] = [];
+  const base = { path: after.path, step: after.label };
+  const relevant = (fields: Json) =>
+    Object.fromEntries(
+      Object.entries(fields).filter(([k]) => !RECIPE_CODE_STRIP_KEYS.has(k))
+    );
+  const a = relevant(before.fields);
+  const b = relevant(after.fields);
+
+  if (a.provider !== b.provider || a.name !== b.name || a.keyword !== b.keyword) {
+    changes.push({
+      ...base,
+      kind: "action_changed",
+      before: before.label,
+      after: after.label,
+    });
+  }
+
+  const inputFields: string[] = [];
+  changedPaths(a.input, b.input, "input", inputFields);
+  const otherFields: string[] = [];
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (["provider", "name", "keyword", "input"].includes(key)) continue;
+    changedPaths(a[key], b[key], key, otherFields);
+  }
+  if (inputFields.length > 0 || otherFields.length > 0) {
+    const isCondition =
+      inputFields.length > 0 && CONDITION_KEYWORDS.has(String(b.keyword ?? ""));
+    changes.push({
+      ...base,
+      kind: isCondition ? "condition_changed" : "input_changed",
+      fields: [...inputFields, ...otherFields],
+      before: inputFields.length > 0 ? truncate(a.input) : undefined,
+      after: inputFields.length > 0 ? truncate(b.input) : undefined,
+    });
+  }
+
+  if (changes.length === 0 && !isEqual(before.fields, after.fields)) {
+    const fields: string[] = [];
+    changedPaths(before.fields, after.fields, "", fields);
+    changes.push({ ...base, kind: "metadata_only", fields });
+  }
+  return changes;
+}
+
+/** Steps whose order among the siblings present in both versions changed. */
+function movedSteps(before: Map<string, Step>, after: Map<string, Step>): Set<string> {
+  const moved = new Set<string>();
+  const siblings = (steps: Map<string, Step>, parentKey: string) =>
+    [...steps.values()]
+      .filter((s) => s.parentKey === parentKey && before.has(s.key) && after.has(s.key))
+      .map((s) => s.key);
+  for (const step of after.values()) {
+    const previous = before.get(step.key);
+    if (!previous) continue;
+    if (previous.parentKey !== step.parentKey) moved.add(step.key);
+  }
+  for (const parent of after.values()) {
+    const oldOrder = siblings(before, parent.key);
+    const newOrder = siblings(after, parent.key);
+    newOrder.forEach((key, i) => {
+      if (oldOrder[i] !== key) moved.add(key);
+    });
+  }
+  return moved;
+}
+
+/**
+ * Compare two versions of a recipe step by step. Steps are matched by their
+ * uuid, so inserting a step does not make every later step look changed; a
+ * step whose uuid was regenerated is matched by path and action instead.
+ */
+export function diffRecipes(oldRecipe: WorkatoRecipe, newRecipe: WorkatoRecipe): RecipeDiff {
+  const changes: RecipeChange[] = [];
+  const recipeFields: Array<"name" | "description" | "config"> = [];
+  if (oldRecipe.name !== newRecipe.name) recipeFields.push("name");
+  if ((oldRecipe.description ?? "") !== (newRecipe.description ?? "")) {
+    recipeFields.push("description");
+  }
+  if (!isEqual(oldRecipe.config ?? [], newRecipe.config ?? [])) {
+    recipeFields.push("config");
+  }
+  if (recipeFields.length > 0) {
+    changes.push({
+      kind: "recipe_changed",
+      path: "recipe",
+      fields: recipeFields,
+      before: truncate(Object.fromEntries(recipeFields.map((f) => [f, oldRecipe[f]]))),
+      after: truncate(Object.fromEntries(recipeFields.map((f) => [f, newRecipe[f]]))),
+    });
+  }
+
+  const oldCode = parseCode(oldRecipe.code);
+  const newCode = parseCode(newRecipe.code);
+  if (!oldCode || !newCode) {
+    return { changes, trivial: false, unparseable: true };
+  }
+
+  const before = flattenSteps(oldCode);
+  const after = matchRegeneratedSteps(before, flattenSteps(newCode));
+  const moved = movedSteps(before, after);
+  for (const step of before.values()) {
+    if (!after.has(step.key)) {
+      changes.push({ kind: "step_removed", path: step.path, step: step.label });
+    }
+  }
+  for (const step of after.values()) {
+    const previous = before.get(step.key);
+    if (!previous) {
+      changes.push({ kind: "step_added", path: step.path, step: step.label });
+      continue;
+    }
+    if (moved.has(step.key)) {
+      changes.push({
+        kind: "step_moved",
+        path: step.path,
+        step: step.label,
+        before: previous.path,
+        after: step.path,
+      });
+    }
+    changes.push(...compareSteps(previous, step));
+  }
+
+  return {
+    changes,
+    trivial: changes.every((c) => c.kind === "metadata_only"),
+  };
+}
+
+/** One line per change, for logs and the semantic analysis prompt. */
+export function formatRecipeDiff(diff: RecipeDiff): string {
+  if (diff.unparseable) {
+    return "Recipe code could not be parsed; the structure of the change is unknown.";
+  }
+  if (diff.changes.length === 0) return "No structural changes.";
+  return diff.changes
+    .map((c) => {
+      const where = c.path === "recipe" ? "recipe" : `step ${c.path}${c.step ? ` (${c.step})` : ""}`;
+      const parts = [`- ${c.kind}: ${where}`];
+      if (c.fields?.length) parts.push(`fields ${c.fields.join(", ")}`);
+      if (c.before !== undefined) parts.push(`before ${c.before}`);
+      if (c.after !== undefined) parts.push(`after ${c.after}`);
+      return parts.join("; ");
+    })
+    .join("\n");
+}
@@ -0,0 +1,100 @@
+import type { WorkatoRecipe } from "../api/workato-client.js";
+import type { RecipeSnapshot } from "../storage/schema.js";
+import type { Storage } from "../storage/storage.js";
+import { diffRecipes, formatRecipeDiff } from "./recipe-diff.js";
+import type { RecipeDiff } from "./recipe-diff.js";
+
+export interface RecipeVersionDiff {
+  recipeId: number;
+  from: RecipeSnapshot;
+  to: RecipeSnapshot;
+  diff: RecipeDiff;
+}
+
+/**
+ * Find a version by number, or by date: the latest version stored at or
+ * before that time, i.e. the one documented then.
+ */
+export function resolveSnapshotVersion(
+  snapshots: RecipeSnapshot[],
+  ref: string
+): RecipeSnapshot {
+  const recipeId = snapshots[0]?.recipe_id;
+  if (/^v?\d+$/.test(ref)) {
+    const version = Number(ref.replace(/^v/, ""));
+    const snapshot = snapshots.find((s) => s.version === version);
+    if (!snapshot) throw new Error(`Recipe ${recipeId} has no version ${version}`);
+    return snapshot;
+  }
+  const at = Date.parse(ref);
+  if (Number.isNaN(at)) {
+    throw new Error(`Invalid version "${ref}": expected a version number or a date`);
+  }
+  const snapshot = snapshots.filter((s) => Date.parse(s.created_at) <= at).at(-1);
+  if (!snapshot) throw new Error(`Recipe ${recipeId} has no version stored by ${ref}`);
+  return snapshot;
+}
+
+/**
+ * Diff two stored versions of a recipe. Defaults to the latest version and
+ * the one before it.
+ */
+export function diffRecipeVersions(
+  storage: Pick<Storage, "listSnapshots">,
+  recipeId: number,
+  managedUserId: string,
+  fromRef?: string,
+  toRef?: string
+): RecipeVersionDiff {
+  const snapshots = storage.listSnapshots(recipeId, managedUserId);
+  if (snapshots.length === 0) throw new Error(`No versions stored for recipe ${recipeId}`);
+  const to = toRef ? resolveSnapshotVersion(snapshots, toRef) : snapshots[snapshots.length - 1];
+  let from: RecipeSnapshot | undefined;
+  if (fromRef) {
+    from = resolveSnapshotVersion(snapshots, fromRef);
+  } else {
+    from = snapshots.filter((s) => s.version < to.version).at(-1);
+    if (!from) throw new Error(`Recipe ${recipeId} has no version before ${to.version}`);
+  }
+  return {
+    recipeId,
+    from,
+    to,
+    diff: diffRecipes(
+      JSON.parse(from.raw_json) as WorkatoRecipe,
+      JSON.parse(to.raw_json) as WorkatoRecipe
+    ),
+  };
+}
+
+function describeVersion(snapshot: RecipeSnapshot): string {
+  const details = [snapshot.created_at];
+  if (snapshot.run_id != null) details.push(`run ${snapshot.run_id}`);
+  return `v${snapshot.version} (${details.join(", ")})`;
+}
+
+function recipeName(snapshot: RecipeSnapshot): string {
+  try {
+    return (JSON.parse(snapshot.raw_json) as WorkatoRecipe).name;
+  } catch {
+    return "";
+  }
+}
+
+/** One line per stored version, oldest first. */
+export function formatRecipeHistory(recipeId: number, snapshots: RecipeSnapshot[]): string {
+  if (snapshots.length === 0) return `No versions stored for recipe ${recipeId}`;
+  return snapshots
+    .map((s) => {
+      const retired = s.retired_at ? ` [removed ${s.retired_at}]` : "";
+      return `${describeVersion(s)} "${recipeName(s)}"${retired}`;
+    })
+    .join("\n");
+}
+
+export function formatRecipeVersionDiff(result: RecipeVersionDiff): string {
+  return [
+    `Recipe ${result.recipeId} "${recipeName(result.to)}": ${describeVersion(result.from)} -> ${describeVersion(result.to)}`,
+    formatRecipeDiff(result.diff),
+  ].join("\n");
+}
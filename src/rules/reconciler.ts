@@ -0,0 +1,119 @@
+import type { Storage } from "../storage/storage.js";
+import type { RemovalReason } from "../storage/schema.js";
+import type { CustomerListing } from "./fetcher.js";
+
+export interface RemovedEntity {
+  kind: "project" | "recipe";
+  managedUserId: string;
+  id: number;
+  /** The recipe's project, or the project's own ID. */
+  projectId: number;
+  name: string;
+  reason: RemovalReason;
+}
+
+export interface RenamedProject {
+  managedUserId: string;
+  id: number;
+  previousName: string;
+  name: string;
+}
+
+export interface ReconcileResult {
+  removed: RemovedEntity[];
+  renamed: RenamedProject[];
+  /**
+   * Projects still in Workato that were renamed or lost recipes; their docs
+   * must be regenerated.
+   */
+  affectedProjects: Array<{ managedUserId: string; projectId: number }>;
+}
+
+/**
+ * Compare a customer's stored projects and recipes with what the API just
+ * returned, and mark the ones that are gone as removed. Deleted recipes are
+ * only detected from a complete listing; excluded ones (e.g. no `[active]`
+ * prefix any more) from any listing that includes them. Recipes moved to
+ * another project count as lost by the project they left.
+ */
+export function reconcileCustomer(
+  storage: Storage,
+  listing: CustomerListing
+): ReconcileResult {
+  const { managedUserId } = listing;
+  const removed: RemovedEntity[] = [];
+
+  const liveProjects = new Set(listing.projects.map((p) => p.id));
+  const removedProjects = new Set<number>();
+  for (const project of storage.listProjectsByCustomer(managedUserId)) {
+    if (liveProjects.has(project.id)) continue;
+    storage.markProjectRemoved(project.id, managedUserId, "deleted");
+    removedProjects.add(project.id);
+    removed.push({
+      kind: "project",
+      managedUserId,
+      id: project.id,
+      projectId: project.id,
+      name: project.name,
+      reason: "deleted",
+    });
+  }
+
+  const active = new Set(listing.activeRecipeIds);
+  const excluded = new Set(listing.excludedRecipeIds);
+  const affected = new Set<number>();
+  for (const { previousProjectId } of listing.movedRecipes) {
+    if (!removedProjects.has(previousProjectId)) affected.add(previousProjectId);
+  }
+  const renamed: RenamedProject[] = [];
+  for (const { id, previousName } of listing.renamedProjects) {
+    const project = storage.getProject(id, managedUserId);
+    if (!project) continue;
+    renamed.push({ managedUserId, id, previousName, name: project.name });
+    affected.add(id);
+  }
+  for (const recipe of storage.getRecipesByCustomer(managedUserId)) {
+    if (active.has(recipe.id) || recipe.project_id == null) continue;
+    let reason: RemovalReason | undefined;
+    if (removedProjects.has(recipe.project_id)) reason = "project_removed";
+    else if (excluded.has(recipe.id)) reason = "excluded";
+    else if (listing.complete) reason = "deleted";
+    if (!reason) continue;
+
+    storage.markRecipeRemoved(recipe.id, managedUserId, reason);
+    removed.push({
+      kind: "recipe",
+      managedUserId,
+      id: recipe.id,
+      projectId: recipe.project_id,
+      name: recipe.name,
+      reason,
+    });
+    if (reason !== "project_removed") affected.add(recipe.project_id);
+  }
+
+  return {
+    removed,
+    renamed,
+    affectedProjects: [...affected].map((projectId) => ({ managedUserId, projectId })),
+  };
+}
+
+/** One line per removed entity, for logs and the run summary. */
+export function describeRemoval(entity: RemovedEntity): string {
+  const what =
+    entity.kind === "project"
+      ? `Project ${entity.id}`
+      : `Recipe ${entity.id} in project ${entity.projectId}`;
+  const why =
+    entity.reason === "project_removed"
+      ? "its project was removed"
+      : entity.reason === "excluded"
+        ? "excluded by inclusion rules"
+        : entity.reason;
+  return `${what} "${entity.name}" (customer ${entity.managedUserId}): ${why}`;
+}
+
+export function describeRename(project: RenamedProject): string {
+  return `Project ${project.id} "${project.previousName}" (customer ${project.managedUserId}): renamed to "${project.name}"`;
+}
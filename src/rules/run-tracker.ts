@@ -1,4 +1,13 @@
 import type { Storage } from "../storage/storage.js";
+import type { SyncRunStatus } from "../storage/schema.js";
+
+/** `sync_runs` times come from SQLite's datetime('now'): UTC without a zone. */
+export function parseRunTimestamp(value: string): number {
+  const iso = /[zZ]|[+-]\d\d:?\d\d$/.test(value)
+    ? value
+    : `${value.replace(" ", "T")}Z`;
+  return new Date(iso).getTime();
+}
 
 export interface SyncRunStats {
   customersProcessed: number;
@@ -7,18 +16,29 @@ export interface SyncRunStats {
   recipesDocumented: number;
   errors?: string;
   summary?: string;
+  /** Null when some calls used an unpriced model. */
+  estimatedCostUsd?: number | null;
+  status?: SyncRunStatus;
 }
 
 export interface RunTracker {
-  startRun(): number;
+  /** `runOptions` is JSON describing the run, kept so it can be resumed. */
+  startRun(runOptions?: string): number;
+  /** Reopen an unfinished or interrupted run to continue it. */
+  resumeRun(runId: number): void;
   finishRun(runId: number, stats: SyncRunStats): void;
   getLastSuccessfulRunFinishedAt(): string | null;
+  getLastFullFetchStartedAt(): string | null;
 }
 
 export function createRunTracker(storage: Storage): RunTracker {
   return {
-    startRun() {
-      return storage.createSyncRun();
+    startRun(runOptions) {
+      return storage.createSyncRun(runOptions);
+    },
+
+    resumeRun(runId) {
+      storage.reopenSyncRun(runId);
     },
 
     finishRun(runId, stats) {
@@ -29,5 +49,9 @@ export function createRunTracker(storage: Storage): RunTracker {
       const run = storage.getLastSuccessfulRun();
       return run?.finished_at ?? null;
     },
+
+    getLastFullFetchStartedAt() {
+      return storage.getLastFullFetchRun()?.started_at ?? null;
+    },
   };
 }
@@ -1,37 +1,65 @@
 import cron from "node-cron";
-import { runDocumentationPipeline } from "./pipeline/orchestrator.js";
+import type { ScheduledTask } from "node-cron";
+import { startPipelineRun } from "./pipeline/run-manager.js";
+import { createSqliteStorage } from "./storage/sqlite-storage.js";
 import { logger } from "./logger.js";
 
-const CRON_SCHEDULE = process.env.CRON_SCHEDULE ?? "0 */6 * * *";
-
-let isRunning = false;
+export const CRON_SCHEDULE = process.env.CRON_SCHEDULE ?? "0 */6 * * *";
 
 async function runPipeline() {
-  if (isRunning) {
+  const run = startPipelineRun({ trigger: "schedule" });
+  if (!run) {
     logger.warn("Pipeline already running, skipping scheduled run");
     return;
   }
-  isRunning = true;
-  const correlationId = `run-${Date.now()}`;
-  const log = logger.child({ correlationId });
+  await run.promise;
+}
+
+/**
+ * Runs a previous process left unfinished (crash, kill) or interrupted
+ * (shutdown). The newest is resumed from its checkpoints; older ones are
+ * closed so they no longer look resumable.
+ */
+function resumeAbandonedRuns() {
+  const storage = createSqliteStorage();
+  let resumeRunId: number | undefined;
   try {
-    log.info("Starting scheduled documentation pipeline");
-    await runDocumentationPipeline(undefined, undefined, log);
-    log.info("Pipeline completed successfully");
-  } catch (err) {
-    log.error({ err }, "Pipeline failed");
+    for (const stale of storage.listResumableSyncRuns()) {
+      // Runs recorded before options were stored cannot be resumed.
+      if (resumeRunId === undefined && stale.run_options) {
+        resumeRunId = stale.id;
+        continue;
+      }
+      storage.finishSyncRun(stale.id, {
+        customersProcessed: stale.customers_processed,
+        recipesFetched: stale.recipes_fetched,
+        recipesChanged: stale.recipes_changed,
+        recipesDocumented: stale.recipes_documented,
+        errors: "Run abandoned and not resumed",
+        status: "failed",
+      });
+      logger.warn({ runId: stale.id }, "Closed abandoned run");
+    }
   } finally {
-    isRunning = false;
+    storage.close();
+  }
+
+  if (resumeRunId === undefined) return;
+  if (startPipelineRun({ trigger: "schedule", resumeRunId })) {
+    logger.info({ runId: resumeRunId }, "Resuming abandoned run");
   }
 }
 
-export function startScheduler() {
+/** Returns the cron task so shutdown can stop further scheduled runs. */
+export function startScheduler(): ScheduledTask {
   if (!cron.validate(CRON_SCHEDULE)) {
     throw new Error(`Invalid CRON_SCHEDULE: ${CRON_SCHEDULE}`);
   }
-  cron.schedule(CRON_SCHEDULE, runPipeline, {
+  const task = cron.schedule(CRON_SCHEDULE, runPipeline, {
     scheduled: true,
     timezone: "UTC",
   });
   logger.info({ schedule: CRON_SCHEDULE }, "Scheduler started");
+  resumeAbandonedRuns();
+  return task;
 }
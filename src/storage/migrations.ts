@@ -0,0 +1,517 @@
+import type Database from "better-sqlite3";
+
+/**
+ * One schema change. Migrations run in version order, each in its own
+ * transaction, and are recorded in `schema_migrations` once applied. Never
+ * edit a released migration; add a new one.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** Null while pending. */
+  appliedAt: string | null;
+}
+
+/**
+ * Adds a column unless it is there already: databases from builds before
+ * migrations were tracked may have any of the later changes.
+ */
+function addColumn(db: Database.Database, table: string, column: string, type: string): void {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+/**
+ * Schema of the first release. Its `idx_docs_recipe` index is left out:
+ * migration 2 replaces that documentation table, and untracked databases may
+ * already have the replacement, which has no `recipe_id`.
+ */
+function baseline(db: Database.Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS customers (
+  id INTEGER PRIMARY KEY,
+  managed_user_id TEXT NOT NULL,
+  external_id TEXT,
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS projects (
+  id INTEGER PRIMARY KEY,
+  folder_id INTEGER NOT NULL,
+  managed_user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS recipes (
+  id INTEGER PRIMARY KEY,
+  managed_user_id TEXT NOT NULL,
+  project_id INTEGER,
+  folder_id INTEGER,
+  name TEXT NOT NULL,
+  description TEXT,
+  raw_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_managed_user ON recipes(managed_user_id);
+
+CREATE TABLE IF NOT EXISTS recipe_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  recipe_id INTEGER NOT NULL,
+  managed_user_id TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  raw_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  UNIQUE(recipe_id),
+  FOREIGN KEY (recipe_id) REFERENCES recipes(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshots_recipe ON recipe_snapshots(recipe_id);
+
+CREATE TABLE IF NOT EXISTS documentation (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  recipe_id INTEGER NOT NULL,
+  managed_user_id TEXT NOT NULL,
+  content_md TEXT NOT NULL,
+  content_html TEXT NOT NULL,
+  quality_score REAL,
+  generated_at TEXT NOT NULL,
+  UNIQUE(recipe_id),
+  FOREIGN KEY (recipe_id) REFERENCES recipes(id)
+);
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  started_at TEXT NOT NULL,
+  finished_at TEXT,
+  customers_processed INTEGER NOT NULL DEFAULT 0,
+  recipes_fetched INTEGER NOT NULL DEFAULT 0,
+  recipes_changed INTEGER NOT NULL DEFAULT 0,
+  recipes_documented INTEGER NOT NULL DEFAULT 0,
+  errors TEXT,
+  summary TEXT
+);
+`);
+}
+
+/**
+ * Replaces the recipe-keyed documentation table with versioned project and
+ * recipe docs. Existing docs are kept in `documentation_legacy`.
+ */
+function versionedDocumentation(db: Database.Database): void {
+  const columns = db.pragma("table_info(documentation)") as Array<{ name: string }>;
+  if (columns.length > 0 && !columns.some((c) => c.name === "scope")) {
+    const { n } = db.prepare("SELECT COUNT(*) AS n FROM documentation").get() as { n: number };
+    db.exec(
+      n > 0
+        ? "ALTER TABLE documentation RENAME TO documentation_legacy"
+        : "DROP TABLE documentation"
+    );
+  }
+  db.exec(`
+CREATE TABLE IF NOT EXISTS documentation (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  managed_user_id TEXT NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('project', 'recipe')),
+  target_id INTEGER NOT NULL,
+  project_id INTEGER,
+  version INTEGER NOT NULL,
+  content_md TEXT NOT NULL,
+  content_html TEXT NOT NULL,
+  quality_score REAL,
+  model TEXT,
+  prompt_version TEXT,
+  source_hashes TEXT NOT NULL,
+  publish_status TEXT NOT NULL,
+  generated_at TEXT NOT NULL,
+  published_at TEXT,
+  UNIQUE(managed_user_id, scope, target_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_docs_target ON documentation(managed_user_id, scope, target_id);
+`);
+}
+
+function publisherRefs(db: Database.Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS publisher_refs (
+  publisher TEXT NOT NULL,
+  ref_key TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (publisher, ref_key)
+);
+`);
+}
+
+function docDeliveries(db: Database.Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS doc_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  documentation_id INTEGER NOT NULL,
+  publisher TEXT NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  publish_metadata TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  delivered_at TEXT,
+  UNIQUE(documentation_id, publisher),
+  FOREIGN KEY (documentation_id) REFERENCES documentation(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deliveries_status ON doc_deliveries(status);
+`);
+}
+
+function aiUsage(db: Database.Database): void {
+  addColumn(db, "sync_runs", "estimated_cost_usd", "REAL");
+  db.exec(`
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER,
+  managed_user_id TEXT,
+  project_id INTEGER,
+  method TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL,
+  output_tokens INTEGER NOT NULL,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL,
+  duration_ms INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (run_id) REFERENCES sync_runs(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_run ON ai_usage(run_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_customer ON ai_usage(managed_user_id, created_at);
+`);
+}
+
+function deferredProjects(db: Database.Database): void {
+  db.exec(`
+CREATE TABLE IF NOT EXISTS deferred_projects (
+  managed_user_id TEXT NOT NULL,
+  project_id INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  run_id INTEGER,
+  deferred_at TEXT NOT NULL,
+  PRIMARY KEY (managed_user_id, project_id)
+);
+`);
+}
+
+function runCheckpoints(db: Database.Database): void {
+  addColumn(db, "sync_runs", "run_options", "TEXT");
+  db.exec(`
+CREATE TABLE IF NOT EXISTS run_checkpoints (
+  run_id INTEGER NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('customer', 'project')),
+  managed_user_id TEXT NOT NULL,
+  project_id INTEGER NOT NULL DEFAULT 0,
+  stats TEXT NOT NULL,
+  completed_at TEXT NOT NULL,
+  PRIMARY KEY (run_id, scope, managed_user_id, project_id),
+  FOREIGN KEY (run_id) REFERENCES sync_runs(id)
+);
+`);
+}
+
+function removedEntities(db: Database.Database): void {
+  for (const table of ["projects", "recipes"]) {
+    addColumn(db, table, "removed_at", "TEXT");
+    addColumn(db, table, "removed_reason", "TEXT");
+  }
+}
+
+/**
+ * Replaces the one-snapshot-per-recipe table with a versioned history,
+ * keeping each existing snapshot as version 1.
+ */
+function snapshotHistory(db: Database.Database): void {
+  const columns = db.pragma("table_info(recipe_snapshots)") as Array<{ name: string }>;
+  if (columns.some((c) => c.name === "version")) return;
+  db.exec(`
+ALTER TABLE recipe_snapshots RENAME TO recipe_snapshots_legacy;
+DROP INDEX IF EXISTS idx_snapshots_recipe;
+
+CREATE TABLE recipe_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  recipe_id INTEGER NOT NULL,
+  managed_user_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  run_id INTEGER,
+  content_hash TEXT NOT NULL,
+  raw_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  retired_at TEXT,
+  UNIQUE(recipe_id, version),
+  FOREIGN KEY (recipe_id) REFERENCES recipes(id)
+);
+
+CREATE INDEX idx_snapshots_recipe ON recipe_snapshots(recipe_id);
+
+INSERT INTO recipe_snapshots (id, recipe_id, managed_user_id, version, content_hash, raw_json, created_at)
+  SELECT id, recipe_id, managed_user_id, 1, content_hash, raw_json, created_at
+  FROM recipe_snapshots_legacy;
+DROP TABLE recipe_snapshots_legacy;
+`);
+}
+
+function snapshotChangeSummary(db: Database.Database): void {
+  addColumn(db, "recipe_snapshots", "change_summary", "TEXT");
+  addColumn(db, "recipe_snapshots", "change_type", "TEXT");
+}
+
+/**
+ * Keeps budget deferrals and projects queued because they changed in Workato
+ * apart, one row per kind, so neither overwrites the other's reason.
+ */
+function deferralKinds(db: Database.Database): void {
+  const columns = db.pragma("table_info(deferred_projects)") as Array<{ name: string }>;
+  if (columns.some((c) => c.name === "kind")) return;
+  db.exec(`
+ALTER TABLE deferred_projects RENAME TO deferred_projects_legacy;
+
+CREATE TABLE deferred_projects (
+  managed_user_id TEXT NOT NULL,
+  project_id INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('budget', 'workato_change')),
+  reason TEXT NOT NULL,
+  run_id INTEGER,
+  deferred_at TEXT NOT NULL,
+  PRIMARY KEY (managed_user_id, project_id, kind)
+);
+
+INSERT INTO deferred_projects (managed_user_id, project_id, kind, reason, run_id, deferred_at)
+  SELECT managed_user_id, project_id,
+    CASE reason WHEN 'project changed in Workato' THEN 'workato_change' ELSE 'budget' END,
+    reason, run_id, deferred_at
+  FROM deferred_projects_legacy;
+DROP TABLE deferred_projects_legacy;
+`);
+}
+
+/**
+ * Keys recipes by customer and recipe ID, as Workato recipe IDs are only
+ * unique within an account, and points snapshots at that key. Tables are
+ * rebuilt under a new name and swapped in, so references by name stay put;
+ * the legacy doc archive loses its foreign key, which no longer matches.
+ */
+function recipeCustomerKey(db: Database.Database): void {
+  const columns = db.pragma("table_info(recipes)") as Array<{ name: string; pk: number }>;
+  if (columns.some((c) => c.name === "managed_user_id" && c.pk > 0)) return;
+  db.exec(`
+CREATE TABLE recipes_new (
+  id INTEGER NOT NULL,
+  managed_user_id TEXT NOT NULL,
+  project_id INTEGER,
+  folder_id INTEGER,
+  name TEXT NOT NULL,
+  description TEXT,
+  raw_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  removed_at TEXT,
+  removed_reason TEXT,
+  PRIMARY KEY (managed_user_id, id)
+);
+
+INSERT INTO recipes_new (id, managed_user_id, project_id, folder_id, name, description, raw_json,
+    created_at, updated_at, removed_at, removed_reason)
+  SELECT id, managed_user_id, project_id, folder_id, name, description, raw_json,
+    created_at, updated_at, removed_at, removed_reason
+  FROM recipes;
+DROP TABLE recipes;
+ALTER TABLE recipes_new RENAME TO recipes;
+CREATE INDEX idx_recipes_managed_user ON recipes(managed_user_id);
+
+CREATE TABLE recipe_snapshots_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  recipe_id INTEGER NOT NULL,
+  managed_user_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  run_id INTEGER,
+  content_hash TEXT NOT NULL,
+  raw_json TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  retired_at TEXT,
+  change_summary TEXT,
+  change_type TEXT,
+  UNIQUE(managed_user_id, recipe_id, version),
+  FOREIGN KEY (managed_user_id, recipe_id) REFERENCES recipes(managed_user_id, id)
+);
+
+INSERT INTO recipe_snapshots_new (id, recipe_id, managed_user_id, version, run_id, content_hash,
+    raw_json, created_at, retired_at, change_summary, change_type)
+  SELECT id, recipe_id, managed_user_id, version, run_id, content_hash,
+    raw_json, created_at, retired_at, change_summary, change_type
+  FROM recipe_snapshots;
+DROP TABLE recipe_snapshots;
+ALTER TABLE recipe_snapshots_new RENAME TO recipe_snapshots;
+CREATE INDEX idx_snapshots_recipe ON recipe_snapshots(managed_user_id, recipe_id);
+`);
+  const legacy = db
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'documentation_legacy'`)
+    .get();
+  if (legacy) {
+    db.exec(`
+CREATE TABLE documentation_legacy_new AS SELECT * FROM documentation_legacy;
+DROP TABLE documentation_legacy;
+ALTER TABLE documentation_legacy_new RENAME TO documentation_legacy;
+`);
+  }
+}
+
+/**
+ * Every schema change, oldest first. Each one is written to also bring a
+ * database from a build before migrations were tracked up to date, so it
+ * checks for what it adds before adding it.
+ */
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: "baseline", up: baseline },
+  { version: 2, name: "versioned_documentation", up: versionedDocumentation },
+  { version: 3, name: "publisher_refs", up: publisherRefs },
+  { version: 4, name: "doc_deliveries", up: docDeliveries },
+  { version: 5, name: "ai_usage", up: aiUsage },
+  { version: 6, name: "deferred_projects", up: deferredProjects },
+  { version: 7, name: "run_checkpoints", up: runCheckpoints },
+  {
+    version: 8,
+    name: "run_status",
+    up: (db) => addColumn(db, "sync_runs", "status", "TEXT"),
+  },
+  { version: 9, name: "removed_entities", up: removedEntities },
+  { version: 10, name: "snapshot_history", up: snapshotHistory },
+  { version: 11, name: "snapshot_change_summary", up: snapshotChangeSummary },
+  { version: 12, name: "deferral_kinds", up: deferralKinds },
+  { version: 13, name: "recipe_customer_key", up: recipeCustomerKey },
+];
+
+const MIGRATIONS_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TEXT NOT NULL
+);`;
+
+/** Read-only, so checking status does not touch the database. */
+function appliedMigrations(db: Database.Database): Map<number, { name: string; applied_at: string }> {
+  const exists = db
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`)
+    .get();
+  if (!exists) return new Map();
+  const rows = db
+    .prepare(`SELECT version, name, applied_at FROM schema_migrations ORDER BY version`)
+    .all() as Array<{ version: number; name: string; applied_at: string }>;
+  return new Map(rows.map((r) => [r.version, r]));
+}
+
+/** Every known migration, plus any the database has that this build does not know. */
+export function getMigrationStatus(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): MigrationStatus[] {
+  const applied = appliedMigrations(db);
+  const status = migrations.map((m) => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: applied.get(m.version)?.applied_at ?? null,
+  }));
+  for (const [version, row] of applied) {
+    if (!migrations.some((m) => m.version === version)) {
+      status.push({ version, name: row.name, appliedAt: row.applied_at });
+    }
+  }
+  return status.sort((a, b) => a.version - b.version);
+}
+
+function countForeignKeyViolations(db: Database.Database): number {
+  return (db.pragma("foreign_key_check") as unknown[]).length;
+}
+
+/**
+ * Apply pending migrations in version order and return them. Foreign keys are
+ * off while migrating so tables can be rebuilt; a migration that adds
+ * violations fails. A failing migration is rolled back and stops the rest.
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  ordered.forEach((m, i) => {
+    if (!Number.isInteger(m.version) || m.version < 1 || m.version === ordered[i - 1]?.version) {
+      throw new Error(`Invalid migration version ${m.version} (${m.name})`);
+    }
+  });
+  db.exec(MIGRATIONS_TABLE_SQL);
+  const applied = appliedMigrations(db);
+  const latest = ordered.at(-1)?.version ?? 0;
+  const unknown = [...applied.keys()].filter((v) => v > latest);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database is at schema version ${Math.max(...unknown)}, newer than this build (${latest})`
+    );
+  }
+
+  const pending = ordered.filter((m) => !applied.has(m.version));
+  if (pending.length === 0) return [];
+
+  const foreignKeys = db.pragma("foreign_keys", { simple: true }) as number;
+  db.pragma("foreign_keys = OFF");
+  const isApplied = db.prepare(`SELECT 1 FROM schema_migrations WHERE version = ?`);
+  const recordApplied = db.prepare(
+    `INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)`
+  );
+  const ran: Migration[] = [];
+  try {
+    for (const migration of pending) {
+      try {
+        // IMMEDIATE takes the write lock up front, so a second process
+        // migrating the same file waits and then finds the work done.
+        db.transaction(() => {
+          if (isApplied.get(migration.version)) return;
+          const violationsBefore = countForeignKeyViolations(db);
+          migration.up(db);
+          const added = countForeignKeyViolations(db) - violationsBefore;
+          if (added > 0) throw new Error(`${added} new foreign key violation(s)`);
+          recordApplied.run(migration.version, migration.name, new Date().toISOString());
+          ran.push(migration);
+        }).immediate();
+      } catch (err) {
+        const wrapped = new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${err instanceof Error ? err.message : String(err)}`
+        );
+        wrapped.cause = err;
+        throw wrapped;
+      }
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? "ON" : "OFF"}`);
+  }
+  return ran;
+}
+
+/** One line per migration, oldest first. */
+export function formatMigrationStatus(status: MigrationStatus[]): string {
+  return status
+    .map((m) => `${m.version} ${m.name}: ${m.appliedAt ? `applied ${m.appliedAt}` : "pending"}`)
+    .join("\n");
+}
@@ -15,8 +15,17 @@ export interface Project {
   description?: string | null;
   created_at: string;
   updated_at: string;
+  removed_at?: string | null;
+  removed_reason?: RemovalReason | null;
 }
 
+/**
+ * Why a project or recipe is no longer documented: deleted in Workato (or,
+ * for recipes, moved out of the folders fetched), now excluded by the
+ * customer's inclusion rules, or belonged to a removed project.
+ */
+export type RemovalReason = "deleted" | "excluded" | "project_removed";
+
 export interface Recipe {
   id: number;
   managed_user_id: string;
@@ -27,25 +36,88 @@ export interface Recipe {
   raw_json: string;
   created_at: string;
   updated_at: string;
+  removed_at?: string | null;
+  removed_reason?: RemovalReason | null;
 }
 
+/** One documented version of a recipe; history is append-only. */
 export interface RecipeSnapshot {
   id: number;
   recipe_id: number;
   managed_user_id: string;
+  /** 1-based, per customer and recipe. */
+  version: number;
+  /** Run that documented this version; null for versions from before history was kept. */
+  run_id?: number | null;
   content_hash: string;
   raw_json: string;
   created_at: string;
+  /** Set when the recipe was removed; retired versions are kept but no longer the latest. */
+  retired_at?: string | null;
+  /** Semantic analysis summary of the change from the previous version. */
+  change_summary?: string | null;
+  change_type?: string | null;
 }
 
+export type DocumentationScope = "project" | "recipe";
+
+export type DocumentationPublishStatus =
+  | "pending"
+  | "published"
+  | "needs_review"
+  | "failed"
+  | "archived";
+
+/**
+ * One generated version of a project- or recipe-level doc. Rows are never
+ * updated except for their publish status, so the table doubles as history.
+ * `target_id` is the project ID for project docs and the recipe ID for recipe
+ * docs.
+ */
 export interface Documentation {
   id: number;
-  recipe_id: number;
   managed_user_id: string;
+  scope: DocumentationScope;
+  target_id: number;
+  project_id?: number | null;
+  version: number;
   content_md: string;
   content_html: string;
   quality_score?: number | null;
+  model?: string | null;
+  prompt_version?: string | null;
+  source_hashes: string; // JSON object: recipe ID -> content hash
+  publish_status: DocumentationPublishStatus;
   generated_at: string;
+  published_at?: string | null;
+}
+
+export type DeliveryStatus = "delivered" | "failed" | "superseded";
+
+/**
+ * Outcome of handing one doc version to one publisher. Failed deliveries are
+ * retried from the stored doc on later runs; `superseded` marks failures made
+ * obsolete by a newer version or a routing change.
+ */
+export interface DocDelivery {
+  id: number;
+  documentation_id: number;
+  publisher: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error?: string | null;
+  publish_metadata: string; // JSON PublishMetadata, replayed on retry
+  created_at: string;
+  updated_at: string;
+  delivered_at?: string | null;
+}
+
+/** ID of a doc in an external system (e.g. a Confluence page), per publisher. */
+export interface PublisherRef {
+  publisher: string;
+  ref_key: string;
+  external_id: string;
+  updated_at: string;
 }
 
 export interface SyncRun {
@@ -58,78 +130,80 @@ export interface SyncRun {
   recipes_documented: number;
   errors?: string | null;
   summary?: string | null;
+  estimated_cost_usd?: number | null;
+  run_options?: string | null; // JSON: what the run was asked to do, replayed on resume
+  status?: SyncRunStatus | null; // null while running and for runs recorded before statuses
 }
 
-export const SCHEMA_SQL = `
-CREATE TABLE IF NOT EXISTS customers (
-  id INTEGER PRIMARY KEY,
-  managed_user_id TEXT NOT NULL,
-  external_id TEXT,
-  name TEXT NOT NULL,
-  created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
-);
-
-CREATE TABLE IF NOT EXISTS projects (
-  id INTEGER PRIMARY KEY,
-  folder_id INTEGER NOT NULL,
-  managed_user_id TEXT NOT NULL,
-  name TEXT NOT NULL,
-  description TEXT,
-  created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
-);
-
-CREATE TABLE IF NOT EXISTS recipes (
-  id INTEGER PRIMARY KEY,
-  managed_user_id TEXT NOT NULL,
-  project_id INTEGER,
-  folder_id INTEGER,
-  name TEXT NOT NULL,
-  description TEXT,
-  raw_json TEXT NOT NULL,
-  created_at TEXT NOT NULL,
-  updated_at TEXT NOT NULL
-);
-
-CREATE INDEX IF NOT EXISTS idx_recipes_managed_user ON recipes(managed_user_id);
-
-CREATE TABLE IF NOT EXISTS recipe_snapshots (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  recipe_id INTEGER NOT NULL,
-  managed_user_id TEXT NOT NULL,
-  content_hash TEXT NOT NULL,
-  raw_json TEXT NOT NULL,
-  created_at TEXT NOT NULL,
-  UNIQUE(recipe_id),
-  FOREIGN KEY (recipe_id) REFERENCES recipes(id)
-);
-
-CREATE INDEX IF NOT EXISTS idx_snapshots_recipe ON recipe_snapshots(recipe_id);
-
-CREATE TABLE IF NOT EXISTS documentation (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  recipe_id INTEGER NOT NULL,
-  managed_user_id TEXT NOT NULL,
-  content_md TEXT NOT NULL,
-  content_html TEXT NOT NULL,
-  quality_score REAL,
-  generated_at TEXT NOT NULL,
-  UNIQUE(recipe_id),
-  FOREIGN KEY (recipe_id) REFERENCES recipes(id)
-);
-
-CREATE INDEX IF NOT EXISTS idx_docs_recipe ON documentation(recipe_id);
-
-CREATE TABLE IF NOT EXISTS sync_runs (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  started_at TEXT NOT NULL,
-  finished_at TEXT,
-  customers_processed INTEGER NOT NULL DEFAULT 0,
-  recipes_fetched INTEGER NOT NULL DEFAULT 0,
-  recipes_changed INTEGER NOT NULL DEFAULT 0,
-  recipes_documented INTEGER NOT NULL DEFAULT 0,
-  errors TEXT,
-  summary TEXT
-);
-`;
+/** How a finished run ended; "interrupted" runs stopped for shutdown and can be resumed. */
+export type SyncRunStatus =
+  | "success"
+  | "partial"
+  | "failed"
+  | "cancelled"
+  | "interrupted";
+
+export type RunCheckpointScope = "customer" | "project";
+
+/**
+ * Work a run has completed, so a resumed run can skip it. `stats` holds the
+ * JSON counts the work contributed to the run.
+ */
+export interface RunCheckpoint {
+  run_id: number;
+  scope: RunCheckpointScope;
+  managed_user_id: string;
+  project_id: number; // 0 for customer checkpoints
+  stats: string;
+  completed_at: string;
+}
+
+/**
+ * Tokens used by one model call, attributed to the run and, for calls made
+ * while documenting a project, the customer and project.
+ */
+export interface AiUsage {
+  id: number;
+  run_id?: number | null;
+  managed_user_id?: string | null;
+  project_id?: number | null;
+  method: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_write_tokens: number;
+  cache_read_tokens: number;
+  cost_usd?: number | null; // null when the model is missing from the price table
+  duration_ms: number;
+  created_at: string;
+}
+
+/**
+ * Why a project is queued for the next run: skipped over an AI budget, or
+ * changed in Workato (recipes removed, moved away or renamed).
+ */
+export type DeferralKind = "budget" | "workato_change";
+
+/** Project queued for full regeneration; the next run picks it up first. */
+export interface DeferredProject {
+  managed_user_id: string;
+  project_id: number;
+  kind: DeferralKind;
+  reason: string;
+  run_id?: number | null;
+  deferred_at: string;
+}
+
+/** Summed usage over a set of `ai_usage` rows. */
+export interface AiUsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_write_tokens: number;
+  cache_read_tokens: number;
+  /** Null when any of the calls used a model without a configured price. */
+  cost_usd: number | null;
+  /** Cost of the priced calls alone, as budgets count it. */
+  priced_cost_usd: number;
+  unpriced_calls: number;
+}
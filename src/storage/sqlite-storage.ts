@@ -1,12 +1,22 @@
 import Database, { Statement } from "better-sqlite3";
-import { SCHEMA_SQL } from "./schema.js";
+import { existsSync } from "fs";
+import { MIGRATIONS, getMigrationStatus, runMigrations } from "./migrations.js";
+import type { Migration, MigrationStatus } from "./migrations.js";
 import type {
   Customer,
   Project,
   Recipe,
   RecipeSnapshot,
+  DocDelivery,
   Documentation,
+  PublisherRef,
   SyncRun,
+  AiUsage,
+  AiUsageTotals,
+  DeferredProject,
+  RunCheckpoint,
+  DocumentationScope,
+  RemovalReason,
 } from "./schema.js";
 import type { Storage } from "./storage.js";
 
@@ -14,11 +24,151 @@ export interface SqliteStorageConfig {
   path?: string;
 }
 
-export function createSqliteStorage(config: SqliteStorageConfig = {}): Storage {
-  const db = new Database(config.path ?? "workato-doc-agent.db");
+const DEFAULT_DB_PATH = "workato-doc-agent.db";
+
+const DELIVERY_COLUMNS = `id, documentation_id, publisher, status, attempts, last_error, publish_metadata,
+  created_at, updated_at, delivered_at`;
+
+const DOC_COLUMNS = `id, managed_user_id, scope, target_id, project_id, version, content_md, content_html,
+  quality_score, model, prompt_version, source_hashes, publish_status, generated_at, published_at`;
+
+const PROJECT_COLUMNS = `id, folder_id, managed_user_id, name, description, created_at, updated_at,
+  removed_at, removed_reason`;
+
+const RECIPE_COLUMNS = `id, managed_user_id, project_id, folder_id, name, description, raw_json,
+  created_at, updated_at, removed_at, removed_reason`;
+
+const SNAPSHOT_COLUMNS = `id, recipe_id, managed_user_id, version, run_id, content_hash, raw_json,
+  created_at, retired_at, change_summary, change_type`;
+
+const RUN_COLUMNS = `id, started_at, finished_at, customers_processed, recipes_fetched, recipes_changed,
+  recipes_documented, errors, summary, estimated_cost_usd, run_options, status`;
+
+const USAGE_TOTALS = `COUNT(*) AS calls,
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cache_write_tokens), 0) AS cache_write_tokens,
+  COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+  CASE WHEN COUNT(cost_usd) = COUNT(*) THEN COALESCE(SUM(cost_usd), 0) END AS cost_usd,
+  COALESCE(SUM(cost_usd), 0) AS priced_cost_usd,
+  COUNT(*) - COUNT(cost_usd) AS unpriced_calls`;
+
+/** Column names per table, as SQLite reports them. */
+function describeTables(db: Database.Database): Map<string, Set<string>> {
+  const tables = db
+    .prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'`
+    )
+    .all() as Array<{ name: string }>;
+  return new Map(
+    tables.map(({ name }) => [
+      name,
+      new Set(
+        (db.pragma(`table_info(${name})`) as Array<{ name: string }>).map(
+          (c) => c.name
+        )
+      ),
+    ])
+  );
+}
+
+/**
+ * Differences from the schema this build migrates to: pending or unknown
+ * migrations, and missing tables or columns.
+ */
+function schemaProblems(db: Database.Database): string[] {
+  const expected = new Database(":memory:");
+  try {
+    runMigrations(expected);
+    const actual = describeTables(db);
+    const problems: string[] = [];
+    for (const m of getMigrationStatus(db)) {
+      if (m.appliedAt === null) {
+        problems.push(`pending migration ${m.version} (${m.name})`);
+      } else if (!MIGRATIONS.some((known) => known.version === m.version)) {
+        problems.push(`unknown migration ${m.version} (${m.name}) from a newer build`);
+      }
+    }
+    for (const [table, columns] of describeTables(expected)) {
+      const present = actual.get(table);
+      if (!present) {
+        problems.push(`missing table ${table}`);
+        continue;
+      }
+      for (const column of columns) {
+        if (!present.has(column)) problems.push(`missing column ${table}.${column}`);
+      }
+    }
+    return problems;
+  } finally {
+    expected.close();
+  }
+}
+
+function openDatabase(config: SqliteStorageConfig): Database.Database {
+  const db = new Database(config.path ?? DEFAULT_DB_PATH);
   db.pragma("journal_mode = WAL");
   db.pragma("foreign_keys = ON");
-  db.exec(SCHEMA_SQL);
+  return db;
+}
+
+/** Migration status of the database, without applying anything. */
+export function getSqliteMigrationStatus(config: SqliteStorageConfig = {}): MigrationStatus[] {
+  const db = openDatabase(config);
+  try {
+    return getMigrationStatus(db);
+  } finally {
+    db.close();
+  }
+}
+
+/** Apply pending migrations and return them. */
+export function migrateSqliteDatabase(config: SqliteStorageConfig = {}): Migration[] {
+  const db = openDatabase(config);
+  try {
+    return runMigrations(db);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Open an existing database read-only, without migrating it, for checks that
+ * must not change it. Run queries only once `getSchemaProblems` is empty.
+ */
+export function openSqliteStorageReadOnly(
+  config: SqliteStorageConfig = {}
+): Pick<Storage, "getSchemaProblems" | "listSyncRuns" | "close"> {
+  const path = config.path ?? DEFAULT_DB_PATH;
+  if (path !== ":memory:" && !existsSync(path)) {
+    throw new Error(`Database ${path} does not exist; run "npm run migrate -- --up" to create it`);
+  }
+  const db = new Database(path, { readonly: true });
+  return {
+    getSchemaProblems: () => schemaProblems(db),
+    listSyncRuns(limit) {
+      return db
+        .prepare(`SELECT ${RUN_COLUMNS} FROM sync_runs ORDER BY id DESC LIMIT ?`)
+        .all(limit) as SyncRun[];
+    },
+    close() {
+      db.close();
+    },
+  };
+}
+
+export function createSqliteStorage(config: SqliteStorageConfig = {}): Storage {
+  const db = openDatabase(config);
+  // Statements below are prepared against the migrated schema.
+  const init = () => {
+    runMigrations(db);
+  };
+  try {
+    init();
+  } catch (err) {
+    db.close();
+    throw err;
+  }
 
   // Cache prepared statements for performance
   const stmts = {
@@ -37,69 +187,261 @@ export function createSqliteStorage(config: SqliteStorageConfig = {}): Storage {
          folder_id = excluded.folder_id,
          name = excluded.name,
          description = excluded.description,
-         updated_at = excluded.updated_at`
+         updated_at = excluded.updated_at,
+         removed_at = NULL,
+         removed_reason = NULL`
     ),
     upsertRecipe: db.prepare(
       `INSERT INTO recipes (id, managed_user_id, project_id, folder_id, name, description, raw_json, created_at, updated_at)
        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-       ON CONFLICT(id) DO UPDATE SET
+       ON CONFLICT(managed_user_id, id) DO UPDATE SET
          project_id = excluded.project_id,
          folder_id = excluded.folder_id,
          name = excluded.name,
          description = excluded.description,
          raw_json = excluded.raw_json,
-         updated_at = excluded.updated_at`
+         updated_at = excluded.updated_at,
+         removed_at = NULL,
+         removed_reason = NULL`
+    ),
+    getCustomer: db.prepare(
+      `SELECT id, managed_user_id, external_id, name, created_at, updated_at
+       FROM customers WHERE managed_user_id = ?`
+    ),
+    findCustomer: db.prepare(
+      `SELECT id, managed_user_id, external_id, name, created_at, updated_at
+       FROM customers WHERE managed_user_id = @id OR external_id = @id
+       ORDER BY managed_user_id = @id DESC LIMIT 1`
     ),
     getProject: db.prepare(
-      `SELECT id, folder_id, managed_user_id, name, description, created_at, updated_at
-       FROM projects WHERE id = ? AND managed_user_id = ?`
+      `SELECT ${PROJECT_COLUMNS} FROM projects WHERE id = ? AND managed_user_id = ?`
+    ),
+    listProjectsByCustomer: db.prepare(
+      `SELECT ${PROJECT_COLUMNS}
+       FROM projects WHERE managed_user_id = ? AND removed_at IS NULL ORDER BY id`
+    ),
+    markProjectRemoved: db.prepare(
+      `UPDATE projects SET removed_at = @removed_at, removed_reason = @reason
+       WHERE id = @id AND managed_user_id = @managed_user_id`
     ),
     getRecipe: db.prepare(
-      `SELECT id, managed_user_id, project_id, folder_id, name, description, raw_json, created_at, updated_at
-       FROM recipes WHERE id = ? AND managed_user_id = ?`
+      `SELECT ${RECIPE_COLUMNS} FROM recipes WHERE id = ? AND managed_user_id = ?`
     ),
     getRecipesByCustomer: db.prepare(
-      `SELECT id, managed_user_id, project_id, folder_id, name, description, raw_json, created_at, updated_at
-       FROM recipes WHERE managed_user_id = ?`
+      `SELECT ${RECIPE_COLUMNS}
+       FROM recipes WHERE managed_user_id = ? AND removed_at IS NULL`
+    ),
+    markRecipeRemoved: db.prepare(
+      `UPDATE recipes SET removed_at = @removed_at, removed_reason = @reason
+       WHERE id = @id AND managed_user_id = @managed_user_id`
+    ),
+    retireSnapshots: db.prepare(
+      `UPDATE recipe_snapshots SET retired_at = ?
+       WHERE recipe_id = ? AND managed_user_id = ? AND retired_at IS NULL`
     ),
     getAllRecipes: db.prepare(
-      `SELECT id, managed_user_id, project_id, folder_id, name, description, raw_json, created_at, updated_at
-       FROM recipes`
+      `SELECT ${RECIPE_COLUMNS} FROM recipes WHERE removed_at IS NULL`
     ),
     getLatestSnapshot: db.prepare(
-      `SELECT id, recipe_id, managed_user_id, content_hash, raw_json, created_at
-       FROM recipe_snapshots WHERE recipe_id = ? ORDER BY created_at DESC LIMIT 1`
-    ),
-    upsertSnapshot: db.prepare(
-      `INSERT INTO recipe_snapshots (recipe_id, managed_user_id, content_hash, raw_json, created_at)
-       VALUES (?, ?, ?, ?, ?)
-       ON CONFLICT(recipe_id) DO UPDATE SET
-         content_hash = excluded.content_hash,
-         raw_json = excluded.raw_json,
-         created_at = excluded.created_at`
+      `SELECT ${SNAPSHOT_COLUMNS} FROM recipe_snapshots
+       WHERE recipe_id = ? AND managed_user_id = ? AND retired_at IS NULL
+       ORDER BY version DESC LIMIT 1`
     ),
-    upsertDocumentation: db.prepare(
-      `INSERT INTO documentation (recipe_id, managed_user_id, content_md, content_html, quality_score, generated_at)
-       VALUES (?, ?, ?, ?, ?, ?)
-       ON CONFLICT(recipe_id) DO UPDATE SET
-         content_md = excluded.content_md,
-         content_html = excluded.content_html,
-         quality_score = excluded.quality_score,
-         generated_at = excluded.generated_at`
+    insertSnapshot: db.prepare(
+      `INSERT INTO recipe_snapshots (recipe_id, managed_user_id, version, run_id, content_hash, raw_json,
+         created_at, change_summary, change_type)
+       VALUES (@recipe_id, @managed_user_id,
+         (SELECT COALESCE(MAX(version), 0) + 1 FROM recipe_snapshots
+          WHERE recipe_id = @recipe_id AND managed_user_id = @managed_user_id),
+         @run_id, @content_hash, @raw_json, @created_at, @change_summary, @change_type)
+       RETURNING ${SNAPSHOT_COLUMNS}`
+    ),
+    listSnapshots: db.prepare(
+      `SELECT ${SNAPSHOT_COLUMNS} FROM recipe_snapshots
+       WHERE recipe_id = ? AND managed_user_id = ? ORDER BY version`
+    ),
+    getSnapshot: db.prepare(
+      `SELECT ${SNAPSHOT_COLUMNS} FROM recipe_snapshots
+       WHERE recipe_id = ? AND managed_user_id = ? AND version = ?`
+    ),
+    listStaleSnapshots: db.prepare(
+      `SELECT ${SNAPSHOT_COLUMNS}
+       FROM recipe_snapshots WHERE substr(content_hash, 1, length(?)) != ?`
+    ),
+    updateSnapshotHash: db.prepare(
+      `UPDATE recipe_snapshots SET content_hash = @content_hash WHERE id = @id`
+    ),
+    insertDocumentation: db.prepare(
+      `INSERT INTO documentation (managed_user_id, scope, target_id, project_id, version, content_md, content_html,
+         quality_score, model, prompt_version, source_hashes, publish_status, generated_at, published_at)
+       VALUES (?, ?, ?, ?,
+         (SELECT COALESCE(MAX(version), 0) + 1 FROM documentation
+          WHERE managed_user_id = ? AND scope = ? AND target_id = ?),
+         ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING ${DOC_COLUMNS}`
+    ),
+    updateDocumentationStatus: db.prepare(
+      `UPDATE documentation SET
+         publish_status = ?,
+         published_at = COALESCE(?, published_at)
+       WHERE id = ?`
+    ),
+    getDocumentationById: db.prepare(
+      `SELECT ${DOC_COLUMNS} FROM documentation WHERE id = ?`
     ),
     getDocumentation: db.prepare(
-      `SELECT id, recipe_id, managed_user_id, content_md, content_html, quality_score, generated_at
-       FROM documentation WHERE recipe_id = ?`
+      `SELECT ${DOC_COLUMNS}
+       FROM documentation WHERE managed_user_id = ? AND scope = ? AND target_id = ?
+       ORDER BY version DESC LIMIT 1`
+    ),
+    getPublishedDocumentation: db.prepare(
+      `SELECT ${DOC_COLUMNS}
+       FROM documentation WHERE managed_user_id = ? AND scope = ? AND target_id = ?
+         AND publish_status = 'published'
+       ORDER BY version DESC LIMIT 1`
+    ),
+    // Latest delivered version of each doc whose recipe or project was
+    // removed, or whose project has no active recipes left. Recipe docs
+    // first, so they go before the project page they may be nested under.
+    listArchivableDocumentation: db.prepare(
+      `SELECT ${DOC_COLUMNS}
+       FROM documentation d
+       WHERE d.publish_status IN ('published', 'failed')
+         AND d.version = (
+           SELECT MAX(version) FROM documentation x
+           WHERE x.managed_user_id = d.managed_user_id AND x.scope = d.scope
+             AND x.target_id = d.target_id AND x.publish_status IN ('published', 'failed'))
+         AND (@managedUserIds IS NULL OR d.managed_user_id IN (SELECT value FROM json_each(@managedUserIds)))
+         AND CASE d.scope
+           WHEN 'recipe' THEN EXISTS (
+             SELECT 1 FROM recipes r
+             WHERE r.id = d.target_id AND r.managed_user_id = d.managed_user_id
+               AND r.removed_at IS NOT NULL)
+           ELSE EXISTS (
+             SELECT 1 FROM projects p
+             WHERE p.id = d.target_id AND p.managed_user_id = d.managed_user_id
+               AND p.removed_at IS NOT NULL)
+             OR NOT EXISTS (
+             SELECT 1 FROM recipes r
+             WHERE r.project_id = d.target_id AND r.managed_user_id = d.managed_user_id
+               AND r.removed_at IS NULL)
+         END
+       ORDER BY d.scope DESC, d.managed_user_id, d.target_id`
+    ),
+    archiveDocumentation: db.prepare(
+      `UPDATE documentation SET publish_status = 'archived'
+       WHERE managed_user_id = ? AND scope = ? AND target_id = ? AND publish_status != 'archived'`
+    ),
+    supersedeTargetDeliveries: db.prepare(
+      `UPDATE doc_deliveries SET status = 'superseded', updated_at = ?
+       WHERE status = 'failed' AND documentation_id IN (
+         SELECT id FROM documentation WHERE managed_user_id = ? AND scope = ? AND target_id = ?)`
+    ),
+    listDocumentationVersions: db.prepare(
+      `SELECT ${DOC_COLUMNS}
+       FROM documentation WHERE managed_user_id = ? AND scope = ? AND target_id = ?
+       ORDER BY version DESC`
+    ),
+    recordDelivery: db.prepare(
+      `INSERT INTO doc_deliveries (documentation_id, publisher, status, attempts, last_error, publish_metadata,
+         created_at, updated_at, delivered_at)
+       VALUES (@documentation_id, @publisher, @status, 1, @error, @publish_metadata, @now, @now,
+         CASE WHEN @status = 'delivered' THEN @now END)
+       ON CONFLICT(documentation_id, publisher) DO UPDATE SET
+         status = excluded.status,
+         attempts = attempts + 1,
+         last_error = excluded.last_error,
+         updated_at = excluded.updated_at,
+         delivered_at = COALESCE(excluded.delivered_at, delivered_at)`
+    ),
+    listDeliveries: db.prepare(
+      `SELECT ${DELIVERY_COLUMNS} FROM doc_deliveries WHERE documentation_id = ? ORDER BY publisher`
+    ),
+    listRetryableDeliveries: db.prepare(
+      `SELECT dd.id, dd.documentation_id, dd.publisher, dd.status, dd.attempts, dd.last_error,
+         dd.publish_metadata, dd.created_at, dd.updated_at, dd.delivered_at
+       FROM doc_deliveries dd
+       JOIN documentation d ON d.id = dd.documentation_id
+       WHERE dd.status = 'failed'
+         AND dd.attempts < @maxAttempts
+         AND (@managedUserIds IS NULL
+              OR d.managed_user_id IN (SELECT value FROM json_each(@managedUserIds)))
+         AND d.version = (SELECT MAX(version) FROM documentation latest
+                          WHERE latest.managed_user_id = d.managed_user_id
+                            AND latest.scope = d.scope
+                            AND latest.target_id = d.target_id
+                            AND latest.publish_status <> 'needs_review')
+       ORDER BY dd.id`
+    ),
+    supersedeOlderDeliveries: db.prepare(
+      `UPDATE doc_deliveries SET status = 'superseded', updated_at = ?
+       WHERE status = 'failed' AND documentation_id IN (
+         SELECT id FROM documentation
+         WHERE managed_user_id = ? AND scope = ? AND target_id = ? AND version < ?)`
+    ),
+    markDeliverySuperseded: db.prepare(
+      `UPDATE doc_deliveries SET status = 'superseded', updated_at = ? WHERE id = ?`
+    ),
+    getPublisherRef: db.prepare(
+      `SELECT publisher, ref_key, external_id, updated_at
+       FROM publisher_refs WHERE publisher = ? AND ref_key = ?`
+    ),
+    upsertPublisherRef: db.prepare(
+      `INSERT INTO publisher_refs (publisher, ref_key, external_id, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(publisher, ref_key) DO UPDATE SET
+         external_id = excluded.external_id,
+         updated_at = excluded.updated_at`
+    ),
+    deletePublisherRef: db.prepare(
+      `DELETE FROM publisher_refs WHERE publisher = ? AND ref_key = ?`
     ),
     getLastSuccessfulRun: db.prepare(
-      `SELECT id, started_at, finished_at, customers_processed, recipes_fetched, recipes_changed, recipes_documented, errors, summary
+      `SELECT ${RUN_COLUMNS}
        FROM sync_runs
        WHERE finished_at IS NOT NULL AND (errors IS NULL OR errors = '')
        ORDER BY finished_at DESC LIMIT 1`
     ),
+    getLastFullFetchRun: db.prepare(
+      `SELECT ${RUN_COLUMNS}
+       FROM sync_runs
+       WHERE finished_at IS NOT NULL AND run_options IS NOT NULL
+         AND json_extract(run_options, '$.updatedAfter') IS NULL
+         AND COALESCE(status, '') NOT IN ('failed', 'cancelled', 'interrupted')
+       ORDER BY started_at DESC LIMIT 1`
+    ),
+    listSyncRuns: db.prepare(
+      `SELECT ${RUN_COLUMNS}
+       FROM sync_runs ORDER BY id DESC LIMIT ?`
+    ),
+    getSyncRun: db.prepare(
+      `SELECT ${RUN_COLUMNS}
+       FROM sync_runs WHERE id = ?`
+    ),
+    listResumableSyncRuns: db.prepare(
+      `SELECT ${RUN_COLUMNS}
+       FROM sync_runs WHERE finished_at IS NULL OR status = 'interrupted'
+       ORDER BY id DESC`
+    ),
+    reopenSyncRun: db.prepare(
+      `UPDATE sync_runs SET finished_at = NULL, status = NULL, errors = NULL, summary = NULL
+       WHERE id = ?`
+    ),
     createSyncRun: db.prepare(
-      `INSERT INTO sync_runs (started_at, customers_processed, recipes_fetched, recipes_changed, recipes_documented)
-       VALUES (datetime('now'), 0, 0, 0, 0)`
+      `INSERT INTO sync_runs (started_at, customers_processed, recipes_fetched, recipes_changed, recipes_documented, run_options)
+       VALUES (datetime('now'), 0, 0, 0, 0, ?)`
+    ),
+    saveRunCheckpoint: db.prepare(
+      `INSERT INTO run_checkpoints (run_id, scope, managed_user_id, project_id, stats, completed_at)
+       VALUES (@run_id, @scope, @managed_user_id, @project_id, @stats, @completed_at)
+       ON CONFLICT(run_id, scope, managed_user_id, project_id) DO UPDATE SET
+         stats = excluded.stats,
+         completed_at = excluded.completed_at`
+    ),
+    listRunCheckpoints: db.prepare(
+      `SELECT run_id, scope, managed_user_id, project_id, stats, completed_at
+       FROM run_checkpoints WHERE run_id = ?
+       ORDER BY scope, managed_user_id, project_id`
     ),
     finishSyncRun: db.prepare(
       `UPDATE sync_runs SET
@@ -109,20 +451,64 @@ export function createSqliteStorage(config: SqliteStorageConfig = {}): Storage {
          recipes_changed = ?,
          recipes_documented = ?,
          errors = ?,
-         summary = ?
+         summary = ?,
+         estimated_cost_usd = ?,
+         status = ?
        WHERE id = ?`
     ),
+    deferProject: db.prepare(
+      `INSERT INTO deferred_projects (managed_user_id, project_id, kind, reason, run_id, deferred_at)
+       VALUES (@managed_user_id, @project_id, @kind, @reason, @run_id, @deferred_at)
+       ON CONFLICT(managed_user_id, project_id, kind) DO UPDATE SET
+         reason = excluded.reason,
+         run_id = excluded.run_id,
+         deferred_at = excluded.deferred_at`
+    ),
+    listDeferredProjects: db.prepare(
+      `SELECT managed_user_id, project_id, kind, reason, run_id, deferred_at
+       FROM deferred_projects
+       WHERE @managedUserIds IS NULL
+          OR managed_user_id IN (SELECT value FROM json_each(@managedUserIds))
+       ORDER BY kind = 'budget' DESC, deferred_at, managed_user_id, project_id`
+    ),
+    clearDeferredProject: db.prepare(
+      `DELETE FROM deferred_projects WHERE managed_user_id = ? AND project_id = ?`
+    ),
+    recordAiUsage: db.prepare(
+      `INSERT INTO ai_usage (run_id, managed_user_id, project_id, method, model, input_tokens, output_tokens,
+         cache_write_tokens, cache_read_tokens, cost_usd, duration_ms, created_at)
+       VALUES (@run_id, @managed_user_id, @project_id, @method, @model, @input_tokens, @output_tokens,
+         @cache_write_tokens, @cache_read_tokens, @cost_usd, @duration_ms, @created_at)`
+    ),
+    getRunAiUsage: db.prepare(
+      `SELECT ${USAGE_TOTALS} FROM ai_usage WHERE run_id = ?`
+    ),
+    listRunAiUsageByCustomer: db.prepare(
+      `SELECT managed_user_id, ${USAGE_TOTALS}
+       FROM ai_usage WHERE run_id = ?
+       GROUP BY managed_user_id
+       ORDER BY managed_user_id`
+    ),
+    listAiUsageByCustomer: db.prepare(
+      `SELECT managed_user_id, ${USAGE_TOTALS}
+       FROM ai_usage
+       WHERE managed_user_id IS NOT NULL AND created_at >= @from AND created_at < @to
+       GROUP BY managed_user_id
+       ORDER BY cost_usd DESC`
+    ),
   };
 
   return {
-    init() {
-      db.exec(SCHEMA_SQL);
-    },
+    init,
 
     close() {
       db.close();
     },
 
+    getSchemaProblems() {
+      return schemaProblems(db);
+    },
+
     upsertCustomer(customer) {
       stmts.upsertCustomer.run(
         customer.id,
@@ -160,6 +546,16 @@ export function createSqliteStorage(config: SqliteStorageConfig = {}): Storage {
       );
     },
 
+    getCustomer(managedUserId) {
+      const row = stmts.getCustomer.get(managedUserId) as Customer | undefined;
+      return row ?? null;
+    },
+
+    findCustomer(id) {
+      const row = stmts.findCustomer.get({ id }) as Customer | undefined;
+      return row ?? null;
+    },
+
     getProject(projectId, managedUserId) {
       const row = stmts.getProject.get(projectId, managedUserId) as
         | Project
@@ -178,52 +574,236 @@ export function createSqliteStorage(config: SqliteStorageConfig = {}): Storage {
       return stmts.getRecipesByCustomer.all(managedUserId) as Recipe[];
     },
 
+    listProjectsByCustomer(managedUserId) {
+      return stmts.listProjectsByCustomer.all(managedUserId) as Project[];
+    },
+
+    markProjectRemoved(projectId, managedUserId, reason) {
+      stmts.markProjectRemoved.run({
+        id: projectId,
+        managed_user_id: managedUserId,
+        reason,
+        removed_at: new Date().toISOString(),
+      });
+    },
+
+    markRecipeRemoved: db.transaction(
+      (recipeId: number, managedUserId: string, reason: RemovalReason) => {
+        stmts.markRecipeRemoved.run({
+          id: recipeId,
+          managed_user_id: managedUserId,
+          reason,
+          removed_at: new Date().toISOString(),
+        });
+        stmts.retireSnapshots.run(new Date().toISOString(), recipeId, managedUserId);
+      }
+    ),
+
     getAllRecipes() {
       return stmts.getAllRecipes.all() as Recipe[];
     },
 
-    getLatestSnapshot(recipeId) {
-      const row = stmts.getLatestSnapshot.get(recipeId) as
+    getLatestSnapshot(recipeId, managedUserId) {
+      const row = stmts.getLatestSnapshot.get(recipeId, managedUserId) as
         | RecipeSnapshot
         | undefined;
       return row ?? null;
     },
 
-    upsertSnapshot(snapshot) {
-      stmts.upsertSnapshot.run(
-        snapshot.recipe_id,
-        snapshot.managed_user_id,
-        snapshot.content_hash,
-        snapshot.raw_json,
-        snapshot.created_at
-      );
+    appendSnapshot: db.transaction(
+      (snapshot: Omit<RecipeSnapshot, "id" | "version" | "retired_at">) => {
+        const latest = stmts.getLatestSnapshot.get(
+          snapshot.recipe_id,
+          snapshot.managed_user_id
+        ) as
+          | RecipeSnapshot
+          | undefined;
+        if (latest?.content_hash === snapshot.content_hash) return null;
+        return stmts.insertSnapshot.get({
+          ...snapshot,
+          run_id: snapshot.run_id ?? null,
+          change_summary: snapshot.change_summary ?? null,
+          change_type: snapshot.change_type ?? null,
+        }) as RecipeSnapshot;
+      }
+    ),
+
+    listSnapshots(recipeId, managedUserId) {
+      return stmts.listSnapshots.all(recipeId, managedUserId) as RecipeSnapshot[];
+    },
+
+    getSnapshot(recipeId, managedUserId, version) {
+      const row = stmts.getSnapshot.get(recipeId, managedUserId, version) as
+        | RecipeSnapshot
+        | undefined;
+      return row ?? null;
     },
 
-    upsertDocumentation(doc) {
-      stmts.upsertDocumentation.run(
-        doc.recipe_id,
+    listStaleSnapshots(hashPrefix) {
+      return stmts.listStaleSnapshots.all(hashPrefix, hashPrefix) as RecipeSnapshot[];
+    },
+
+    updateSnapshotHashes: db.transaction(
+      (updates: Array<{ id: number; content_hash: string }>) => {
+        for (const update of updates) stmts.updateSnapshotHash.run(update);
+      }
+    ),
+
+    insertDocumentation(doc) {
+      return stmts.insertDocumentation.get(
+        doc.managed_user_id,
+        doc.scope,
+        doc.target_id,
+        doc.project_id ?? null,
         doc.managed_user_id,
+        doc.scope,
+        doc.target_id,
         doc.content_md,
         doc.content_html,
         doc.quality_score ?? null,
-        doc.generated_at
-      );
+        doc.model ?? null,
+        doc.prompt_version ?? null,
+        doc.source_hashes,
+        doc.publish_status,
+        doc.generated_at,
+        doc.published_at ?? null
+      ) as Documentation;
+    },
+
+    updateDocumentationStatus(docId, status, publishedAt) {
+      stmts.updateDocumentationStatus.run(status, publishedAt ?? null, docId);
     },
 
-    getDocumentation(recipeId) {
-      const row = stmts.getDocumentation.get(recipeId) as
+    getDocumentationById(docId) {
+      const row = stmts.getDocumentationById.get(docId) as
         | Documentation
         | undefined;
       return row ?? null;
     },
 
+    getDocumentation(managedUserId, scope, targetId) {
+      const row = stmts.getDocumentation.get(managedUserId, scope, targetId) as
+        | Documentation
+        | undefined;
+      return row ?? null;
+    },
+
+    getPublishedDocumentation(managedUserId, scope, targetId) {
+      const row = stmts.getPublishedDocumentation.get(
+        managedUserId,
+        scope,
+        targetId
+      ) as Documentation | undefined;
+      return row ?? null;
+    },
+
+    listArchivableDocumentation(managedUserIds) {
+      return stmts.listArchivableDocumentation.all({
+        managedUserIds: managedUserIds ? JSON.stringify(managedUserIds) : null,
+      }) as Documentation[];
+    },
+
+    archiveDocumentation: db.transaction(
+      (managedUserId: string, scope: DocumentationScope, targetId: number) => {
+        stmts.archiveDocumentation.run(managedUserId, scope, targetId);
+        stmts.supersedeTargetDeliveries.run(
+          new Date().toISOString(),
+          managedUserId,
+          scope,
+          targetId
+        );
+      }
+    ),
+
+    listDocumentationVersions(managedUserId, scope, targetId) {
+      return stmts.listDocumentationVersions.all(
+        managedUserId,
+        scope,
+        targetId
+      ) as Documentation[];
+    },
+
+    recordDelivery(delivery) {
+      stmts.recordDelivery.run({
+        documentation_id: delivery.documentation_id,
+        publisher: delivery.publisher,
+        status: delivery.status,
+        error: delivery.error ?? null,
+        publish_metadata: delivery.publish_metadata,
+        now: new Date().toISOString(),
+      });
+    },
+
+    listDeliveries(documentationId) {
+      return stmts.listDeliveries.all(documentationId) as DocDelivery[];
+    },
+
+    listRetryableDeliveries(maxAttempts, managedUserIds) {
+      return stmts.listRetryableDeliveries.all({
+        maxAttempts,
+        managedUserIds: managedUserIds ? JSON.stringify(managedUserIds) : null,
+      }) as DocDelivery[];
+    },
+
+    supersedeOlderDeliveries(doc) {
+      stmts.supersedeOlderDeliveries.run(
+        new Date().toISOString(),
+        doc.managed_user_id,
+        doc.scope,
+        doc.target_id,
+        doc.version
+      );
+    },
+
+    markDeliverySuperseded(deliveryId) {
+      stmts.markDeliverySuperseded.run(new Date().toISOString(), deliveryId);
+    },
+
+    getPublisherRef(publisher, refKey) {
+      const row = stmts.getPublisherRef.get(publisher, refKey) as
+        | PublisherRef
+        | undefined;
+      return row ?? null;
+    },
+
+    upsertPublisherRef(ref) {
+      stmts.upsertPublisherRef.run(
+        ref.publisher,
+        ref.ref_key,
+        ref.external_id,
+        ref.updated_at
+      );
+    },
+
+    deletePublisherRef(publisher, refKey) {
+      stmts.deletePublisherRef.run(publisher, refKey);
+    },
+
     getLastSuccessfulRun() {
       const row = stmts.getLastSuccessfulRun.get() as SyncRun | undefined;
       return row ?? null;
     },
 
-    createSyncRun() {
-      const result = stmts.createSyncRun.run();
+    getLastFullFetchRun() {
+      const row = stmts.getLastFullFetchRun.get() as SyncRun | undefined;
+      return row ?? null;
+    },
+
+    listSyncRuns(limit) {
+      return stmts.listSyncRuns.all(limit) as SyncRun[];
+    },
+
+    getSyncRun(runId) {
+      const row = stmts.getSyncRun.get(runId) as SyncRun | undefined;
+      return row ?? null;
+    },
+
+    listResumableSyncRuns() {
+      return stmts.listResumableSyncRuns.all() as SyncRun[];
+    },
+
+    createSyncRun(runOptions) {
+      const result = stmts.createSyncRun.run(runOptions ?? null);
       return result.lastInsertRowid as number;
     },
 
@@ -235,8 +815,63 @@ export function createSqliteStorage(config: SqliteStorageConfig = {}): Storage {
         stats.recipesDocumented,
         stats.errors ?? null,
         stats.summary ?? null,
+        stats.estimatedCostUsd ?? null,
+        stats.status ?? null,
         runId
       );
     },
+
+    reopenSyncRun(runId) {
+      stmts.reopenSyncRun.run(runId);
+    },
+
+    saveRunCheckpoint(checkpoint) {
+      stmts.saveRunCheckpoint.run(checkpoint);
+    },
+
+    listRunCheckpoints(runId) {
+      return stmts.listRunCheckpoints.all(runId) as RunCheckpoint[];
+    },
+
+    deferProject(project) {
+      stmts.deferProject.run({ ...project, run_id: project.run_id ?? null });
+    },
+
+    listDeferredProjects(managedUserIds) {
+      return stmts.listDeferredProjects.all({
+        managedUserIds: managedUserIds ? JSON.stringify(managedUserIds) : null,
+      }) as DeferredProject[];
+    },
+
+    clearDeferredProject(managedUserId, projectId) {
+      stmts.clearDeferredProject.run(managedUserId, projectId);
+    },
+
+    recordAiUsage(usage) {
+      stmts.recordAiUsage.run({
+        ...usage,
+        run_id: usage.run_id ?? null,
+        managed_user_id: usage.managed_user_id ?? null,
+        project_id: usage.project_id ?? null,
+        cost_usd: usage.cost_usd ?? null,
+      });
+    },
+
+    getRunAiUsage(runId) {
+      return stmts.getRunAiUsage.get(runId) as AiUsageTotals;
+    },
+
+    listRunAiUsageByCustomer(runId) {
+      return stmts.listRunAiUsageByCustomer.all(runId) as Array<
+        AiUsageTotals & { managed_user_id: string | null }
+      >;
+    },
+
+    listAiUsageByCustomer(range) {
+      return stmts.listAiUsageByCustomer.all({
+        from: range.from ?? "",
+        to: range.to ?? "9999",
+      }) as Array<AiUsageTotals & { managed_user_id: string }>;
+    },
   };
 }
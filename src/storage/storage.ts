@@ -3,31 +3,142 @@ import type {
   Project,
   Recipe,
   RecipeSnapshot,
+  DeliveryStatus,
+  DocDelivery,
   Documentation,
+  DocumentationPublishStatus,
+  DocumentationScope,
+  PublisherRef,
   SyncRun,
+  SyncRunStatus,
+  AiUsage,
+  AiUsageTotals,
+  DeferredProject,
+  RunCheckpoint,
+  RemovalReason,
 } from "./schema.js";
 
 export interface Storage {
+  /** Apply pending schema migrations; storage is created migrated. */
   init(): void;
   close(): void;
+  /** Tables or columns the current schema expects but the database lacks. */
+  getSchemaProblems(): string[];
 
   upsertCustomer(customer: Customer): void;
   upsertProject(project: Project): void;
   upsertRecipe(recipe: Recipe): void;
 
+  getCustomer(managedUserId: string): Customer | null;
+  /** By managed user ID or external ID, as customers are named on the CLI. */
+  findCustomer(id: string): Customer | null;
   getRecipe(recipeId: number, managedUserId: string): Recipe | null;
   getProject(projectId: number, managedUserId: string): Project | null;
+  /** Recipes not marked removed. */
   getRecipesByCustomer(managedUserId: string): Recipe[];
   getAllRecipes(): Recipe[];
+  /** Projects not marked removed. */
+  listProjectsByCustomer(managedUserId: string): Project[];
+  /** Cleared again when the project is next upserted. */
+  markProjectRemoved(projectId: number, managedUserId: string, reason: RemovalReason): void;
+  /**
+   * Cleared again when the recipe is next upserted. Retires its snapshots,
+   * so a recipe that comes back is documented as new.
+   */
+  markRecipeRemoved(recipeId: number, managedUserId: string, reason: RemovalReason): void;
 
-  getLatestSnapshot(recipeId: number): RecipeSnapshot | null;
-  upsertSnapshot(snapshot: Omit<RecipeSnapshot, "id">): void;
+  /** Latest version not retired by a removal. */
+  getLatestSnapshot(recipeId: number, managedUserId: string): RecipeSnapshot | null;
+  /**
+   * Append a new version, numbered per customer and recipe. Returns null without adding
+   * one when the content hash matches the latest version.
+   */
+  appendSnapshot(
+    snapshot: Omit<RecipeSnapshot, "id" | "version" | "retired_at">
+  ): RecipeSnapshot | null;
+  /** All versions of the recipe, oldest first, including retired ones. */
+  listSnapshots(recipeId: number, managedUserId: string): RecipeSnapshot[];
+  getSnapshot(recipeId: number, managedUserId: string, version: number): RecipeSnapshot | null;
+  /** Snapshots whose content hash does not start with `hashPrefix`. */
+  listStaleSnapshots(hashPrefix: string): RecipeSnapshot[];
+  /** Rewrite content hashes in one transaction. */
+  updateSnapshotHashes(updates: Array<{ id: number; content_hash: string }>): void;
 
-  upsertDocumentation(doc: Omit<Documentation, "id">): void;
-  getDocumentation(recipeId: number): Documentation | null;
+  /** Append a new doc version; the version number is assigned per target. */
+  insertDocumentation(doc: Omit<Documentation, "id" | "version">): Documentation;
+  updateDocumentationStatus(
+    docId: number,
+    status: DocumentationPublishStatus,
+    publishedAt?: string
+  ): void;
+  getDocumentationById(docId: number): Documentation | null;
+  /** Latest version for the target, regardless of publish status. */
+  getDocumentation(
+    managedUserId: string,
+    scope: DocumentationScope,
+    targetId: number
+  ): Documentation | null;
+  /** Latest version that reached publishers, i.e. what customers currently see. */
+  getPublishedDocumentation(
+    managedUserId: string,
+    scope: DocumentationScope,
+    targetId: number
+  ): Documentation | null;
+  /**
+   * Docs that reached publishers but whose recipe or project was removed, or
+   * whose project has no active recipes left: the latest delivered version
+   * per target, recipe docs first. Optionally limited to some customers.
+   */
+  listArchivableDocumentation(managedUserIds?: string[]): Documentation[];
+  /** Mark every version of the target archived and stop retrying its deliveries. */
+  archiveDocumentation(
+    managedUserId: string,
+    scope: DocumentationScope,
+    targetId: number
+  ): void;
+  /** All versions for the target, newest first. */
+  listDocumentationVersions(
+    managedUserId: string,
+    scope: DocumentationScope,
+    targetId: number
+  ): Documentation[];
+
+  /** Record one delivery attempt, creating the row on first attempt. */
+  recordDelivery(delivery: {
+    documentation_id: number;
+    publisher: string;
+    status: DeliveryStatus;
+    error?: string;
+    publish_metadata: string;
+  }): void;
+  listDeliveries(documentationId: number): DocDelivery[];
+  /**
+   * Failed deliveries still worth retrying: under `maxAttempts` and for the
+   * latest version of their target that was not held for review. Optionally
+   * limited to some customers.
+   */
+  listRetryableDeliveries(
+    maxAttempts: number,
+    managedUserIds?: string[]
+  ): DocDelivery[];
+  /** Mark failed deliveries of older versions of this doc's target as superseded. */
+  supersedeOlderDeliveries(doc: Documentation): void;
+  markDeliverySuperseded(deliveryId: number): void;
+
+  getPublisherRef(publisher: string, refKey: string): PublisherRef | null;
+  upsertPublisherRef(ref: PublisherRef): void;
+  deletePublisherRef(publisher: string, refKey: string): void;
 
   getLastSuccessfulRun(): SyncRun | null;
-  createSyncRun(): number;
+  /** Latest completed run that listed every recipe rather than only updated ones. */
+  getLastFullFetchRun(): SyncRun | null;
+  /** Most recent runs first. */
+  listSyncRuns(limit: number): SyncRun[];
+  getSyncRun(runId: number): SyncRun | null;
+  /** Unfinished or interrupted runs, newest first. */
+  listResumableSyncRuns(): SyncRun[];
+  /** `runOptions` is stored as given (JSON) so the run can be resumed. */
+  createSyncRun(runOptions?: string): number;
   finishSyncRun(
     runId: number,
     stats: {
@@ -37,6 +148,37 @@ export interface Storage {
       recipesDocumented: number;
       errors?: string;
       summary?: string;
+      estimatedCostUsd?: number | null;
+      status?: SyncRunStatus;
     }
   ): void;
+  /** Mark a resumed run as running again, clearing its end state. */
+  reopenSyncRun(runId: number): void;
+
+  saveRunCheckpoint(checkpoint: RunCheckpoint): void;
+  listRunCheckpoints(runId: number): RunCheckpoint[];
+
+  /** One row per project and kind; deferring again replaces the row's reason, run and time. */
+  deferProject(project: DeferredProject): void;
+  /** Budget deferrals first, then oldest first; optionally limited to some customers. */
+  listDeferredProjects(managedUserIds?: string[]): DeferredProject[];
+  /** Clears every kind: the project was regenerated in full. */
+  clearDeferredProject(managedUserId: string, projectId: number): void;
+
+  recordAiUsage(usage: Omit<AiUsage, "id">): void;
+  /** Token and cost totals for one run. */
+  getRunAiUsage(runId: number): AiUsageTotals;
+  /** One run's totals per customer; run-level calls have a null customer. */
+  listRunAiUsageByCustomer(
+    runId: number
+  ): Array<AiUsageTotals & { managed_user_id: string | null }>;
+  /**
+   * Token and cost totals per customer for calls made in `[from, to)` (ISO
+   * timestamps), most expensive first. Run-level calls such as the run
+   * summary belong to no customer and are left out.
+   */
+  listAiUsageByCustomer(range: {
+    from?: string;
+    to?: string;
+  }): Array<AiUsageTotals & { managed_user_id: string }>;
 }
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PRICE_TABLE,
+  estimateCostUsd,
+  parsePriceTable,
+} from "../src/ai/pricing.js";
+import type { AIUsage } from "../src/ai/ai-client.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+
+function usage(overrides: Partial<AIUsage> = {}): AIUsage {
+  return {
+    method: "generateProjectDocumentation",
+    model: "claude-haiku-4-5-20251001",
+    inputTokens: 1_000_000,
+    outputTokens: 100_000,
+    cacheWriteTokens: 0,
+    cacheReadTokens: 0,
+    durationMs: 1200,
+    ...overrides,
+  };
+}
+
+describe("AI cost estimation", () => {
+  it("prices a call by the longest matching model prefix", () => {
+    const table = parsePriceTable(
+      JSON.stringify({
+        "claude-haiku-4-5-2025": { input: 2, output: 10, cacheWrite: 0, cacheRead: 0 },
+      })
+    );
+    expect(estimateCostUsd(usage(), DEFAULT_PRICE_TABLE)).toBeCloseTo(1.5);
+    expect(estimateCostUsd(usage(), table)).toBeCloseTo(3);
+    expect(estimateCostUsd(usage({ model: "unknown-model" }), table)).toBeNull();
+  });
+
+  it("rejects incomplete price entries", () => {
+    expect(() => parsePriceTable('{"m": {"input": 1}}')).toThrow(/numeric/);
+  });
+
+  it("totals usage per run and per customer", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const runId = storage.createSyncRun();
+      const row = {
+        run_id: runId,
+        method: "assessQuality",
+        model: "claude-sonnet-4-5",
+        input_tokens: 100,
+        output_tokens: 10,
+        cache_write_tokens: 0,
+        cache_read_tokens: 5,
+        duration_ms: 10,
+        created_at: "2026-03-01T00:00:00.000Z",
+      };
+      storage.recordAiUsage({ ...row, managed_user_id: "1", project_id: 7, cost_usd: 0.25 });
+      storage.recordAiUsage({ ...row, managed_user_id: "2", project_id: 8, cost_usd: 0.5 });
+      storage.recordAiUsage({ ...row, cost_usd: null });
+      storage.recordAiUsage({ ...row, managed_user_id: "3", project_id: 9, cost_usd: 0.1 });
+      storage.recordAiUsage({ ...row, managed_user_id: "3", project_id: 9, cost_usd: null });
+
+      // An unpriced call makes the total unknown rather than too low.
+      expect(storage.getRunAiUsage(runId)).toMatchObject({
+        calls: 5,
+        input_tokens: 500,
+        cache_read_tokens: 25,
+        cost_usd: null,
+        unpriced_calls: 2,
+      });
+      expect(
+        storage
+          .listAiUsageByCustomer({ from: "2026-03-01" })
+          .map((r) => [r.managed_user_id, r.cost_usd, r.unpriced_calls])
+      ).toEqual([
+        ["2", 0.5, 0],
+        ["1", 0.25, 0],
+        ["3", null, 1],
+      ]);
+      expect(storage.listAiUsageByCustomer({ to: "2026-03-01" })).toEqual([]);
+    } finally {
+      storage.close();
+    }
+  });
+});
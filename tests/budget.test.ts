@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  BudgetExceededError,
+  budgetConfigFromEnv,
+  createBudgetTracker,
+  seedBudgetTracker,
+} from "../src/pipeline/budget.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+
+describe("budget tracker", () => {
+  const config = budgetConfigFromEnv({
+    BUDGET_RUN_SOFT_COST_USD: "10",
+    BUDGET_RUN_HARD_COST_USD: "12",
+    BUDGET_CUSTOMER_SOFT_TOKENS: "1000",
+  });
+
+  it("stops new work for a customer over its soft limit only", () => {
+    const budget = createBudgetTracker(config);
+    budget.record({ tokens: 1000, costUsd: 1 }, "a");
+    expect(budget.softLimitReached("a")).toBe("customer a tokens 1000 reached 1000");
+    expect(budget.softLimitReached("b")).toBeNull();
+    expect(() => budget.assertWithinHardLimit("a")).not.toThrow();
+  });
+
+  it("applies run limits to every customer and refuses calls past the hard limit", () => {
+    const budget = createBudgetTracker(config);
+    budget.record({ tokens: 10, costUsd: 10.5 }, "a");
+    expect(budget.softLimitReached("b")).toMatch(/^run cost \$10\.50 reached \$10\.00/);
+    expect(() => budget.assertWithinHardLimit("b")).not.toThrow();
+
+    budget.record({ tokens: 10, costUsd: null });
+    budget.record({ tokens: 10, costUsd: 2 });
+    expect(() => budget.assertWithinHardLimit("b")).toThrow(BudgetExceededError);
+  });
+
+  it("starts a resumed run from the usage it already recorded", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const runId = storage.createSyncRun();
+      const usage = (
+        managedUserId: string | undefined,
+        tokens: number,
+        cost: number | null
+      ) =>
+        storage.recordAiUsage({
+          run_id: runId,
+          managed_user_id: managedUserId,
+          method: "generateProjectDocumentation",
+          model: "m",
+          input_tokens: tokens,
+          output_tokens: 0,
+          cache_write_tokens: 0,
+          cache_read_tokens: 0,
+          cost_usd: cost,
+          duration_ms: 1,
+          created_at: "2026-10-01T00:00:00.000Z",
+        });
+      usage("a", 600, 1);
+      usage("a", 400, null);
+      usage(undefined, 10, 8);
+
+      const budget = createBudgetTracker(config);
+      seedBudgetTracker(budget, storage.listRunAiUsageByCustomer(runId));
+      expect(budget.softLimitReached("a")).toBe("customer a tokens 1000 reached 1000");
+      expect(budget.softLimitReached("b")).toBeNull();
+      budget.record({ tokens: 1, costUsd: 1 }, "b");
+      expect(budget.softLimitReached("b")).toBe("run cost $10.00 reached $10.00");
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("rejects invalid limits", () => {
+    expect(() => budgetConfigFromEnv({ BUDGET_RUN_HARD_TOKENS: "lots" })).toThrow(
+      /BUDGET_RUN_HARD_TOKENS/
+    );
+  });
+});
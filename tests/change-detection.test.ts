@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { computeRecipeHash } from "../src/rules/hash-compare.js";
+import {
+  detectChanges,
+  groupChangesByProject,
+} from "../src/pipeline/change-detection.js";
+import type { WorkatoRecipe } from "../src/api/workato-client.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+
+function recipe(id: number, projectId: number | null, code = "{}"): WorkatoRecipe {
+  return { id, name: `Recipe ${id}`, project_id: projectId, code } as WorkatoRecipe;
+}
+
+describe("change detection", () => {
+  it("finds new and changed recipes and groups them after deferred projects", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      for (const r of [recipe(1, 100), recipe(2, 200)]) {
+        storage.upsertRecipe({
+          id: r.id,
+          managed_user_id: "1",
+          project_id: null,
+          folder_id: null,
+          name: r.name,
+          description: null,
+          raw_json: JSON.stringify(r),
+          created_at: "2026-01-01T00:00:00Z",
+          updated_at: "2026-01-01T00:00:00Z",
+        });
+        storage.appendSnapshot({
+          recipe_id: r.id,
+          managed_user_id: "1",
+          content_hash: computeRecipeHash(r),
+          raw_json: JSON.stringify(r),
+          created_at: new Date().toISOString(),
+        });
+      }
+      storage.deferProject({ managed_user_id: "1", project_id: 300, kind: "budget", reason: "budget", deferred_at: new Date().toISOString() });
+      storage.deferProject({ managed_user_id: "2", project_id: 400, kind: "budget", reason: "budget", deferred_at: new Date().toISOString() });
+
+      const fetched = [
+        recipe(1, 100),
+        recipe(2, 200, '{"v":2}'),
+        recipe(3, 300),
+        recipe(4, null),
+      ].map((r) => ({ recipe: r, managedUserId: "1" }));
+      const changes = detectChanges(storage, fetched, false);
+      expect(changes.map((c) => [c.recipeId, c.projectId, c.reason])).toEqual([
+        [2, 200, "hash_changed"],
+        [3, 300, "new"],
+        [4, null, "new"],
+      ]);
+
+      const grouped = groupChangesByProject(storage, changes, ["1"]);
+      expect(
+        [...grouped].map(([key, p]) => [key, p.deferred, [...p.recipes.entries()]])
+      ).toEqual([
+        ["1:300", true, [[3, "new"]]],
+        ["1:200", false, [[2, "hash_changed"]]],
+      ]);
+
+      expect(detectChanges(storage, fetched, true).map((c) => c.reason)).toEqual([
+        "forced",
+        "forced",
+        "forced",
+        "forced",
+      ]);
+    } finally {
+      storage.close();
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { appendChangelog, buildProjectChangelog } from "../src/pipeline/changelog.js";
+import { computeRecipeHash } from "../src/rules/hash-compare.js";
+import type { WorkatoRecipe } from "../src/api/workato-client.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+
+function recipe(id: number, versionNo: number, overrides: Partial<WorkatoRecipe> = {}): WorkatoRecipe {
+  return {
+    id,
+    name: `Recipe ${id}`,
+    code: JSON.stringify({ provider: "clock", name: "scheduled_event", v: versionNo }),
+    version_no: versionNo,
+    version_author_name: "Dana",
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  } as WorkatoRecipe;
+}
+
+describe("project changelog", () => {
+  it("lists stored and pending versions newest first and appends them to the doc", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      for (const r of [recipe(1, 1), recipe(2, 1)]) {
+        storage.upsertRecipe({
+          id: r.id,
+          managed_user_id: "1",
+          name: r.name,
+          raw_json: JSON.stringify(r),
+          created_at: r.created_at,
+          updated_at: r.updated_at,
+        });
+      }
+      const snapshot = (r: WorkatoRecipe, createdAt: string, summary?: string) =>
+        storage.appendSnapshot({
+          recipe_id: r.id,
+          managed_user_id: "1",
+          content_hash: computeRecipeHash(r),
+          raw_json: JSON.stringify(r),
+          created_at: createdAt,
+          change_summary: summary,
+        });
+      snapshot(recipe(1, 1), "2026-09-01T10:00:00.000Z");
+      snapshot(recipe(1, 2, { version_comment: "Filter closed" }), "2026-09-20T10:00:00.000Z", "Skips closed accounts.");
+      snapshot(recipe(2, 1), "2026-09-20T09:00:00.000Z");
+
+      const current = [recipe(1, 3, { version_author_name: "Lee" }), recipe(2, 1)];
+      const entries = buildProjectChangelog(storage, "1", current, {
+        summaries: new Map([[1, "Adds a Slack notification."]]),
+        now: new Date("2026-10-19T08:00:00Z"),
+        limit: 3,
+      });
+      expect(entries.map((e) => [e.date, e.recipeId, e.versionNo])).toEqual([
+        ["2026-10-19", 1, 3],
+        ["2026-09-20", 2, 1],
+        ["2026-09-20", 1, 2],
+      ]);
+
+      const doc = appendChangelog({ markdown: "# Billing\n", html: "<h1>Billing</h1>" }, entries);
+      expect(doc.markdown).toBe(
+        [
+          "# Billing",
+          "",
+          "## Recent Changes",
+          "",
+          "### 2026-10-19",
+          "",
+          "- **Recipe 1** (version 3, by Lee): Adds a Slack notification.",
+          "",
+          "### 2026-09-20",
+          "",
+          "- **Recipe 2** (version 1, by Dana): First documented.",
+          '- **Recipe 1** (version 2, by Dana): Skips closed accounts. Comment: "Filter closed"',
+          "",
+        ].join("\n")
+      );
+      expect(doc.html).toContain("<h2>Recent Changes</h2>");
+      expect(appendChangelog({ markdown: "# Billing" }, [])).toEqual({ markdown: "# Billing" });
+    } finally {
+      storage.close();
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { createLimiter, mapWithConcurrency } from "../src/concurrency.js";
+
+const tick = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("concurrency helpers", () => {
+  it("never runs more than the limit at once", async () => {
+    const limit = createLimiter(2);
+    let active = 0;
+    let peak = 0;
+    await Promise.all(
+      Array.from({ length: 6 }, (_, i) =>
+        limit(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await tick(5 + (i % 3));
+          active--;
+        })
+      )
+    );
+    expect(peak).toBe(2);
+  });
+
+  it("keeps results in input order and releases slots on failure", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, i) => {
+      await tick(ms);
+      return i;
+    });
+    expect(results).toEqual([0, 1, 2]);
+
+    const limit = createLimiter(1);
+    await expect(limit(async () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    await expect(limit(async () => "next")).resolves.toBe("next");
+  });
+});
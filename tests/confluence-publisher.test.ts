@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, Server, IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import {
+  createConfluencePageStore,
+  createConfluencePublisher,
+  type ConfluencePageStore,
+} from "../src/publishers/confluence-publisher.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+import { toConfluenceStorageFormat } from "../src/publishers/confluence-storage-format.js";
+
+interface MockPage {
+  id: string;
+  title: string;
+  spaceKey: string;
+  ancestors?: Array<{ id: string }>;
+  body: string;
+  version: number;
+}
+
+// Minimal in-memory stand-in for the Confluence content REST API.
+const pages = new Map<string, MockPage>();
+const requests: Array<{ method: string; url: string }> = [];
+let nextId = 100;
+let server: Server;
+let baseUrl: string;
+
+/** What the publisher sends to create or update a page. */
+interface PageRequestBody {
+  title: string;
+  space: { key: string };
+  ancestors?: Array<{ id: string }>;
+  body: { storage: { value: string } };
+  version?: { number: number };
+}
+
+function readBody(req: IncomingMessage): Promise<PageRequestBody | undefined> {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () =>
+      resolve(data ? (JSON.parse(data) as PageRequestBody) : undefined)
+    );
+  });
+}
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requests.push({ method: req.method ?? "", url: url.pathname });
+    const body = await readBody(req);
+    const send = (status: number, payload: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(payload));
+    };
+    const toJson = (p: MockPage) => ({
+      id: p.id,
+      title: p.title,
+      version: { number: p.version },
+    });
+
+    const match = url.pathname.match(/^\/wiki\/rest\/api\/content(?:\/(\w+))?$/);
+    if (!match) return send(404, { message: "Not found" });
+    const id = match[1];
+
+    if (!id && req.method === "POST") {
+      if (!body) return send(400, { message: "Missing body" });
+      const page: MockPage = {
+        id: String(nextId++),
+        title: body.title,
+        spaceKey: body.space.key,
+        ancestors: body.ancestors,
+        body: body.body.storage.value,
+        version: 1,
+      };
+      pages.set(page.id, page);
+      return send(200, toJson(page));
+    }
+    const page = id ? pages.get(id) : undefined;
+    if (!page) return send(404, { message: "No content found" });
+    if (req.method === "GET") return send(200, toJson(page));
+    if (req.method === "DELETE") {
+      pages.delete(page.id);
+      return send(204, {});
+    }
+    if (req.method === "PUT") {
+      if (!body?.version || body.version.number !== page.version + 1) {
+        return send(409, { message: "Version conflict" });
+      }
+      Object.assign(page, {
+        title: body.title,
+        body: body.body.storage.value,
+        version: body.version.number,
+      });
+      return send(200, toJson(page));
+    }
+    send(405, { message: "Method not allowed" });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/wiki`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function memoryPageStore(): ConfluencePageStore & { ids: Map<string, string> } {
+  const ids = new Map<string, string>();
+  return {
+    ids,
+    get: (key) => ids.get(key) ?? null,
+    set: (key, id) => void ids.set(key, id),
+    delete: (key) => void ids.delete(key),
+  };
+}
+
+const projectDoc = {
+  managedUserId: "42",
+  projectId: 7,
+  contentMd: "# Sync",
+  contentHtml: "<h1>Sync</h1><p>Employees&nbsp;sync<br></p>",
+};
+const projectMeta = { projectName: "HR Sync", projectSlug: "hr-sync", isProjectDoc: true };
+
+describe("createConfluencePublisher", () => {
+  beforeEach(() => {
+    pages.clear();
+    requests.length = 0;
+  });
+
+  it("creates a page and updates it in place on re-run", async () => {
+    const pageStore = memoryPageStore();
+    const publisher = createConfluencePublisher({
+      baseUrl,
+      apiToken: "token",
+      spaceKey: "DOCS",
+      parentPageId: "1",
+      pageStore,
+    });
+
+    await publisher.publish(projectDoc, projectMeta);
+    await publisher.publish({ ...projectDoc, contentHtml: "<p>v2</p>" }, projectMeta);
+
+    expect(pages.size).toBe(1);
+    const page = [...pages.values()][0];
+    expect(page.version).toBe(2);
+    expect(page.body).toBe("<p>v2</p>");
+    expect(page.ancestors).toEqual([{ id: "1" }]);
+    expect(pageStore.ids.get("42:project:7")).toBe(page.id);
+  });
+
+  it("keeps page IDs apart for two Confluence publishers in one registry", async () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const publishers = ["wiki-a", "wiki-b"].map((name) =>
+        createConfluencePublisher({
+          baseUrl,
+          apiToken: "token",
+          spaceKey: name,
+          pageStore: createConfluencePageStore(storage, name),
+        })
+      );
+      for (const run of ["v1", "v2"]) {
+        for (const publisher of publishers) {
+          await publisher.publish({ ...projectDoc, contentHtml: `<p>${run}</p>` }, projectMeta);
+        }
+      }
+
+      expect([...pages.values()].map((p) => p.version)).toEqual([2, 2]);
+      expect(storage.getPublisherRef("wiki-a", "42:project:7")?.external_id).not.toBe(
+        storage.getPublisherRef("wiki-b", "42:project:7")?.external_id
+      );
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("uses per-customer targets and nests recipe pages below the project page", async () => {
+    const publisher = createConfluencePublisher({
+      baseUrl,
+      apiToken: "token",
+      spaceKey: "DOCS",
+      customerTargets: { "42": { spaceKey: "ACME" } },
+      pageStore: memoryPageStore(),
+    });
+
+    await publisher.publish(projectDoc, projectMeta);
+    await publisher.publish(
+      { ...projectDoc, recipeId: 9 },
+      { recipeName: "Create employee", projectSlug: "hr-sync", isProjectDoc: false }
+    );
+
+    const [project, recipe] = [...pages.values()];
+    expect(project.spaceKey).toBe("ACME");
+    expect(recipe.title).toBe("Create employee");
+    expect(recipe.ancestors).toEqual([{ id: project.id }]);
+  });
+
+  it("recreates a page that was deleted in Confluence", async () => {
+    const pageStore = memoryPageStore();
+    pageStore.set("42:project:7", "999");
+    const publisher = createConfluencePublisher({
+      baseUrl,
+      apiToken: "token",
+      spaceKey: "DOCS",
+      pageStore,
+    });
+
+    await publisher.publish(projectDoc, projectMeta);
+
+    expect(pages.size).toBe(1);
+    expect(pageStore.ids.get("42:project:7")).toBe([...pages.keys()][0]);
+  });
+
+  it("never updates another customer's page with the same title", async () => {
+    const pageStore = memoryPageStore();
+    const publisher = createConfluencePublisher({
+      baseUrl,
+      apiToken: "token",
+      spaceKey: "DOCS",
+      pageStore,
+    });
+    await publisher.publish(projectDoc, projectMeta);
+    const [other] = [...pages.values()];
+
+    await publisher.publish(
+      { ...projectDoc, managedUserId: "43", contentHtml: "<p>mine</p>" },
+      projectMeta
+    );
+
+    expect(requests.filter((r) => r.method === "PUT")).toHaveLength(0);
+    expect(pages.get(other.id)?.body).not.toBe("<p>mine</p>");
+    expect(pageStore.ids.get("43:project:7")).not.toBe(other.id);
+  });
+
+  it("archives only the stored page", async () => {
+    const pageStore = memoryPageStore();
+    const publisher = createConfluencePublisher({
+      baseUrl,
+      apiToken: "token",
+      spaceKey: "DOCS",
+      pageStore,
+    });
+    await publisher.publish(projectDoc, projectMeta);
+
+    // Same title, but this customer never published it.
+    await publisher.archive!({ ...projectDoc, managedUserId: "43" }, projectMeta);
+    expect(pages.size).toBe(1);
+
+    await publisher.archive!(projectDoc, projectMeta);
+    expect(pages.size).toBe(0);
+    expect(pageStore.ids.has("42:project:7")).toBe(false);
+  });
+});
+
+describe("toConfluenceStorageFormat", () => {
+  it("self-closes void elements and replaces HTML-only entities", () => {
+    expect(toConfluenceStorageFormat('<p>a&nbsp;b<br><img src="x.png"></p>')).toBe(
+      '<p>a&#160;b<br /><img src="x.png" /></p>'
+    );
+  });
+
+  it("converts code blocks to the code macro", () => {
+    const html = '<pre><code class="language-json">{&quot;a&quot;: 1 &amp;&amp; ]]&gt;}\n</code></pre>';
+    expect(toConfluenceStorageFormat(html)).toBe(
+      '<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">json</ac:parameter>' +
+        '<ac:plain-text-body><![CDATA[{"a": 1 && ]]]]><![CDATA[>}]]></ac:plain-text-body></ac:structured-macro>'
+    );
+  });
+
+  it("strips scripts", () => {
+    expect(toConfluenceStorageFormat("<p>x</p><script>alert(1)</script>")).toBe("<p>x</p>");
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, Server } from "http";
+import type { AddressInfo } from "net";
+import { createControlApiHandler } from "../src/control-api.js";
+import type { ControlApiConfig } from "../src/control-api.js";
+import type { ActiveRun, StartRunOptions } from "../src/pipeline/run-manager.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+import type { Storage } from "../src/storage/storage.js";
+
+let storage: Storage;
+let server: Server;
+let baseUrl: string;
+let config: ControlApiConfig;
+let active: ActiveRun | null;
+const started: StartRunOptions[] = [];
+
+function activeRun(runId: number): ActiveRun {
+  return {
+    runId,
+    trigger: "api",
+    force: false,
+    startedAt: "2026-10-01T00:00:00.000Z",
+    controller: new AbortController(),
+    promise: Promise.resolve(),
+  };
+}
+
+beforeAll(async () => {
+  storage = createSqliteStorage({ path: ":memory:" });
+  storage.upsertCustomer({
+    id: 1,
+    managed_user_id: "1",
+    external_id: "E1",
+    name: "One",
+    created_at: "2026-01-01",
+    updated_at: "2026-01-01",
+  });
+  // The handler reads `config` per server, so each test can swap it.
+  server = createServer(async (req, res) => {
+    if (!(await createControlApiHandler(config)(req, res))) {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  storage.close();
+});
+
+beforeEach(() => {
+  active = null;
+  started.length = 0;
+  config = {
+    token: "secret",
+    storage,
+    runs: {
+      start: (options) => {
+        if (active) return null;
+        started.push(options);
+        active = activeRun(99);
+        return active;
+      },
+      cancel: (runId) => active !== null && active.runId === runId,
+      active: () => active,
+    },
+  };
+});
+
+function request(path: string, init: RequestInit = {}, token: string | null = "secret") {
+  return fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+function postSync(body: unknown) {
+  return request("/api/sync", { method: "POST", body: JSON.stringify(body) });
+}
+
+describe("createControlApiHandler", () => {
+  it("rejects a missing or wrong bearer token", async () => {
+    for (const token of [null, "wrong", "secret-but-longer"]) {
+      const res = await request("/api/runs", {}, token);
+      expect(res.status).toBe(401);
+      expect(res.headers.get("www-authenticate")).toBe("Bearer");
+    }
+  });
+
+  it("is disabled without a token", async () => {
+    config = { ...config, token: undefined };
+    const res = await request("/api/runs");
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({
+      error: "Control API is disabled (CONTROL_API_TOKEN not set)",
+    });
+  });
+
+  it("starts a run by managed user or external ID and refuses a second one", async () => {
+    const res = await postSync({ customerId: "E1", force: true, mode: "both" });
+    expect(res.status).toBe(202);
+    expect(started).toEqual([
+      { trigger: "api", customerId: "E1", force: true, mode: "both" },
+    ]);
+
+    const again = await postSync({});
+    expect(again.status).toBe(409);
+    expect(await again.json()).toMatchObject({
+      error: "A run is already in progress",
+      active: { runId: 99 },
+    });
+    expect(started).toHaveLength(1);
+  });
+
+  it("rejects an invalid mode or an unknown customer", async () => {
+    const badMode = await postSync({ mode: "everything" });
+    expect(badMode.status).toBe(400);
+    expect((await badMode.json()).error).toContain("everything");
+
+    const unknown = await postSync({ customerId: "404" });
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toEqual({ error: "Unknown customer 404" });
+
+    const notString = await postSync({ customerId: 1 });
+    expect(notString.status).toBe(400);
+    expect(started).toEqual([]);
+  });
+
+  it("returns 404 for a run that does not exist", async () => {
+    const runId = storage.createSyncRun();
+    expect((await request(`/api/runs/${runId}`)).status).toBe(200);
+    const res = await request(`/api/runs/${runId + 1}`);
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: "Run not found" });
+  });
+
+  it("only cancels the active run", async () => {
+    const idle = await request("/api/runs/5/cancel", { method: "POST" });
+    expect(idle.status).toBe(409);
+    expect(await idle.json()).toEqual({ error: "Run 5 is not in progress" });
+
+    active = activeRun(7);
+    expect((await request("/api/runs/5/cancel", { method: "POST" })).status).toBe(409);
+    const res = await request("/api/runs/7/cancel", { method: "POST" });
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ status: "cancelling", runId: 7 });
+  });
+});
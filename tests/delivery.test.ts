@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import pino from "pino";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+import type { Storage } from "../src/storage/storage.js";
+import type { Publisher } from "../src/publishers/publisher.js";
+import type { NamedPublisher, PublisherRegistry } from "../src/publishers/registry.js";
+import {
+  deliverDocumentation,
+  retryFailedDeliveries,
+} from "../src/pipeline/delivery.js";
+
+const log = pino({ level: "silent" });
+
+function recordingPublisher(failTimes = 0): Publisher & { calls: number } {
+  const pub = {
+    calls: 0,
+    async publish() {
+      pub.calls++;
+      if (pub.calls <= failTimes) throw new Error("unavailable");
+    },
+  };
+  return pub;
+}
+
+function registryOf(publishers: NamedPublisher[]): PublisherRegistry {
+  return {
+    forCustomer: () => publishers,
+    names: () => publishers.map((p) => p.name),
+  };
+}
+
+describe("doc delivery", () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = createSqliteStorage({ path: ":memory:" });
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  function storeDoc(version = "a") {
+    return storage.insertDocumentation({
+      managed_user_id: "1",
+      scope: "project",
+      target_id: 7,
+      project_id: 7,
+      content_md: `# ${version}`,
+      content_html: `<h1>${version}</h1>`,
+      source_hashes: "{}",
+      publish_status: "pending",
+      generated_at: new Date().toISOString(),
+    });
+  }
+
+  it("isolates publisher failures and retries only the failed publisher", async () => {
+    const files = recordingPublisher();
+    const portal = recordingPublisher(1);
+    const publishers = [
+      { name: "files", publisher: files },
+      { name: "portal", publisher: portal },
+    ];
+    const doc = storeDoc();
+
+    const result = await deliverDocumentation(storage, doc, publishers, {
+      projectName: "HR",
+      isProjectDoc: true,
+    });
+    expect(result.delivered).toEqual(["files"]);
+    expect(result.failed).toEqual([{ publisher: "portal", error: "unavailable" }]);
+    expect(storage.getDocumentationById(doc.id)?.publish_status).toBe("failed");
+
+    const retry = await retryFailedDeliveries(
+      { storage, registry: registryOf(publishers), log },
+      { maxAttempts: 5 }
+    );
+    expect(retry).toEqual({ retried: 1, delivered: 1, errors: [] });
+    expect(files.calls).toBe(1);
+    expect(portal.calls).toBe(2);
+    expect(storage.getPublishedDocumentation("1", "project", 7)?.id).toBe(doc.id);
+  });
+
+  it("does not retry deliveries superseded by a newer version", async () => {
+    const portal = recordingPublisher(1);
+    const publishers = [{ name: "portal", publisher: portal }];
+    await deliverDocumentation(storage, storeDoc("a"), publishers, {});
+    storage.supersedeOlderDeliveries(storeDoc("b"));
+
+    const retry = await retryFailedDeliveries(
+      { storage, registry: registryOf(publishers), log },
+      { maxAttempts: 5 }
+    );
+    expect(retry.retried).toBe(0);
+  });
+
+  it("stops retrying after maxAttempts", async () => {
+    const portal = recordingPublisher(10);
+    const publishers = [{ name: "portal", publisher: portal }];
+    await deliverDocumentation(storage, storeDoc(), publishers, {});
+    const ctx = { storage, registry: registryOf(publishers), log };
+
+    await retryFailedDeliveries(ctx, { maxAttempts: 2 });
+    const last = await retryFailedDeliveries(ctx, { maxAttempts: 2 });
+    expect(last.retried).toBe(0);
+    expect(portal.calls).toBe(2);
+  });
+});
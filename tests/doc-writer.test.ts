@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import pino from "pino";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+import type { Storage } from "../src/storage/storage.js";
+import { createFileSystemPublisher } from "../src/publishers/filesystem-publisher.js";
+import {
+  recipeDocLinks,
+  recipesToSnapshot,
+  writeDocumentation,
+} from "../src/pipeline/doc-writer.js";
+import type { DocTarget, DocWriterContext } from "../src/pipeline/doc-writer.js";
+import type { WorkatoRecipe } from "../src/api/workato-client.js";
+
+const log = pino({ level: "silent" });
+
+function recipe(id: number, name = `Recipe ${id}`): WorkatoRecipe {
+  return {
+    id,
+    name,
+    project_id: 10,
+    code: "{}",
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+  } as WorkatoRecipe;
+}
+
+describe("doc modes", () => {
+  let dir: string;
+  let storage: Storage;
+  let ctx: DocWriterContext;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "docs-"));
+    storage = createSqliteStorage({ path: ":memory:" });
+    ctx = {
+      storage,
+      publishers: [
+        { name: "filesystem", publisher: createFileSystemPublisher({ outputDir: dir }) },
+      ],
+      qualityGate: { enabled: true, minScore: 3, maxRegenerations: 0 },
+      log,
+    };
+  });
+
+  afterEach(() => {
+    storage.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function recipeTarget(r: WorkatoRecipe, score = 4): DocTarget {
+    return {
+      managedUserId: "1",
+      scope: "recipe",
+      targetId: r.id,
+      projectId: 10,
+      recipes: [r],
+      generate: async () => ({ markdown: `# ${r.name}`, html: `<h1>${r.name}</h1>` }),
+      assess: async () => ({ score, issues: [] }),
+      metadata: {
+        recipeName: r.name,
+        projectName: "Orders",
+        projectSlug: "orders",
+        isProjectDoc: false,
+      },
+    };
+  }
+
+  function projectTarget(
+    recipes: WorkatoRecipe[],
+    links?: DocTarget["metadata"]["recipeLinks"]
+  ): DocTarget {
+    return {
+      managedUserId: "1",
+      scope: "project",
+      targetId: 10,
+      projectId: 10,
+      recipes,
+      generate: async () => ({ markdown: "# Orders", html: "<h1>Orders</h1>" }),
+      assess: async () => ({ score: 4, issues: [] }),
+      metadata: {
+        projectName: "Orders",
+        projectSlug: "orders",
+        isProjectDoc: true,
+        recipeLinks: links,
+      },
+    };
+  }
+
+  it("writes recipe docs below the project directory", async () => {
+    const result = await writeDocumentation(ctx, recipeTarget(recipe(7)));
+    expect(result.status).toBe("published");
+    expect(readFileSync(join(dir, "1", "orders", "7", "README.md"), "utf-8")).toBe("# Recipe 7");
+    expect(existsSync(join(dir, "1", "orders", "7", "index.html"))).toBe(true);
+    expect(existsSync(join(dir, "1", "orders", "README.md"))).toBe(false);
+    expect(storage.getPublishedDocumentation("1", "recipe", 7)?.version).toBe(1);
+  });
+
+  it("writes a project doc without links in project mode", async () => {
+    const result = await writeDocumentation(ctx, projectTarget([recipe(7)]));
+    expect(result.status).toBe("published");
+    const md = readFileSync(join(dir, "1", "orders", "README.md"), "utf-8");
+    expect(md).toBe("# Orders");
+    expect(existsSync(join(dir, "1", "orders", "7"))).toBe(false);
+  });
+
+  it("links the project doc only to recipe docs that were stored", async () => {
+    const recipes = [recipe(7), recipe(8), recipe(9)];
+    await writeDocumentation(ctx, recipeTarget(recipes[0]));
+    // Held for review: stored, but never published and not linked.
+    expect((await writeDocumentation(ctx, recipeTarget(recipes[2], 1))).status).toBe(
+      "needs_review"
+    );
+
+    const links = recipeDocLinks(storage, "1", recipes, new Set([8]));
+    expect(links).toEqual([
+      { recipeId: 7, recipeName: "Recipe 7" },
+      { recipeId: 8, recipeName: "Recipe 8" },
+    ]);
+
+    await writeDocumentation(ctx, projectTarget(recipes, links));
+    const md = readFileSync(join(dir, "1", "orders", "README.md"), "utf-8");
+    expect(md).toContain("- [Recipe 7](./7/README.md)");
+    expect(md).toContain("- [Recipe 8](./8/README.md)");
+    expect(md).not.toContain("./9/");
+    const html = readFileSync(join(dir, "1", "orders", "index.html"), "utf-8");
+    expect(html).toContain('<a href="./7/index.html">Recipe 7</a>');
+    expect(existsSync(join(dir, "1", "orders", "9"))).toBe(false);
+  });
+
+  it("moves a renamed project's doc to its new slug", async () => {
+    await writeDocumentation(ctx, projectTarget([recipe(7)]));
+    const renamed = projectTarget([recipe(7)]);
+    renamed.metadata = {
+      ...renamed.metadata,
+      projectName: "Sales Orders",
+      projectSlug: "sales-orders",
+    };
+
+    expect((await writeDocumentation(ctx, renamed)).status).toBe("published");
+    expect(existsSync(join(dir, "1", "orders"))).toBe(false);
+    expect(existsSync(join(dir, "1", "sales-orders", "README.md"))).toBe(true);
+    const latest = storage.getPublishedDocumentation("1", "project", 10)!;
+    expect(JSON.parse(storage.listDeliveries(latest.id)[0].publish_metadata)).toMatchObject({
+      projectSlug: "sales-orders",
+      previousProjectSlug: "orders",
+    });
+  });
+
+  it("snapshots recipes according to the mode", () => {
+    const recipes = [recipe(7), recipe(8), recipe(9)];
+    const changed = new Set([7, 8]);
+    const stored = new Set([7]);
+    const ids = (mode: "project" | "recipe" | "both") =>
+      recipesToSnapshot(mode, recipes, changed, stored).map((r) => r.id);
+
+    expect(ids("project")).toEqual([7, 8, 9]);
+    // Recipe 8's doc was not stored, so it keeps its old snapshot and is retried.
+    expect(ids("recipe")).toEqual([7]);
+    expect(ids("both")).toEqual([7, 9]);
+  });
+});
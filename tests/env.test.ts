@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { isPositiveInteger, parseEnvNumber } from "../src/env.js";
+
+describe("parseEnvNumber", () => {
+  it("falls back when unset and rejects values the check refuses", () => {
+    const parse = (value: string | undefined) =>
+      parseEnvNumber(value, "DELIVERY_MAX_ATTEMPTS", 5, isPositiveInteger, "a positive integer");
+    expect(parse(undefined)).toBe(5);
+    expect(parse("")).toBe(5);
+    expect(parse("3")).toBe(3);
+    for (const bad of ["0", "five", "2.5", "-1"]) {
+      expect(() => parse(bad)).toThrow(
+        `DELIVERY_MAX_ATTEMPTS must be a positive integer, got "${bad}"`
+      );
+    }
+  });
+});
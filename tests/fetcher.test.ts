@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchAndStoreRecipes, getProjectRecipes } from "../src/rules/fetcher.js";
+import type { WorkatoClient, WorkatoRecipe } from "../src/api/workato-client.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+
+function recipe(id: number, updatedAt: string, code = "{}"): WorkatoRecipe {
+  return {
+    id,
+    name: `[active] Recipe ${id}`,
+    project_id: 100,
+    folder_id: 1000,
+    code,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: updatedAt,
+  } as WorkatoRecipe;
+}
+
+describe("getProjectRecipes", () => {
+  it("keeps recipes an incremental fetch did not return", async () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const client = {
+        listAllCustomers: vi.fn(async () => [
+          { id: 1, name: "One", created_at: "", updated_at: "" },
+        ]),
+        listAllProjects: vi.fn(async () => [{ id: 100, folder_id: 1000, name: "P" }]),
+        listAllRecipes: vi.fn(async () => [
+          recipe(2, "2026-01-01T00:00:00Z"),
+          recipe(1, "2026-01-01T00:00:00Z"),
+        ]),
+      };
+      await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+
+      const updated = recipe(2, "2026-03-01T00:00:00Z", '{"v":2}');
+      client.listAllRecipes.mockResolvedValueOnce([updated]);
+      const incremental = await fetchAndStoreRecipes(
+        client as unknown as WorkatoClient,
+        storage,
+        { updatedAfter: "2026-02-01T00:00:00Z" }
+      );
+      expect(incremental.recipes).toHaveLength(1);
+
+      const fresh = new Map(incremental.recipes.map((r) => [r.recipe.id, r.recipe]));
+      const recipes = getProjectRecipes(storage, "1", 100, (id) => fresh.get(id));
+      expect(recipes.map((r) => r.id)).toEqual([1, 2]);
+      expect(recipes[1]).toBe(updated);
+      expect(getProjectRecipes(storage, "1", 999)).toEqual([]);
+    } finally {
+      storage.close();
+    }
+  });
+});
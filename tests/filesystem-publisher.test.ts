@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createFileSystemPublisher } from "../src/publishers/filesystem-publisher.js";
+import type { Publisher } from "../src/publishers/publisher.js";
+
+describe("filesystem publisher", () => {
+  let dir: string;
+  let publisher: Publisher;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "fs-publisher-"));
+    publisher = createFileSystemPublisher({ outputDir: dir });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const recipeDoc = {
+    managedUserId: "1",
+    projectId: 10,
+    recipeId: 7,
+    contentMd: "# Sync",
+    contentHtml: "<h1>Sync</h1>",
+  };
+  const recipeMeta = { recipeName: "Sync", projectSlug: "orders", isProjectDoc: false };
+
+  it("escapes recipe names in project doc links", async () => {
+    await publisher.publish(
+      { managedUserId: "1", projectId: 10, contentMd: "# Orders", contentHtml: "<h1>Orders</h1>" },
+      {
+        projectName: "Orders",
+        projectSlug: "orders",
+        isProjectDoc: true,
+        recipeLinks: [{ recipeId: 7, recipeName: "Sync [v2] <new>" }],
+      }
+    );
+    const md = readFileSync(join(dir, "1", "orders", "README.md"), "utf-8");
+    expect(md).toContain("- [Sync \\[v2\\] <new>](./7/README.md)");
+    const html = readFileSync(join(dir, "1", "orders", "index.html"), "utf-8");
+    expect(html).toContain('<a href="./7/index.html">Sync [v2] &lt;new&gt;</a>');
+  });
+
+  it("removes the copy under the previous slug after a rename", async () => {
+    const projectDoc = {
+      managedUserId: "1",
+      projectId: 10,
+      contentMd: "# Orders",
+      contentHtml: "",
+    };
+    await publisher.publish(projectDoc, { projectSlug: "orders", isProjectDoc: true });
+    await publisher.publish(recipeDoc, recipeMeta);
+
+    await publisher.publish(
+      { ...recipeDoc, contentMd: "# Sync v2" },
+      { ...recipeMeta, projectSlug: "sales-orders", previousProjectSlug: "orders" }
+    );
+    expect(existsSync(join(dir, "1", "orders", "7"))).toBe(false);
+    expect(existsSync(join(dir, "1", "orders", "README.md"))).toBe(true);
+
+    await publisher.publish(projectDoc, {
+      projectSlug: "sales-orders",
+      previousProjectSlug: "orders",
+      isProjectDoc: true,
+    });
+    expect(existsSync(join(dir, "1", "orders"))).toBe(false);
+    expect(readFileSync(join(dir, "1", "sales-orders", "7", "README.md"), "utf-8")).toBe(
+      "# Sync v2"
+    );
+  });
+
+  it("archives a recipe doc without touching the project doc", async () => {
+    await publisher.publish(
+      { managedUserId: "1", projectId: 10, contentMd: "# Orders", contentHtml: "" },
+      { projectSlug: "orders", isProjectDoc: true }
+    );
+    await publisher.publish(recipeDoc, recipeMeta);
+    expect(existsSync(join(dir, "1", "orders", "7", "README.md"))).toBe(true);
+
+    await publisher.archive!(recipeDoc, recipeMeta);
+    expect(existsSync(join(dir, "1", "orders", "7"))).toBe(false);
+    expect(existsSync(join(dir, "1", "orders", "README.md"))).toBe(true);
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { computeRecipeHash, getChangedRecipes } from "../src/rules/hash-compare.js";
+import { createHash } from "crypto";
+import {
+  computeRecipeHash,
+  getChangedRecipes,
+  rehashSnapshots,
+} from "../src/rules/hash-compare.js";
 import type { WorkatoRecipe } from "../src/api/workato-client.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
 
 function makeRecipe(overrides: Partial<WorkatoRecipe> = {}): WorkatoRecipe {
   return {
@@ -33,6 +39,66 @@ describe("computeRecipeHash", () => {
     const b = makeRecipe({ name: "B" });
     expect(computeRecipeHash(a)).not.toBe(computeRecipeHash(b));
   });
+
+  it("ignores UI metadata, key order and formatting in code", () => {
+    const a = makeRecipe({
+      code: JSON.stringify({
+        uuid: "a",
+        number: 0,
+        provider: "clock",
+        block: [{ uuid: "b", toggleCfg: { x: true }, name: "search", input: { q: "1" } }],
+      }),
+    });
+    const b = makeRecipe({
+      code: JSON.stringify(
+        {
+          block: [{ input: { q: "1" }, name: "search", uuid: "c", visible_config_fields: ["q"] }],
+          provider: "clock",
+          uuid: "d",
+        },
+        null,
+        2
+      ),
+    });
+    expect(computeRecipeHash(a)).toBe(computeRecipeHash(b));
+    expect(computeRecipeHash(a)).toMatch(/^v3:/);
+  });
+});
+
+describe("rehashSnapshots", () => {
+  it("upgrades older hashes from the stored recipe without reporting changes", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const recipe = makeRecipe({ id: 7 });
+      storage.upsertRecipe({
+        id: 7,
+        managed_user_id: "1",
+        project_id: null,
+        folder_id: null,
+        name: recipe.name,
+        description: null,
+        raw_json: JSON.stringify(recipe),
+        created_at: recipe.created_at,
+        updated_at: recipe.updated_at,
+      });
+      const v2 = `v2:${createHash("sha256").update("legacy").digest("hex")}`;
+      storage.appendSnapshot({
+        recipe_id: 7,
+        managed_user_id: "1",
+        content_hash: v2,
+        raw_json: JSON.stringify(recipe),
+        created_at: "2024-01-01T00:00:00Z",
+      });
+
+      expect(rehashSnapshots(storage)).toBe(1);
+      expect(rehashSnapshots(storage)).toBe(0);
+      const hash = storage.getLatestSnapshot(7, "1")?.content_hash ?? null;
+      expect(hash).toBe(computeRecipeHash(recipe));
+      expect(getChangedRecipes([{ recipe, managedUserId: "1" }], () => hash)).toEqual([]);
+    } finally {
+      storage.close();
+    }
+  });
 });
 
 describe("getChangedRecipes", () => {
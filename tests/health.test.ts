@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Gauge } from "prom-client";
+import { metricsRegistry } from "../src/metrics.js";
+
+let server: Server;
+let baseUrl: string;
+const dir = mkdtempSync(join(tmpdir(), "health-"));
+
+beforeAll(async () => {
+  process.env.HEALTH_PORT = "0";
+  process.env.OUTPUT_DIR = dir;
+  delete process.env.CONTROL_API_TOKEN;
+  const { startHealthServer } = await import("../src/health.js");
+  server = startHealthServer();
+  await new Promise<void>((resolve) =>
+    server.listening ? resolve() : server.once("listening", resolve)
+  );
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("startHealthServer", () => {
+  it("answers /metrics with 500 when collecting fails", async () => {
+    const broken = new Gauge({
+      name: "health_test_broken",
+      help: "Always fails to collect",
+      registers: [metricsRegistry],
+      collect() {
+        throw new Error("collector down");
+      },
+    });
+    try {
+      const res = await fetch(`${baseUrl}/metrics`);
+      expect(res.status).toBe(500);
+    } finally {
+      metricsRegistry.removeSingleMetric(broken.name);
+    }
+    expect((await fetch(`${baseUrl}/metrics`)).status).toBe(200);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createInclusionRules,
+  parseInclusionRulesConfig,
+} from "../src/rules/inclusion-rules.js";
+import type { RecipeContext } from "../src/rules/inclusion-rules.js";
+import { listProjectRecipes } from "../src/rules/fetcher.js";
+import { dryRunInclusionRules, formatDryRun } from "../src/rules/inclusion-dry-run.js";
+import type { WorkatoClient, WorkatoRecipe } from "../src/api/workato-client.js";
+
+function recipe(id: number, overrides: Partial<WorkatoRecipe> = {}): WorkatoRecipe {
+  return {
+    id,
+    name: `Recipe ${id}`,
+    running: true,
+    folder_id: 1000,
+    ...overrides,
+  } as WorkatoRecipe;
+}
+
+function context(r: WorkatoRecipe, folderDepth = 0): RecipeContext {
+  return { recipe: r, project: { id: 100, name: "Billing" }, folderDepth };
+}
+
+describe("inclusion rules", () => {
+  it("defaults to [active] recipes at the project root", () => {
+    const rules = createInclusionRules().forCustomer("1");
+    expect(rules.evaluate(context(recipe(1, { name: "[active] Sync" })))).toEqual({
+      included: true,
+      rule: "active-prefix",
+    });
+    expect(rules.evaluate(context(recipe(2)))).toEqual({ included: false });
+    expect(rules.evaluate(context(recipe(3, { name: "[active] Deep" }), 1))).toEqual({
+      included: false,
+    });
+  });
+
+  it("applies the first matching rule of the customer's rule set", () => {
+    const config = parseInclusionRulesConfig(
+      `
+customers:
+  - customers: ["E1"]
+    maxFolderDepth: 1
+    rules:
+      - { name: drafts, action: exclude, tags: [draft] }
+      - { name: other-project, action: exclude, projects: [200] }
+      - { name: sf, action: include, running: true, triggerApplications: [Salesforce] }
+      - { name: nested, action: include, namePattern: "^Sync", folderDepth: { min: 1 } }
+`,
+      "rules.yaml"
+    );
+    const rules = createInclusionRules(config).forCustomer("1", "E1");
+    const sf = { trigger_application: "salesforce" };
+
+    expect(rules.evaluate(context(recipe(1, sf))).rule).toBe("sf");
+    expect(rules.evaluate(context(recipe(2, { ...sf, tags: ["draft"] })))).toEqual({
+      included: false,
+      rule: "drafts",
+    });
+    expect(rules.evaluate(context(recipe(3, { ...sf, running: false })))).toEqual({
+      included: false,
+    });
+    expect(
+      rules.evaluate({ ...context(recipe(4, sf)), project: { id: 200, name: "HR" } }).rule
+    ).toBe("other-project");
+    expect(rules.evaluate(context(recipe(5, { name: "Sync orders" }), 1)).rule).toBe(
+      "nested"
+    );
+    expect(rules.evaluate(context(recipe(6, { name: "Sync orders" }), 0)).included).toBe(
+      false
+    );
+    // Customers without an entry keep the default rules.
+    expect(createInclusionRules(config).forCustomer("2").ruleNames).toEqual([
+      "active-prefix",
+    ]);
+  });
+
+  it("rejects invalid configs", () => {
+    expect(() => parseInclusionRulesConfig("{}", "r.yaml")).toThrow(
+      'expected a "default" rule set'
+    );
+    expect(() =>
+      parseInclusionRulesConfig(
+        "default:\n  rules:\n    - { name: a, action: keep }",
+        "r.yaml"
+      )
+    ).toThrow('r.yaml: default.rules[0]: "action" must be "include" or "exclude"');
+    expect(() =>
+      parseInclusionRulesConfig(
+        'default:\n  rules:\n    - { name: a, action: include, namePattern: "(" }',
+        "r.yaml"
+      )
+    ).toThrow('invalid "namePattern"');
+  });
+
+  it("lists subfolders down to maxFolderDepth and reports matches in a dry run", async () => {
+    const client = {
+      listAllCustomers: vi.fn(async () => [{ id: 1, name: "One" }]),
+      listAllProjects: vi.fn(async () => [{ id: 100, folder_id: 1000, name: "Billing" }]),
+      listAllFolders: vi.fn(async (_customerId: number, parentId: number) =>
+        parentId === 1000 ? [{ id: 1001, name: "Sub", parent_id: 1000 }] : []
+      ),
+      listAllRecipes: vi.fn(async () => [
+        recipe(1, { name: "[active] Root" }),
+        recipe(2, { name: "[active] Sub", folder_id: 1001 }),
+        recipe(3, { name: "[active] Deeper", folder_id: 1002 }),
+        recipe(4, { name: "Inactive" }),
+      ]),
+    };
+    const rules = createInclusionRules({
+      default: {
+        maxFolderDepth: 1,
+        rules: [{ name: "active", action: "include", namePattern: "^\\[active\\]" }],
+      },
+    });
+
+    const listed = await listProjectRecipes(
+      client as unknown as WorkatoClient,
+      1,
+      { id: 100, folder_id: 1000, name: "Billing" },
+      rules.forCustomer("1")
+    );
+    expect(listed.map((r) => [r.recipe.id, r.folderDepth, r.decision.included])).toEqual([
+      [1, 0, true],
+      [2, 1, true],
+      [3, Infinity, false],
+      [4, 0, false],
+    ]);
+    expect(client.listAllRecipes).toHaveBeenCalledWith(1, {
+      updatedAfter: undefined,
+      folderId: "1000",
+      withSubfolders: true,
+    });
+
+    const report = await dryRunInclusionRules(client as unknown as WorkatoClient, rules);
+    expect(formatDryRun(report).split("\n")).toEqual([
+      'Customer 1 "One" (max folder depth 1)',
+      '  Rule "active": 2 recipe(s)',
+      "    + 1 [active] Root (project Billing)",
+      "    + 2 [active] Sub (project Billing)",
+      "  No rule matched: 1 recipe(s)",
+      "    - 4 Inactive (project Billing)",
+      "  Below max folder depth: 1 recipe(s)",
+      "    - 3 [active] Deeper (project Billing)",
+      "  Included 2 of 4",
+      "",
+    ]);
+  });
+});
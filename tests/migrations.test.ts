@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  MIGRATIONS,
+  formatMigrationStatus,
+  getMigrationStatus,
+  runMigrations,
+} from "../src/storage/migrations.js";
+import type { Migration } from "../src/storage/migrations.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+
+const LATEST = Math.max(...MIGRATIONS.map((m) => m.version));
+
+describe("schema migrations", () => {
+  let dir: string;
+  let path: string;
+
+  // A database as created by the first release, before migrations were tracked.
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "migrations-"));
+    path = join(dir, "fixture.db");
+    const fixture = new Database(path);
+    fixture.exec(`
+      CREATE TABLE customers (
+        id INTEGER PRIMARY KEY,
+        managed_user_id TEXT NOT NULL,
+        external_id TEXT,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE projects (
+        id INTEGER PRIMARY KEY,
+        folder_id INTEGER NOT NULL,
+        managed_user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE recipes (
+        id INTEGER PRIMARY KEY,
+        managed_user_id TEXT NOT NULL,
+        project_id INTEGER,
+        folder_id INTEGER,
+        name TEXT NOT NULL,
+        description TEXT,
+        raw_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_recipes_managed_user ON recipes(managed_user_id);
+      CREATE TABLE recipe_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id INTEGER NOT NULL,
+        managed_user_id TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        raw_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE(recipe_id),
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id)
+      );
+      CREATE INDEX idx_snapshots_recipe ON recipe_snapshots(recipe_id);
+      CREATE TABLE documentation (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id INTEGER NOT NULL,
+        managed_user_id TEXT NOT NULL,
+        content_md TEXT NOT NULL,
+        content_html TEXT NOT NULL,
+        quality_score REAL,
+        generated_at TEXT NOT NULL,
+        UNIQUE(recipe_id),
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id)
+      );
+      CREATE INDEX idx_docs_recipe ON documentation(recipe_id);
+      CREATE TABLE sync_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        customers_processed INTEGER NOT NULL DEFAULT 0,
+        recipes_fetched INTEGER NOT NULL DEFAULT 0,
+        recipes_changed INTEGER NOT NULL DEFAULT 0,
+        recipes_documented INTEGER NOT NULL DEFAULT 0,
+        errors TEXT,
+        summary TEXT
+      );
+
+      INSERT INTO customers (id, managed_user_id, name, created_at, updated_at)
+      VALUES (1, '1', 'One', '2026-01-01', '2026-01-01');
+      INSERT INTO recipes (id, managed_user_id, name, raw_json, created_at, updated_at)
+      VALUES (7, '1', 'Sync', '{}', '2026-01-01', '2026-01-01');
+      INSERT INTO recipe_snapshots (recipe_id, managed_user_id, content_hash, raw_json, created_at)
+      VALUES (7, '1', 'v3:abc', '{}', '2026-01-01');
+      INSERT INTO documentation (recipe_id, managed_user_id, content_md, content_html, generated_at)
+      VALUES (7, '1', 'old doc', '<p>old doc</p>', '2026-01-01');
+      INSERT INTO sync_runs (started_at, finished_at) VALUES ('2026-01-01', '2026-01-01');
+    `);
+    fixture.close();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("brings a first-release database up to date once, keeping its data", () => {
+    const db = new Database(path);
+    try {
+      expect(getMigrationStatus(db).map((m) => m.appliedAt)).toEqual(
+        MIGRATIONS.map(() => null)
+      );
+      expect(runMigrations(db).map((m) => m.version)).toEqual(
+        MIGRATIONS.map((m) => m.version)
+      );
+      expect(runMigrations(db)).toEqual([]);
+      expect(formatMigrationStatus(getMigrationStatus(db))).toMatch(/^1 baseline: applied \d{4}-/);
+      expect(db.prepare("SELECT recipe_id, content_md FROM documentation_legacy").all()).toEqual([
+        { recipe_id: 7, content_md: "old doc" },
+      ]);
+    } finally {
+      db.close();
+    }
+
+    const storage = createSqliteStorage({ path });
+    try {
+      expect(storage.getSchemaProblems()).toEqual([]);
+      expect(storage.getLatestSnapshot(7, "1")).toMatchObject({ version: 1, content_hash: "v3:abc" });
+      expect(storage.getCustomer("1")?.name).toBe("One");
+      expect(storage.listSyncRuns(1)).toHaveLength(1);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("records an untracked database already at the latest schema without changing it", () => {
+    const fresh = new Database(join(dir, "fresh.db"));
+    try {
+      runMigrations(fresh);
+      const schema = () =>
+        fresh
+          .prepare(
+            "SELECT name, sql FROM sqlite_master WHERE name != 'schema_migrations' ORDER BY name"
+          )
+          .all();
+      fresh.exec("DROP TABLE schema_migrations");
+      const before = schema();
+
+      expect(runMigrations(fresh)).toHaveLength(MIGRATIONS.length);
+      expect(schema()).toEqual(before);
+    } finally {
+      fresh.close();
+    }
+  });
+
+  it("rolls back a failing migration and stops there", () => {
+    const calls: number[] = [];
+    const migrations: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: LATEST + 1,
+        name: "add_column",
+        up: (db) => {
+          calls.push(2);
+          db.exec("ALTER TABLE recipes ADD COLUMN extra TEXT");
+          throw new Error("boom");
+        },
+      },
+      { version: LATEST + 2, name: "never", up: () => calls.push(3) },
+    ];
+    const db = new Database(path);
+    try {
+      expect(() => runMigrations(db, migrations)).toThrow(
+        `Migration ${LATEST + 1} (add_column) failed: boom`
+      );
+      expect(calls).toEqual([2]);
+      const columns = (db.pragma("table_info(recipes)") as Array<{ name: string }>).map(
+        (c) => c.name
+      );
+      expect(columns).not.toContain("extra");
+      expect(
+        getMigrationStatus(db, migrations)
+          .slice(-3)
+          .map((m) => m.appliedAt !== null)
+      ).toEqual([true, false, false]);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("rebuilds tables with foreign keys off but rejects new violations", () => {
+    const db = new Database(path);
+    try {
+      db.pragma("foreign_keys = ON");
+      const migrations: Migration[] = [
+        ...MIGRATIONS,
+        {
+          version: LATEST + 1,
+          name: "rebuild_recipes",
+          up: (d) =>
+            d.exec(`
+              CREATE TABLE recipes_new (
+                id INTEGER NOT NULL,
+                managed_user_id TEXT NOT NULL,
+                project_id INTEGER,
+                folder_id INTEGER,
+                name TEXT NOT NULL,
+                description TEXT,
+                raw_json TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL,
+                removed_at TEXT,
+                removed_reason TEXT,
+                PRIMARY KEY (managed_user_id, id)
+              );
+              INSERT INTO recipes_new SELECT * FROM recipes;
+              DROP TABLE recipes;
+              ALTER TABLE recipes_new RENAME TO recipes;
+            `),
+        },
+        {
+          version: LATEST + 2,
+          name: "orphan_snapshot",
+          up: (d) =>
+            d.exec(`INSERT INTO recipe_snapshots (recipe_id, managed_user_id, version, content_hash, raw_json, created_at)
+              VALUES (99, '1', 1, 'v3:def', '{}', '2026-01-01')`),
+        },
+      ];
+      expect(() => runMigrations(db, migrations)).toThrow(
+        `Migration ${LATEST + 2} (orphan_snapshot) failed`
+      );
+      expect(
+        getMigrationStatus(db, migrations)
+          .slice(-3)
+          .map((m) => m.appliedAt !== null)
+      ).toEqual([true, true, false]);
+      expect(db.pragma("foreign_keys", { simple: true })).toBe(1);
+    } finally {
+      db.close();
+    }
+  });
+
+  it("refuses a database migrated by a newer build", () => {
+    const db = new Database(path);
+    try {
+      runMigrations(db);
+      db.prepare(
+        "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'future', '2027-01-01')"
+      ).run(LATEST + 5);
+      expect(() => runMigrations(db)).toThrow(
+        `Database is at schema version ${LATEST + 5}, newer than this build (${LATEST})`
+      );
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchAndStoreRecipes } from "../src/rules/fetcher.js";
+import { computeRecipeHash } from "../src/rules/hash-compare.js";
+import { buildSyncPlan, formatPlan } from "../src/pipeline/planner.js";
+import { DEFAULT_PRICE_TABLE } from "../src/ai/pricing.js";
+import type { WorkatoClient, WorkatoRecipe } from "../src/api/workato-client.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+
+function recipe(id: number, projectId: number, code = "{}"): WorkatoRecipe {
+  return {
+    id,
+    name: `[active] Recipe ${id}`,
+    project_id: projectId,
+    folder_id: projectId * 10,
+    code,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+  } as WorkatoRecipe;
+}
+
+describe("buildSyncPlan", () => {
+  it("lists projects to regenerate with reasons and estimates, leaving storage as is", async () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const client = {
+        listAllCustomers: vi.fn(async () => [
+          { id: 1, name: "One", created_at: "", updated_at: "" },
+        ]),
+        listAllProjects: vi.fn(async () => [
+          { id: 100, folder_id: 1000, name: "Billing" },
+          { id: 200, folder_id: 2000, name: "HR" },
+        ]),
+        listAllRecipes: vi.fn(async (_customerId: number, opts?: { folderId?: string }) =>
+          opts?.folderId === "1000" ? [recipe(1, 100), recipe(2, 100)] : [recipe(3, 200)]
+        ),
+      };
+      await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+      for (const r of [recipe(1, 100), recipe(2, 100), recipe(3, 200)]) {
+        storage.appendSnapshot({
+          recipe_id: r.id,
+          managed_user_id: "1",
+          content_hash: computeRecipeHash(r),
+          raw_json: JSON.stringify(r),
+          created_at: new Date().toISOString(),
+        });
+      }
+
+      // Recipe 2 changed, 3 changed cosmetically and 4 is new.
+      client.listAllRecipes.mockImplementation(async (_id, opts) =>
+        opts?.folderId === "1000"
+          ? [recipe(1, 100), recipe(2, 100, '{"v":2}')]
+          : [recipe(3, 200, '{"v":2}'), recipe(4, 200)]
+      );
+      const fetchResult = await fetchAndStoreRecipes(
+        client as unknown as WorkatoClient,
+        storage,
+        { store: false }
+      );
+      expect(storage.getRecipe(4, "1")).toBeNull();
+
+      const analyzeSemanticChange = vi.fn(async () => ({
+        hasMeaningfulChange: false,
+        changeSummary: "Whitespace only",
+      }));
+      const aiClientFor = vi.fn(() => ({ analyzeSemanticChange }));
+      const plan = await buildSyncPlan({
+        storage,
+        fetchResult,
+        mode: "project",
+        forceRegenerate: false,
+        qualityGate: true,
+        prices: DEFAULT_PRICE_TABLE,
+        aiClientFor,
+      });
+
+      expect(plan.recipesChanged).toBe(3);
+      expect(
+        plan.projects.map((p) => [p.projectId, p.regenerate, p.reasons, p.recipeCount])
+      ).toEqual([
+        [100, false, ["hash_changed"], 2],
+        [200, true, ["hash_changed", "new"], 2],
+      ]);
+      expect(analyzeSemanticChange).toHaveBeenCalledTimes(1);
+      expect(aiClientFor).toHaveBeenCalledWith({ managedUserId: "1", projectId: 100 });
+      expect(plan.projects[0].changeSummary).toBe("Whitespace only");
+      expect(plan.projects[0].estimatedInputTokens).toBe(0);
+      expect(plan.projects[1].estimatedInputTokens).toBeGreaterThan(0);
+      expect(plan.projects[1].estimatedOutputTokens).toBeGreaterThan(0);
+      expect(plan.totals.projectsRegenerated).toBe(1);
+      expect(plan.totals.estimatedCostUsd).toBe(plan.projects[1].estimatedCostUsd);
+      expect(formatPlan(plan)).toContain('Customer 1, project 100 "Billing": Whitespace only');
+      expect(
+        formatPlan({
+          ...plan,
+          semanticAnalysisUsage: { calls: 1, tokens: 1500, costUsd: 0.004 },
+        })
+      ).toContain("Semantic analysis for this plan: 1 call(s), 1,500 tokens, ~$0.00");
+
+      const forced = await buildSyncPlan({
+        storage,
+        fetchResult,
+        mode: "both",
+        forceRegenerate: true,
+        qualityGate: false,
+        prices: DEFAULT_PRICE_TABLE,
+      });
+      expect(forced.projects.map((p) => [p.regenerate, p.reasons])).toEqual([
+        [true, ["forced"]],
+        [true, ["forced"]],
+      ]);
+      // Project doc plus one doc per forced recipe, no quality assessments.
+      expect(
+        forced.projects[0].estimatedOutputTokens / plan.projects[1].estimatedOutputTokens
+      ).toBeCloseTo(3 / 1.1);
+    } finally {
+      storage.close();
+    }
+  });
+});
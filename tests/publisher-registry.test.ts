@@ -0,0 +1,143 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import pino from "pino";
+import {
+  createPublisherRegistry,
+  loadPublisherRegistry,
+  parsePublishersConfig,
+} from "../src/publishers/registry.js";
+import type { Storage } from "../src/storage/storage.js";
+
+const context = {
+  storage: {} as Storage,
+  logger: pino({ level: "silent" }),
+};
+const dir = mkdtempSync(join(tmpdir(), "publisher-registry-"));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parsePublishersConfig", () => {
+  it("rejects unknown types and routes to unknown publishers", () => {
+    expect(() =>
+      parsePublishersConfig("publishers:\n  - name: a\n    type: ftp\n", "cfg")
+    ).toThrow('unknown type "ftp"');
+    expect(() =>
+      parsePublishersConfig(
+        '{"publishers":[{"name":"a","type":"filesystem"}],"routing":{"default":["b"]}}',
+        "cfg"
+      )
+    ).toThrow('unknown publisher "b"');
+  });
+
+  it("requires the options built-in publishers need", () => {
+    expect(() =>
+      parsePublishersConfig(
+        "publishers:\n  - name: wiki\n    type: confluence\n    options: { spaceKey: DOCS }\n",
+        "cfg"
+      )
+    ).toThrow('cfg: confluence publisher "wiki" requires option "baseUrl"');
+    expect(() =>
+      parsePublishersConfig("publishers:\n  - name: hook\n    type: webhook\n", "cfg")
+    ).toThrow('cfg: webhook publisher "hook" requires option "url"');
+  });
+
+  it("requires customers on routing rules and matches numeric IDs as strings", async () => {
+    const base = "publishers:\n  - name: files\n    type: filesystem\n";
+    expect(() =>
+      parsePublishersConfig(`${base}routing:\n  rules:\n    - publishers: [files]\n`, "cfg")
+    ).toThrow('cfg: routing.rules[0] needs a non-empty "customers" list');
+
+    const config = parsePublishersConfig(
+      `${base}routing:\n  default: []\n  rules:\n    - customers: [42]\n      publishers: [files]\n`,
+      "cfg"
+    );
+    expect(config.routing?.rules?.[0].customers).toEqual(["42"]);
+    const registry = await createPublisherRegistry(config, context);
+    expect(registry.forCustomer("42").map((p) => p.name)).toEqual(["files"]);
+  });
+});
+
+describe("createPublisherRegistry", () => {
+  const config = parsePublishersConfig(
+    `
+publishers:
+  - name: files
+    type: filesystem
+    options: { outputDir: ${dir} }
+  - name: portal
+    type: webhook
+    options: { url: "http://localhost:1/docs" }
+routing:
+  default: [files]
+  rules:
+    - customers: ["1", "E2"]
+      publishers: [portal]
+`,
+    "cfg"
+  );
+
+  it("routes by managed user ID or external ID, falling back to the default", async () => {
+    const registry = await createPublisherRegistry(config, context);
+    const names = (id: string, ext?: string) =>
+      registry.forCustomer(id, ext).map((p) => p.name);
+    expect(names("1")).toEqual(["portal"]);
+    expect(names("99", "E2")).toEqual(["portal"]);
+    expect(names("99")).toEqual(["files"]);
+  });
+
+  it("checks webhook option types", async () => {
+    const webhook = (options: string) =>
+      createPublisherRegistry(
+        parsePublishersConfig(
+          `publishers:\n  - name: hook\n    type: webhook\n    options: ${options}\n`,
+          "cfg"
+        ),
+        context
+      );
+    await expect(webhook('{ url: "http://x", headers: { X-Key: 1 } }')).rejects.toThrow(
+      'Publisher "hook": webhook publisher option "headers" must be a mapping of header names to strings'
+    );
+    await expect(webhook('{ url: "http://x", maxRetries: "3" }')).rejects.toThrow(
+      'webhook publisher option "maxRetries" must be a non-negative number'
+    );
+    await expect(webhook('{ url: "http://x", secret: 42 }')).rejects.toThrow(
+      'webhook publisher option "secret" must be a string'
+    );
+    const registry = await webhook('{ url: "http://x", headers: { X-Key: abc }, timeoutMs: 500 }');
+    expect(registry.names()).toEqual(["hook"]);
+  });
+});
+
+describe("loadPublisherRegistry", () => {
+  it("loads plugin modules relative to the config file with env interpolation", async () => {
+    writeFileSync(
+      join(dir, "plugin.mjs"),
+      `export const published = [];
+       export function createPublisher(options) {
+         return { async publish(doc) { published.push({ token: options.token, doc }); } };
+       }`
+    );
+    writeFileSync(
+      join(dir, "publishers.yaml"),
+      `publishers:\n  - name: custom\n    module: ./plugin.mjs\n    options:\n      token: \${REGISTRY_TEST_TOKEN}\n`
+    );
+    process.env.REGISTRY_TEST_TOKEN = "abc";
+
+    const registry = await loadPublisherRegistry(join(dir, "publishers.yaml"), context);
+    const [{ publisher }] = registry.forCustomer("1");
+    await publisher.publish(
+      { managedUserId: "1", contentMd: "#", contentHtml: "" },
+      {}
+    );
+
+    const plugin = await import(join(dir, "plugin.mjs"));
+    expect(plugin.published).toEqual([
+      { token: "abc", doc: { managedUserId: "1", contentMd: "#", contentHtml: "" } },
+    ]);
+    delete process.env.REGISTRY_TEST_TOKEN;
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  generateWithQualityGate,
+  qualityGateConfigFromEnv,
+} from "../src/pipeline/quality-gate.js";
+import type { QualityResult } from "../src/ai/ai-client.js";
+
+const config = { enabled: true, minScore: 4, maxRegenerations: 2 };
+
+function scores(...values: number[]) {
+  let i = 0;
+  return vi.fn(async (): Promise<QualityResult> => ({
+    score: values[i++],
+    issues: ["Missing field mapping table"],
+  }));
+}
+
+describe("generateWithQualityGate", () => {
+  it("skips assessment when disabled", async () => {
+    const assess = scores(1);
+    const result = await generateWithQualityGate(
+      async () => ({ markdown: "doc" }),
+      assess,
+      { ...config, enabled: false }
+    );
+    expect(result.passed).toBe(true);
+    expect(result.quality).toBeNull();
+    expect(assess).not.toHaveBeenCalled();
+  });
+
+  it("accepts the first doc when it meets the threshold", async () => {
+    const generate = vi.fn(async () => ({ markdown: "doc" }));
+    const result = await generateWithQualityGate(generate, scores(4.5), config);
+    expect(result.passed).toBe(true);
+    expect(result.attempts).toBe(1);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("regenerates with feedback until the threshold is met", async () => {
+    let n = 0;
+    const generate = vi.fn(async () => ({ markdown: `draft ${++n}` }));
+    const result = await generateWithQualityGate(generate, scores(2, 4), config);
+    expect(result.passed).toBe(true);
+    expect(result.doc.markdown).toBe("draft 2");
+    expect(generate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ score: 2 })
+    );
+  });
+
+  it("returns the best draft and fails once the budget is spent", async () => {
+    let n = 0;
+    const generate = async () => ({ markdown: `draft ${++n}` });
+    const result = await generateWithQualityGate(generate, scores(2, 3, 1), config);
+    expect(result.passed).toBe(false);
+    expect(result.attempts).toBe(3);
+    expect(result.doc.markdown).toBe("draft 2");
+    expect(result.quality?.score).toBe(3);
+  });
+});
+
+describe("qualityGateConfigFromEnv", () => {
+  it("uses defaults when unset", () => {
+    expect(qualityGateConfigFromEnv({})).toEqual({
+      enabled: true,
+      minScore: 3,
+      maxRegenerations: 1,
+    });
+  });
+
+  it("rejects out-of-range values", () => {
+    expect(() => qualityGateConfigFromEnv({ QUALITY_MIN_SCORE: "6" })).toThrow(
+      'QUALITY_MIN_SCORE must be a number from 1 to 5, got "6"'
+    );
+    expect(() => qualityGateConfigFromEnv({ QUALITY_MIN_SCORE: "high" })).toThrow(
+      "QUALITY_MIN_SCORE"
+    );
+    expect(() => qualityGateConfigFromEnv({ QUALITY_MAX_REGENERATIONS: "-1" })).toThrow(
+      'QUALITY_MAX_REGENERATIONS must be a non-negative integer, got "-1"'
+    );
+    expect(() => qualityGateConfigFromEnv({ QUALITY_MAX_REGENERATIONS: "1.5" })).toThrow(
+      "QUALITY_MAX_REGENERATIONS"
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyEndpoint,
+  createTokenBucket,
+  createWorkatoRateLimiter,
+  resolveRateLimits,
+} from "../src/api/rate-limiter.js";
+import type { Clock } from "../src/api/rate-limiter.js";
+
+function fakeClock(): Clock & { advance(ms: number): void } {
+  let now = 0;
+  return {
+    now: () => now,
+    sleep: async () => {},
+    advance(ms) {
+      now += ms;
+    },
+  };
+}
+
+describe("Workato rate limiter", () => {
+  it("classifies request paths", () => {
+    expect(classifyEndpoint("/managed_users")).toBe("managed_users");
+    expect(classifyEndpoint("/managed_users/1/projects")).toBe("managed_users");
+    expect(classifyEndpoint("/managed_users/1/recipes/5")).toBe("recipes");
+    expect(classifyEndpoint("/managed_users/1/lookup_tables/3/lookup")).toBe(
+      "lookup_tables"
+    );
+  });
+
+  it("allows a burst, then queues callers at the sustained rate", async () => {
+    const clock = fakeClock();
+    const bucket = createTokenBucket({ requestsPerMinute: 60, burst: 2 }, clock);
+    const waits = await Promise.all([1, 2, 3, 4].map(() => bucket.acquire()));
+    expect(waits).toEqual([0, 0, 1000, 2000]);
+
+    clock.advance(10_000);
+    expect(await bucket.acquire()).toBe(0);
+  });
+
+  it("merges datacenter overrides over defaults and tracks blocked time per class", async () => {
+    const limits = resolveRateLimits("EU", {
+      default: { recipes: { requestsPerMinute: 120 } },
+      eu: { recipes: { burst: 1 } },
+    });
+    expect(limits.recipes).toEqual({ requestsPerMinute: 120, burst: 1 });
+
+    const limiter = createWorkatoRateLimiter(limits, fakeClock());
+    await limiter.acquire("/managed_users/1/recipes");
+    await limiter.acquire("/managed_users/1/recipes");
+    expect(limiter.blockedMs()).toMatchObject({ recipes: 500, managed_users: 0 });
+  });
+
+  it("rejects invalid limits", () => {
+    expect(() =>
+      resolveRateLimits("us", { us: { recipes: { requestsPerMinute: 0 } } })
+    ).toThrow(/us\/recipes/);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import Database from "better-sqlite3";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createSqliteStorage,
+  openSqliteStorageReadOnly,
+} from "../src/storage/sqlite-storage.js";
+import type { SyncRunStatus } from "../src/storage/schema.js";
+import type { Storage } from "../src/storage/storage.js";
+import { checkReadiness } from "../src/readiness.js";
+import type { ReadinessConfig } from "../src/readiness.js";
+import { estimateScheduleIntervalMs } from "../src/cron-interval.js";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("estimateScheduleIntervalMs", () => {
+  it("returns the longest gap between runs", () => {
+    expect(estimateScheduleIntervalMs("0 */6 * * *")).toBe(6 * HOUR);
+    expect(estimateScheduleIntervalMs("*/15 * * * *")).toBe(15 * 60 * 1000);
+    expect(estimateScheduleIntervalMs("0 0 9 * * 1-5")).toBe(72 * HOUR);
+  });
+
+  it("returns null for expressions it cannot parse", () => {
+    expect(estimateScheduleIntervalMs("0 9 * * MON")).toBeNull();
+  });
+});
+
+describe("checkReadiness", () => {
+  let storage: Storage;
+  let outputDir: string;
+
+  beforeEach(() => {
+    storage = createSqliteStorage({ path: ":memory:" });
+    outputDir = mkdtempSync(join(tmpdir(), "ready-"));
+  });
+
+  afterEach(() => {
+    storage.close();
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  function check(overrides: Partial<ReadinessConfig> = {}) {
+    return checkReadiness({
+      // The in-memory DB must outlive the check, so don't let it close it.
+      openStorage: () => ({ ...storage, close() {} }),
+      outputDir,
+      scheduleIntervalMs: 6 * HOUR,
+      maxMissedRuns: 2,
+      activeRunId: () => null,
+      ...overrides,
+    });
+  }
+
+  function recordRun(errors?: string, finish = true, status?: SyncRunStatus) {
+    const id = storage.createSyncRun();
+    if (finish) {
+      storage.finishSyncRun(id, {
+        customersProcessed: 1,
+        recipesFetched: 1,
+        recipesChanged: 0,
+        recipesDocumented: 0,
+        errors,
+        status,
+      });
+    }
+    return id;
+  }
+
+  it("is ready before the first run", async () => {
+    const report = await check();
+    expect(report.ready).toBe(true);
+    expect(report.lastRun).toBeNull();
+  });
+
+  it("reports a failed last run with its metadata", async () => {
+    recordRun("Customer 1: boom; Customer 2: boom", true, "failed");
+    const report = await check();
+    expect(report.ready).toBe(false);
+    expect(report.checks.last_run).toBe("failed with 2 error(s)");
+    expect(report.lastRun?.errorCount).toBe(2);
+  });
+
+  it("is ready after a run that finished with some errors", async () => {
+    recordRun("Project 7: boom", true, "partial");
+    const report = await check();
+    expect(report.checks.last_run).toBe("ok");
+    expect(report.lastRun?.errorCount).toBe(1);
+  });
+
+  it("treats an unfinished run as ok only while it is active", async () => {
+    const runId = recordRun(undefined, false);
+    expect((await check()).checks.last_run).toBe("did not finish");
+    expect((await check({ activeRunId: () => runId })).checks.last_run).toBe("ok");
+  });
+
+  it("reports a stale last run", async () => {
+    recordRun();
+    expect((await check()).checks.last_run).toBe("ok");
+    const later = await check({ now: () => new Date(Date.now() + 13 * HOUR) });
+    expect(later.checks.last_run).toMatch(/^stale/);
+  });
+
+  it("reports an unwritable output dir", async () => {
+    const file = join(outputDir, "file");
+    writeFileSync(file, "");
+    const report = await check({ outputDir: join(file, "docs") });
+    expect(report.ready).toBe(false);
+    expect(report.checks.output_dir).toMatch(/^not writable/);
+  });
+});
+
+describe("openSqliteStorageReadOnly", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ready-db-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("does not create a missing database", () => {
+    const path = join(dir, "missing.db");
+    expect(() => openSqliteStorageReadOnly({ path })).toThrow("does not exist");
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it("reports pending migrations without applying them", async () => {
+    const path = join(dir, "old.db");
+    createSqliteStorage({ path }).close();
+    const db = new Database(path);
+    db.exec(
+      "DELETE FROM schema_migrations WHERE version = (SELECT MAX(version) FROM schema_migrations)"
+    );
+    const { n: applied } = db.prepare("SELECT COUNT(*) AS n FROM schema_migrations").get() as {
+      n: number;
+    };
+    db.close();
+
+    const report = await checkReadiness({
+      openStorage: () => openSqliteStorageReadOnly({ path }),
+      outputDir: dir,
+      scheduleIntervalMs: null,
+      maxMissedRuns: 2,
+      activeRunId: () => null,
+    });
+    expect(report.checks.database).toMatch(/^schema out of date: pending migration \d+ \(\w+\)$/);
+    expect(report.checks.last_run).toMatch(/^unknown/);
+
+    const after = new Database(path, { readonly: true });
+    try {
+      expect(after.prepare("SELECT COUNT(*) AS n FROM schema_migrations").get()).toEqual({
+        n: applied,
+      });
+    } finally {
+      after.close();
+    }
+  });
+});
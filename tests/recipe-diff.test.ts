@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from "vitest";
+import { diffRecipes, formatRecipeDiff } from "../src/rules/recipe-diff.js";
+import { analyzeSemanticChange } from "../src/ai/semantic-analyzer.js";
+import type { WorkatoRecipe } from "../src/api/workato-client.js";
+
+function recipe(code: unknown): WorkatoRecipe {
+  return {
+    id: 1,
+    name: "Sync",
+    code: typeof code === "string" ? code : JSON.stringify(code),
+  } as WorkatoRecipe;
+}
+
+const step = (uuid: string, fields: Record<string, unknown> = {}) => ({
+  uuid,
+  provider: "salesforce",
+  name: "search_records",
+  input: { object: "Account" },
+  ...fields,
+});
+
+function code(block: unknown[]) {
+  return { uuid: "t", provider: "clock", name: "scheduled_event", block };
+}
+
+describe("diffRecipes", () => {
+  it("classifies added, removed and moved steps by uuid", () => {
+    const diff = diffRecipes(
+      recipe(code([step("a"), step("b"), step("c")])),
+      recipe(code([step("c"), step("a"), step("d")]))
+    );
+    expect(diff.trivial).toBe(false);
+    expect(diff.changes.map((c) => [c.kind, c.path, c.before, c.after])).toEqual([
+      ["step_removed", "2", undefined, undefined],
+      ["step_moved", "1", "3", "1"],
+      ["step_moved", "2", "1", "2"],
+      ["step_added", "3", undefined, undefined],
+    ]);
+  });
+
+  it("reports action, input and condition changes with field paths", () => {
+    const diff = diffRecipes(
+      recipe(
+        code([
+          step("a"),
+          { uuid: "b", keyword: "if", input: { operand: "and", conditions: [{ lhs: "x" }] } },
+        ])
+      ),
+      recipe(
+        code([
+          step("a", { name: "create_record", input: { object: "Contact" } }),
+          { uuid: "b", keyword: "if", input: { operand: "and", conditions: [{ lhs: "y" }] } },
+        ])
+      )
+    );
+    expect(diff.changes.map((c) => [c.kind, c.step, c.fields])).toEqual([
+      ["action_changed", "salesforce.create_record", undefined],
+      ["input_changed", "salesforce.create_record", ["input.object"]],
+      ["condition_changed", "if", ["input.conditions.0.lhs"]],
+    ]);
+    expect(formatRecipeDiff(diff)).toContain(
+      '- input_changed: step 1 (salesforce.create_record); fields input.object; before {"object":"Account"}; after {"object":"Contact"}'
+    );
+  });
+
+  it("treats UI metadata and formatting changes as trivial", () => {
+    const before = code([step("a", { number: 1, description: "Search <b>Account</b>" })]);
+    const after = code([step("a", { number: 2, description: "Search accounts" })]);
+    const metadata = diffRecipes(recipe(before), recipe(after));
+    expect(metadata.trivial).toBe(true);
+    expect(metadata.changes).toEqual([
+      {
+        kind: "metadata_only",
+        path: "1",
+        step: "salesforce.search_records",
+        fields: ["number", "description"],
+      },
+    ]);
+
+    const reformatted = diffRecipes(recipe(before), recipe(JSON.stringify(before, null, 2)));
+    expect(reformatted).toEqual({ changes: [], trivial: true });
+  });
+
+  it("matches steps with regenerated uuids by path and action", () => {
+    const before = code([step("a"), { uuid: "b", keyword: "if", block: [step("c")] }]);
+    const regenerated = {
+      ...code([step("x"), { uuid: "y", keyword: "if", block: [step("z")] }]),
+      uuid: "t2",
+    };
+    const diff = diffRecipes(recipe(before), recipe(regenerated));
+    expect(diff.trivial).toBe(true);
+    expect(diff.changes.map((c) => [c.kind, c.path, c.fields])).toEqual([
+      ["metadata_only", "trigger", ["uuid"]],
+      ["metadata_only", "1", ["uuid"]],
+      ["metadata_only", "2", ["uuid"]],
+      ["metadata_only", "2.1", ["uuid"]],
+    ]);
+
+    const edited = code([
+      step("x"),
+      { uuid: "y", keyword: "if", block: [step("z", { input: { object: "Contact" } })] },
+    ]);
+    expect(diffRecipes(recipe(before), recipe(edited)).changes.map((c) => [c.kind, c.path])).toEqual([
+      ["metadata_only", "1"],
+      ["metadata_only", "2"],
+      ["input_changed", "2.1"],
+    ]);
+  });
+
+  it("never treats unparseable code as trivial", () => {
+    const diff = diffRecipes(recipe("{"), recipe("{}"));
+    expect(diff).toEqual({ changes: [], trivial: false, unparseable: true });
+  });
+});
+
+describe("analyzeSemanticChange", () => {
+  it("asks the model only about non-trivial diffs, passing the diff", async () => {
+    const client = {
+      analyzeSemanticChange: vi.fn(async () => ({
+        hasMeaningfulChange: true,
+        changeSummary: "Searches contacts",
+      })),
+    };
+    const before = recipe(code([step("a", { number: 1 })]));
+
+    expect(
+      await analyzeSemanticChange(client, before, recipe(code([step("a", { number: 2 })])))
+    ).toEqual({
+      hasMeaningfulChange: false,
+      changeSummary: "Only UI metadata changed",
+      changeType: "metadata",
+    });
+    expect(client.analyzeSemanticChange).not.toHaveBeenCalled();
+
+    const after = recipe(code([step("a", { number: 1, input: { object: "Contact" } })]));
+    expect((await analyzeSemanticChange(client, before, after)).changeSummary).toBe(
+      "Searches contacts"
+    );
+    expect(client.analyzeSemanticChange).toHaveBeenCalledWith(
+      before,
+      after,
+      expect.objectContaining({ trivial: false })
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+import type { Storage } from "../src/storage/storage.js";
+import { computeRecipeHash } from "../src/rules/hash-compare.js";
+import {
+  diffRecipeVersions,
+  formatRecipeHistory,
+  formatRecipeVersionDiff,
+} from "../src/rules/recipe-history.js";
+import type { WorkatoRecipe } from "../src/api/workato-client.js";
+
+function recipe(name: string, block: unknown[] = []): WorkatoRecipe {
+  return {
+    id: 7,
+    name,
+    code: JSON.stringify({ provider: "clock", name: "scheduled_event", block }),
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+  } as WorkatoRecipe;
+}
+
+function store(storage: Storage, r: WorkatoRecipe, createdAt: string, runId?: number) {
+  return storage.appendSnapshot({
+    recipe_id: r.id,
+    managed_user_id: "1",
+    run_id: runId,
+    content_hash: computeRecipeHash(r),
+    raw_json: JSON.stringify(r),
+    created_at: createdAt,
+  });
+}
+
+function withRecipe(storage: Storage): Storage {
+  storage.upsertRecipe({
+    id: 7,
+    managed_user_id: "1",
+    name: "Sync",
+    raw_json: "{}",
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+  });
+  return storage;
+}
+
+describe("recipe snapshot history", () => {
+  let dir: string | undefined;
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("appends versions, skipping unchanged content, and keeps them after removal", () => {
+    const storage = withRecipe(createSqliteStorage({ path: ":memory:" }));
+    try {
+      expect(store(storage, recipe("Sync"), "2026-08-01T00:00:00.000Z", 1)?.version).toBe(1);
+      expect(store(storage, recipe("Sync"), "2026-08-02T00:00:00.000Z", 2)).toBeNull();
+      expect(store(storage, recipe("Sync v2"), "2026-09-01T00:00:00.000Z", 3)?.version).toBe(2);
+      expect(storage.getLatestSnapshot(7, "1")?.version).toBe(2);
+      expect(storage.getSnapshot(7, "1", 1)?.run_id).toBe(1);
+
+      storage.markRecipeRemoved(7, "1", "deleted");
+      expect(storage.getLatestSnapshot(7, "1")).toBeNull();
+      expect(store(storage, recipe("Sync v2"), "2026-10-01T00:00:00.000Z")?.version).toBe(3);
+      expect(storage.listSnapshots(7, "1").map((s) => [s.version, s.retired_at !== null])).toEqual([
+        [1, true],
+        [2, true],
+        [3, false],
+      ]);
+      expect(formatRecipeHistory(7, storage.listSnapshots(7, "1")).split("\n")[0]).toMatch(
+        /^v1 \(2026-08-01T00:00:00.000Z, run 1\) "Sync" \[removed /
+      );
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("keeps recipes and versions of customers sharing a recipe ID apart", () => {
+    const storage = withRecipe(createSqliteStorage({ path: ":memory:" }));
+    try {
+      storage.upsertRecipe({
+        id: 7,
+        managed_user_id: "2",
+        name: "Other",
+        raw_json: "{}",
+        created_at: "2026-01-01T00:00:00Z",
+        updated_at: "2026-01-01T00:00:00Z",
+      });
+      store(storage, recipe("Sync"), "2026-08-01T00:00:00.000Z");
+      store(storage, recipe("Sync v2"), "2026-09-01T00:00:00.000Z");
+      const other = recipe("Other");
+      expect(
+        storage.appendSnapshot({
+          recipe_id: 7,
+          managed_user_id: "2",
+          content_hash: computeRecipeHash(other),
+          raw_json: JSON.stringify(other),
+          created_at: "2026-09-02T00:00:00.000Z",
+        })?.version
+      ).toBe(1);
+
+      expect(storage.getRecipe(7, "1")?.name).toBe("Sync");
+      expect(storage.getRecipe(7, "2")?.name).toBe("Other");
+      expect(storage.getLatestSnapshot(7, "1")?.version).toBe(2);
+      expect(storage.listSnapshots(7, "2").map((s) => s.version)).toEqual([1]);
+
+      storage.markRecipeRemoved(7, "2", "deleted");
+      expect(storage.getLatestSnapshot(7, "2")).toBeNull();
+      expect(storage.getLatestSnapshot(7, "1")?.version).toBe(2);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("diffs two versions by number or date, defaulting to the latest change", () => {
+    const storage = withRecipe(createSqliteStorage({ path: ":memory:" }));
+    try {
+      const step = { uuid: "a", provider: "salesforce", name: "search_records" };
+      store(storage, recipe("Sync"), "2026-08-01T00:00:00.000Z");
+      store(storage, recipe("Sync", [step]), "2026-09-01T00:00:00.000Z");
+      store(storage, recipe("Sync orders", [step]), "2026-10-01T00:00:00.000Z");
+
+      const latest = diffRecipeVersions(storage, 7, "1");
+      expect([latest.from.version, latest.to.version]).toEqual([2, 3]);
+      expect(latest.diff.changes.map((c) => c.kind)).toEqual(["recipe_changed"]);
+
+      const lastMonth = diffRecipeVersions(storage, 7, "1", "2026-09-15", "v3");
+      expect([lastMonth.from.version, lastMonth.to.version]).toEqual([2, 3]);
+      const fromStart = diffRecipeVersions(storage, 7, "1", "1", "2");
+      expect(formatRecipeVersionDiff(fromStart).split("\n")).toEqual([
+        'Recipe 7 "Sync": v1 (2026-08-01T00:00:00.000Z) -> v2 (2026-09-01T00:00:00.000Z)',
+        "- step_added: step 1 (salesforce.search_records)",
+      ]);
+
+      expect(() => diffRecipeVersions(storage, 7, "1", "2026-07-01")).toThrow(
+        "Recipe 7 has no version stored by 2026-07-01"
+      );
+      expect(() => diffRecipeVersions(storage, 8, "1")).toThrow("No versions stored for recipe 8");
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("rebuilds a single-snapshot table, keeping each snapshot as version 1", () => {
+    dir = mkdtempSync(join(tmpdir(), "snapshots-"));
+    const path = join(dir, "legacy.db");
+    withRecipe(createSqliteStorage({ path })).close();
+    const legacy = new Database(path);
+    legacy.exec(`
+      DROP TABLE schema_migrations;
+      DROP TABLE recipe_snapshots;
+      CREATE TABLE recipes_legacy (
+        id INTEGER PRIMARY KEY,
+        managed_user_id TEXT NOT NULL,
+        project_id INTEGER,
+        folder_id INTEGER,
+        name TEXT NOT NULL,
+        description TEXT,
+        raw_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        removed_at TEXT,
+        removed_reason TEXT
+      );
+      INSERT INTO recipes_legacy SELECT id, managed_user_id, project_id, folder_id, name, description,
+        raw_json, created_at, updated_at, removed_at, removed_reason FROM recipes;
+      DROP TABLE recipes;
+      ALTER TABLE recipes_legacy RENAME TO recipes;
+      CREATE INDEX idx_recipes_managed_user ON recipes(managed_user_id);
+      CREATE TABLE recipe_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id INTEGER NOT NULL,
+        managed_user_id TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        raw_json TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE(recipe_id),
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id)
+      );
+      CREATE INDEX idx_snapshots_recipe ON recipe_snapshots(recipe_id);
+      INSERT INTO recipe_snapshots (recipe_id, managed_user_id, content_hash, raw_json, created_at)
+      VALUES (7, '1', 'v2:abc', '${JSON.stringify(recipe("Sync"))}', '2026-08-01T00:00:00.000Z');
+    `);
+    legacy.close();
+
+    const storage = createSqliteStorage({ path });
+    try {
+      expect(storage.getSchemaProblems()).toEqual([]);
+      expect(storage.getLatestSnapshot(7, "1")).toMatchObject({
+        version: 1,
+        run_id: null,
+        content_hash: "v2:abc",
+      });
+      expect(store(storage, recipe("Sync v2"), "2026-09-01T00:00:00.000Z")?.version).toBe(2);
+    } finally {
+      storage.close();
+    }
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from "vitest";
+import pino from "pino";
+import { fetchAndStoreRecipes } from "../src/rules/fetcher.js";
+import {
+  describeRemoval,
+  describeRename,
+  reconcileCustomer,
+} from "../src/rules/reconciler.js";
+import { archiveRemovedDocumentation } from "../src/pipeline/delivery.js";
+import type { WorkatoClient, WorkatoRecipe } from "../src/api/workato-client.js";
+import type { DocumentationRef } from "../src/publishers/publisher.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+import type { Storage } from "../src/storage/storage.js";
+
+const log = pino({ level: "silent" });
+
+function recipe(id: number, projectId: number, active = true): WorkatoRecipe {
+  return {
+    id,
+    name: `${active ? "[active] " : ""}Recipe ${id}`,
+    project_id: projectId,
+    folder_id: projectId * 10,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+  } as WorkatoRecipe;
+}
+
+function fakeClient() {
+  return {
+    listAllCustomers: vi.fn(async () => [
+      { id: 1, name: "One", created_at: "", updated_at: "" },
+    ]),
+    listAllProjects: vi.fn(async () => [
+      { id: 100, folder_id: 1000, name: "Billing" },
+      { id: 200, folder_id: 2000, name: "HR" },
+    ]),
+    listAllRecipes: vi.fn(async (_customerId: number, opts?: { folderId?: string }) =>
+      opts?.folderId === "1000"
+        ? [recipe(1, 100), recipe(2, 100), recipe(3, 100)]
+        : [recipe(4, 200)]
+    ),
+  };
+}
+
+function storeDoc(
+  storage: Storage,
+  scope: "project" | "recipe",
+  targetId: number,
+  projectId: number
+) {
+  const doc = storage.insertDocumentation({
+    managed_user_id: "1",
+    scope,
+    target_id: targetId,
+    project_id: projectId,
+    content_md: "# doc",
+    content_html: "<h1>doc</h1>",
+    source_hashes: "{}",
+    publish_status: "published",
+    generated_at: new Date().toISOString(),
+  });
+  storage.recordDelivery({
+    documentation_id: doc.id,
+    publisher: "files",
+    status: "delivered",
+    publish_metadata: JSON.stringify({ isProjectDoc: scope === "project" }),
+  });
+  return doc;
+}
+
+describe("reconcileCustomer", () => {
+  it("marks deleted, excluded and renamed entities and archives their docs", async () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const client = fakeClient();
+      await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+      const projectDoc = storeDoc(storage, "project", 200, 200);
+      const recipeDoc = storeDoc(storage, "recipe", 2, 100);
+      storeDoc(storage, "project", 100, 100);
+
+      // Project 200 is gone, Billing is renamed, recipe 2 loses its prefix and 3 is deleted.
+      client.listAllProjects.mockResolvedValue([
+        { id: 100, folder_id: 1000, name: "Invoicing" },
+      ]);
+      client.listAllRecipes.mockResolvedValue([recipe(1, 100), recipe(2, 100, false)]);
+      const fetched = await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+      const result = reconcileCustomer(storage, fetched.listings[0]);
+
+      expect(result.removed.map(describeRemoval)).toEqual([
+        'Project 200 "HR" (customer 1): deleted',
+        'Recipe 2 in project 100 "[active] Recipe 2" (customer 1): excluded by inclusion rules',
+        'Recipe 3 in project 100 "[active] Recipe 3" (customer 1): deleted',
+        'Recipe 4 in project 200 "[active] Recipe 4" (customer 1): its project was removed',
+      ]);
+      expect(result.renamed).toEqual([
+        { managedUserId: "1", id: 100, previousName: "Billing", name: "Invoicing" },
+      ]);
+      expect(result.affectedProjects).toEqual([{ managedUserId: "1", projectId: 100 }]);
+      expect(storage.getRecipesByCustomer("1").map((r) => r.id)).toEqual([1]);
+      expect(storage.listProjectsByCustomer("1").map((p) => p.id)).toEqual([100]);
+
+      const archived: DocumentationRef[] = [];
+      const registry = {
+        forCustomer: () => [
+          {
+            name: "files",
+            publisher: {
+              async publish() {},
+              async archive(doc: DocumentationRef) {
+                archived.push(doc);
+              },
+            },
+          },
+        ],
+        names: () => ["files"],
+      };
+      const archive = await archiveRemovedDocumentation({ storage, registry, log });
+      expect(archive).toEqual({ archived: 2, errors: [] });
+      expect(archived.map((d) => [d.recipeId, d.projectId])).toEqual([
+        [2, 100],
+        [undefined, 200],
+      ]);
+      expect(storage.getDocumentationById(recipeDoc.id)?.publish_status).toBe("archived");
+      expect(storage.getDocumentationById(projectDoc.id)?.publish_status).toBe("archived");
+      expect(storage.listArchivableDocumentation()).toEqual([]);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("reports a renamed project as affected without removing anything", async () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const client = fakeClient();
+      await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+      storeDoc(storage, "project", 200, 200);
+
+      client.listAllProjects.mockResolvedValue([
+        { id: 100, folder_id: 1000, name: "Billing" },
+        { id: 200, folder_id: 2000, name: "People" },
+      ]);
+      const fetched = await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+      const result = reconcileCustomer(storage, fetched.listings[0]);
+
+      expect(result.removed).toEqual([]);
+      expect(result.renamed.map(describeRename)).toEqual([
+        'Project 200 "HR" (customer 1): renamed to "People"',
+      ]);
+      expect(result.affectedProjects).toEqual([{ managedUserId: "1", projectId: 200 }]);
+      expect(storage.getProject(200, "1")?.name).toBe("People");
+      expect(storage.listArchivableDocumentation()).toEqual([]);
+
+      // Reconciling the same listing again finds nothing new.
+      const again = await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+      expect(reconcileCustomer(storage, again.listings[0]).renamed).toEqual([]);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("marks a removed project's recipes and affects the project a recipe left", async () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const client = fakeClient();
+      await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+
+      // Recipe 3 moves to HR; then Billing is deleted along with its other recipes.
+      client.listAllRecipes.mockImplementation(
+        async (_customerId: number, opts?: { folderId?: string }) =>
+          opts?.folderId === "1000"
+            ? [recipe(1, 100), recipe(2, 100)]
+            : [recipe(3, 200), recipe(4, 200)]
+      );
+      const moved = await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+      const afterMove = reconcileCustomer(storage, moved.listings[0]);
+      expect(afterMove.removed).toEqual([]);
+      expect(afterMove.affectedProjects).toEqual([{ managedUserId: "1", projectId: 100 }]);
+
+      client.listAllProjects.mockResolvedValue([{ id: 200, folder_id: 2000, name: "HR" }]);
+      const fetched = await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+      const result = reconcileCustomer(storage, fetched.listings[0]);
+      expect(result.removed.map((e) => [e.kind, e.id, e.reason])).toEqual([
+        ["project", 100, "deleted"],
+        ["recipe", 1, "project_removed"],
+        ["recipe", 2, "project_removed"],
+      ]);
+      expect(result.affectedProjects).toEqual([]);
+      expect(storage.getRecipesByCustomer("1").map((r) => r.id)).toEqual([3, 4]);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("only treats missing recipes as deleted when the listing is complete", async () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const client = fakeClient();
+      await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+
+      client.listAllRecipes.mockResolvedValue([]);
+      const fetched = await fetchAndStoreRecipes(
+        client as unknown as WorkatoClient,
+        storage,
+        { updatedAfter: "2026-02-01T00:00:00Z" }
+      );
+      const result = reconcileCustomer(storage, fetched.listings[0]);
+      expect(result.removed).toEqual([]);
+      expect(storage.getRecipesByCustomer("1")).toHaveLength(4);
+    } finally {
+      storage.close();
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchAndStoreRecipes } from "../src/rules/fetcher.js";
+import type { WorkatoClient, WorkatoRecipe } from "../src/api/workato-client.js";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+
+function recipe(id: number, projectId: number, updatedAt: string): WorkatoRecipe {
+  return {
+    id,
+    name: `[active] Recipe ${id}`,
+    project_id: projectId,
+    folder_id: projectId * 10,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: updatedAt,
+  } as WorkatoRecipe;
+}
+
+function fakeClient() {
+  return {
+    listAllCustomers: vi.fn(async () => [
+      { id: 1, name: "One", created_at: "", updated_at: "" },
+      { id: 2, name: "Two", created_at: "", updated_at: "" },
+    ]),
+    listAllProjects: vi.fn(async (customerId: number) => [
+      { id: customerId * 100, folder_id: customerId * 1000, name: "P" },
+    ]),
+    listAllRecipes: vi.fn(async (customerId: number) => [
+      recipe(customerId * 10, customerId * 100, "2026-03-01T00:00:00Z"),
+    ]),
+  };
+}
+
+describe("run checkpoints", () => {
+  it("stores checkpoints and run options for unfinished runs", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const runId = storage.createSyncRun('{"forceRegenerate":false,"mode":"project"}');
+      const checkpoint = {
+        run_id: runId,
+        scope: "project" as const,
+        managed_user_id: "1",
+        project_id: 100,
+        stats: '{"docsPublished":1}',
+        completed_at: "2026-03-01T00:00:00.000Z",
+      };
+      storage.saveRunCheckpoint(checkpoint);
+      storage.saveRunCheckpoint({ ...checkpoint, stats: '{"docsPublished":2}' });
+
+      expect(storage.listRunCheckpoints(runId)).toEqual([
+        { ...checkpoint, stats: '{"docsPublished":2}' },
+      ]);
+      expect(storage.listResumableSyncRuns().map((r) => r.run_options)).toEqual([
+        '{"forceRegenerate":false,"mode":"project"}',
+      ]);
+
+      storage.finishSyncRun(runId, {
+        customersProcessed: 1,
+        recipesFetched: 0,
+        recipesChanged: 0,
+        recipesDocumented: 0,
+      });
+      expect(storage.listResumableSyncRuns()).toEqual([]);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("keeps interrupted runs resumable until they are reopened and finished", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const runId = storage.createSyncRun("{}");
+      const stats = {
+        customersProcessed: 2,
+        recipesFetched: 5,
+        recipesChanged: 3,
+        recipesDocumented: 1,
+      };
+      storage.finishSyncRun(runId, {
+        ...stats,
+        errors: "Run interrupted by shutdown",
+        status: "interrupted",
+      });
+      expect(storage.listResumableSyncRuns()).toMatchObject([
+        { id: runId, status: "interrupted", recipes_documented: 1 },
+      ]);
+
+      storage.reopenSyncRun(runId);
+      expect(storage.getSyncRun(runId)).toMatchObject({
+        finished_at: null,
+        status: null,
+        errors: null,
+      });
+
+      storage.finishSyncRun(runId, { ...stats, recipesDocumented: 3, status: "success" });
+      expect(storage.listResumableSyncRuns()).toEqual([]);
+      expect(storage.getSyncRun(runId)?.status).toBe("success");
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("reads resumed customers from storage and checkpoints fetched ones", async () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const client = fakeClient();
+      const first = await fetchAndStoreRecipes(
+        client as unknown as WorkatoClient,
+        storage
+      );
+      expect(first.recipesFetched).toBe(2);
+
+      client.listAllProjects.mockClear();
+      const fetched: Array<[string, number]> = [];
+      const resumed = await fetchAndStoreRecipes(
+        client as unknown as WorkatoClient,
+        storage,
+        {
+          updatedAfter: "2026-02-01T00:00:00Z",
+          resumedCustomers: new Set(["1"]),
+          onCustomerFetched: (muid, count) => fetched.push([muid, count]),
+        }
+      );
+
+      expect(client.listAllProjects).toHaveBeenCalledTimes(1);
+      expect(client.listAllProjects).toHaveBeenCalledWith(2);
+      expect(fetched).toEqual([["2", 1]]);
+      expect(resumed.managedUserIds).toEqual(["1", "2"]);
+      expect(resumed.recipes.map((r) => r.recipe.id)).toEqual([10, 20]);
+      expect(resumed.projectsFetched).toBe(2);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("reads run timestamps as UTC when filtering resumed customers' recipes", async () => {
+    const tz = process.env.TZ;
+    process.env.TZ = "America/New_York";
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const client = fakeClient();
+      client.listAllRecipes.mockImplementation(async (customerId: number) => [
+        recipe(customerId * 10, customerId * 100, "2026-02-01T00:30:00Z"),
+      ]);
+      await fetchAndStoreRecipes(client as unknown as WorkatoClient, storage);
+
+      const resumed = await fetchAndStoreRecipes(
+        client as unknown as WorkatoClient,
+        storage,
+        {
+          // sync_runs format: UTC without a zone.
+          updatedAfter: "2026-02-01 00:00:00",
+          resumedCustomers: new Set(["1", "2"]),
+        }
+      );
+      expect(resumed.recipes.map((r) => r.recipe.id)).toEqual([10, 20]);
+    } finally {
+      storage.close();
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createSqliteStorage } from "../src/storage/sqlite-storage.js";
+import type { Storage } from "../src/storage/storage.js";
+import type { DocumentationScope } from "../src/storage/schema.js";
+
+function insertDoc(
+  storage: Storage,
+  managedUserId: string,
+  scope: DocumentationScope,
+  targetId: number,
+  content: string
+) {
+  return storage.insertDocumentation({
+    managed_user_id: managedUserId,
+    scope,
+    target_id: targetId,
+    project_id: scope === "project" ? targetId : 10,
+    content_md: content,
+    content_html: `<p>${content}</p>`,
+    quality_score: 4,
+    model: "model-a",
+    prompt_version: "p1",
+    source_hashes: JSON.stringify({ 7: "v3:abc" }),
+    publish_status: "pending",
+    generated_at: "2026-09-01T00:00:00.000Z",
+  });
+}
+
+describe("sqlite documentation storage", () => {
+  let dir: string | undefined;
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("numbers versions separately per customer, scope and target", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      expect(insertDoc(storage, "1", "project", 10, "a").version).toBe(1);
+      expect(insertDoc(storage, "1", "project", 10, "b").version).toBe(2);
+      expect(insertDoc(storage, "1", "recipe", 10, "c").version).toBe(1);
+      expect(insertDoc(storage, "1", "project", 11, "d").version).toBe(1);
+      expect(insertDoc(storage, "2", "project", 10, "e").version).toBe(1);
+
+      expect(storage.getDocumentation("1", "project", 10)).toMatchObject({
+        version: 2,
+        content_md: "b",
+        model: "model-a",
+        prompt_version: "p1",
+        quality_score: 4,
+      });
+      expect(
+        storage.listDocumentationVersions("1", "project", 10).map((d) => d.version)
+      ).toEqual([2, 1]);
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("reads the latest published version, not the latest generated one", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      expect(storage.getPublishedDocumentation("1", "project", 10)).toBeNull();
+      const first = insertDoc(storage, "1", "project", 10, "a");
+      storage.updateDocumentationStatus(first.id, "published", "2026-09-02T00:00:00.000Z");
+      const second = insertDoc(storage, "1", "project", 10, "b");
+      storage.updateDocumentationStatus(second.id, "needs_review");
+
+      expect(storage.getDocumentation("1", "project", 10)?.version).toBe(2);
+      expect(storage.getPublishedDocumentation("1", "project", 10)).toMatchObject({
+        version: 1,
+        publish_status: "published",
+        published_at: "2026-09-02T00:00:00.000Z",
+      });
+      expect(storage.getPublishedDocumentation("1", "recipe", 10)).toBeNull();
+    } finally {
+      storage.close();
+    }
+  });
+
+  it("moves a recipe-keyed documentation table aside, keeping its rows", () => {
+    dir = mkdtempSync(join(tmpdir(), "storage-"));
+    const path = join(dir, "legacy.db");
+    createSqliteStorage({ path }).close();
+    const legacy = new Database(path);
+    legacy.exec(`
+      DROP TABLE schema_migrations;
+      DROP TABLE doc_deliveries;
+      DROP TABLE documentation;
+      CREATE TABLE documentation (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id INTEGER NOT NULL,
+        managed_user_id TEXT NOT NULL,
+        content_md TEXT NOT NULL,
+        content_html TEXT NOT NULL,
+        quality_score REAL,
+        generated_at TEXT NOT NULL,
+        UNIQUE(recipe_id)
+      );
+      INSERT INTO documentation (recipe_id, managed_user_id, content_md, content_html, generated_at)
+      VALUES (7, '1', 'old doc', '<p>old doc</p>', '2026-01-01');
+    `);
+    legacy.close();
+
+    const storage = createSqliteStorage({ path });
+    try {
+      expect(storage.getSchemaProblems()).toEqual([]);
+      expect(storage.getDocumentation("1", "recipe", 7)).toBeNull();
+      expect(insertDoc(storage, "1", "recipe", 7, "new doc").version).toBe(1);
+    } finally {
+      storage.close();
+    }
+    const db = new Database(path, { readonly: true });
+    try {
+      expect(db.prepare("SELECT recipe_id, content_md FROM documentation_legacy").all()).toEqual([
+        { recipe_id: 7, content_md: "old doc" },
+      ]);
+    } finally {
+      db.close();
+    }
+  });
+});
+
+describe("sqlite deferred projects", () => {
+  it("keeps budget and Workato-change deferrals apart, budget first", () => {
+    const storage = createSqliteStorage({ path: ":memory:" });
+    try {
+      const defer = (projectId: number, kind: "budget" | "workato_change", reason: string, at: string) =>
+        storage.deferProject({
+          managed_user_id: "1",
+          project_id: projectId,
+          kind,
+          reason,
+          run_id: null,
+          deferred_at: at,
+        });
+      defer(7, "workato_change", "project changed in Workato", "2026-09-01T00:00:00Z");
+      defer(8, "budget", "run budget $5.00", "2026-09-02T00:00:00Z");
+      defer(7, "budget", "run budget $5.00", "2026-09-03T00:00:00Z");
+      defer(8, "budget", "customer budget $2.00", "2026-09-04T00:00:00Z");
+
+      expect(
+        storage.listDeferredProjects(["1"]).map((d) => [d.project_id, d.kind, d.reason, d.deferred_at])
+      ).toEqual([
+        [7, "budget", "run budget $5.00", "2026-09-03T00:00:00Z"],
+        [8, "budget", "customer budget $2.00", "2026-09-04T00:00:00Z"],
+        [7, "workato_change", "project changed in Workato", "2026-09-01T00:00:00Z"],
+      ]);
+
+      storage.clearDeferredProject("1", 7);
+      expect(storage.listDeferredProjects(["1"]).map((d) => d.project_id)).toEqual([8]);
+    } finally {
+      storage.close();
+    }
+  });
+});
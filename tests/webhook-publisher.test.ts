@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, Server, IncomingHttpHeaders } from "http";
+import type { AddressInfo } from "net";
+import {
+  computeIdempotencyKey,
+  createWebhookPublisher,
+  signWebhookBody,
+} from "../src/publishers/webhook-publisher.js";
+
+const received: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+let failuresBeforeSuccess = 0;
+let failureStatus = 503;
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      if (failuresBeforeSuccess > 0) {
+        failuresBeforeSuccess--;
+        res.writeHead(failureStatus);
+        return res.end();
+      }
+      res.writeHead(202);
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/docs`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const doc = {
+  managedUserId: "42",
+  projectId: 7,
+  contentMd: "# Sync",
+  contentHtml: "<h1>Sync</h1>",
+};
+const metadata = { projectName: "HR Sync", isProjectDoc: true };
+
+describe("createWebhookPublisher", () => {
+  beforeEach(() => {
+    received.length = 0;
+    failuresBeforeSuccess = 0;
+    failureStatus = 503;
+  });
+
+  it("signs the body and sends configured headers and the idempotency key", async () => {
+    const publisher = createWebhookPublisher({
+      url,
+      secret: "s3cret",
+      headers: { "X-Api-Key": "portal" },
+    });
+    await publisher.publish(doc, metadata);
+
+    const [{ headers, body }] = received;
+    const timestamp = headers["x-webhook-timestamp"] as string;
+    expect(headers["x-webhook-signature"]).toBe(
+      signWebhookBody("s3cret", timestamp, body)
+    );
+    expect(headers["x-api-key"]).toBe("portal");
+    expect(headers["idempotency-key"]).toBe(computeIdempotencyKey(doc));
+    expect(JSON.parse(body)).toMatchObject({ doc, metadata });
+  });
+
+  it("retries server errors with the same idempotency key", async () => {
+    failuresBeforeSuccess = 2;
+    const publisher = createWebhookPublisher({ url, retryBaseDelayMs: 1 });
+    await publisher.publish(doc, metadata);
+
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map((r) => r.headers["idempotency-key"])).size).toBe(1);
+  });
+
+  it("does not retry client errors", async () => {
+    failuresBeforeSuccess = 1;
+    failureStatus = 400;
+    const publisher = createWebhookPublisher({ url, retryBaseDelayMs: 1 });
+    await expect(publisher.publish(doc, metadata)).rejects.toThrow("Webhook error (400)");
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe("computeIdempotencyKey", () => {
+  it("changes with content but not with quality score", () => {
+    expect(computeIdempotencyKey({ ...doc, qualityScore: 4 })).toBe(
+      computeIdempotencyKey(doc)
+    );
+    expect(computeIdempotencyKey({ ...doc, contentMd: "# Other" })).not.toBe(
+      computeIdempotencyKey(doc)
+    );
+  });
+});